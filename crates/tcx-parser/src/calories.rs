@@ -0,0 +1,216 @@
+use crate::{parse_timestamp, Lap, Trackpoint, TrainingCenterDatabase};
+
+/// Shortest interval between two readings that counts as a paused recording,
+/// which burns nothing, however often the device records
+const MIN_PAUSE_SECONDS: f64 = 10.0;
+
+/// Typical sample intervals a gap must span to count as a pause. Smart
+/// recording writes a point every few seconds and spaces them further on
+/// steady stretches, so a fixed limit would drop real effort.
+const PAUSE_INTERVALS: f64 = 10.0;
+
+const KJ_PER_KCAL: f64 = 4.184;
+
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub enum Sex {
+    Male,
+    Female,
+}
+
+/// The athlete, for the heart rate model
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub struct Profile {
+    pub weight_kg: f64,
+    pub age: f64,
+    pub sex: Sex,
+}
+
+/// How lap calories follow edits that remove trackpoints
+#[derive(Debug, Clone, Copy, PartialEq, Default)]
+pub enum CalorieMethod {
+    /// Keep the calories as recorded, however much is removed
+    Recorded,
+    /// Scale the recorded calories by the share of the lap's time that's left
+    #[default]
+    Time,
+    /// Scale the recorded calories by the share of the lap's distance that's left
+    Distance,
+    /// Estimate from heart rate with the Keytel et al. (2005) equations
+    HeartRate(Profile),
+}
+
+impl CalorieMethod {
+    /// `weight_kg`, `age` and `sex` ("male" or "female") are only used by
+    /// "heart_rate"
+    pub fn parse(name: &str, weight_kg: f64, age: f64, sex: &str) -> Result<CalorieMethod, String> {
+        match name {
+            "recorded" => Ok(CalorieMethod::Recorded),
+            "time" => Ok(CalorieMethod::Time),
+            "distance" => Ok(CalorieMethod::Distance),
+            "heart_rate" => {
+                if !(20.0..=300.0).contains(&weight_kg) {
+                    return Err(format!("Invalid weight: {} kg", weight_kg));
+                }
+                if !(10.0..=100.0).contains(&age) {
+                    return Err(format!("Invalid age: {}", age));
+                }
+                let sex = match sex {
+                    "male" => Sex::Male,
+                    "female" => Sex::Female,
+                    other => return Err(format!("Invalid sex: {}", other)),
+                };
+                Ok(CalorieMethod::HeartRate(Profile { weight_kg, age, sex }))
+            }
+            other => Err(format!("Unknown calorie method: {}", other)),
+        }
+    }
+
+    pub fn name(&self) -> &'static str {
+        match self {
+            CalorieMethod::Recorded => "recorded",
+            CalorieMethod::Time => "time",
+            CalorieMethod::Distance => "distance",
+            CalorieMethod::HeartRate(_) => "heart_rate",
+        }
+    }
+
+    /// What choosing the method is called in the edit history
+    pub fn label(&self) -> &'static str {
+        match self {
+            CalorieMethod::Recorded => "Restore recorded calories",
+            CalorieMethod::Time => "Scale calories by time",
+            CalorieMethod::Distance => "Scale calories by distance",
+            CalorieMethod::HeartRate(_) => "Estimate calories from heart rate",
+        }
+    }
+}
+
+/// A lap's calories with the time and distance they were recorded over,
+/// which scaling is relative to
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub struct LapBaseline {
+    pub calories: u32,
+    pub seconds: f64,
+    pub meters: f64,
+}
+
+/// Elapsed time and distance from the first to the last trackpoint
+fn span(trackpoints: &[Trackpoint]) -> (f64, f64) {
+    let (Some(first), Some(last)) = (trackpoints.first(), trackpoints.last()) else {
+        return (0.0, 0.0);
+    };
+    let seconds = match (parse_timestamp(&first.time), parse_timestamp(&last.time)) {
+        (Some(start), Some(end)) => end.signed_duration_since(start).num_milliseconds() as f64 / 1000.0,
+        _ => 0.0,
+    };
+    let meters = match (first.distance_meters, last.distance_meters) {
+        (Some(start), Some(end)) => end - start,
+        _ => 0.0,
+    };
+    (seconds, meters)
+}
+
+fn trackpoints(lap: &Lap) -> &[Trackpoint] {
+    lap.track.as_ref().map_or(&[], |t| &t.trackpoints)
+}
+
+/// Record the current calories of `lap` as what later edits scale from
+pub fn set_baseline(lap: &mut Lap) {
+    let (seconds, meters) = span(trackpoints(lap));
+    lap.baseline = Some(LapBaseline { calories: lap.calories, seconds, meters });
+}
+
+/// Record every lap's calories as loaded
+pub fn set_baselines(database: &mut TrainingCenterDatabase) {
+    for lap in database.activities.activity.iter_mut().flat_map(|a| &mut a.laps) {
+        set_baseline(lap);
+    }
+}
+
+fn scaled(calories: u32, share: f64) -> u32 {
+    (calories as f64 * share.clamp(0.0, 1.0)).round() as u32
+}
+
+/// Energy in kcal per minute at `bpm`
+fn keytel(bpm: f64, profile: &Profile) -> f64 {
+    let kj = match profile.sex {
+        Sex::Male => -55.0969 + 0.6309 * bpm + 0.1988 * profile.weight_kg + 0.2017 * profile.age,
+        Sex::Female => -20.4022 + 0.4472 * bpm - 0.1263 * profile.weight_kg + 0.074 * profile.age,
+    };
+    (kj / KJ_PER_KCAL).max(0.0)
+}
+
+/// Longest interval that is still recording rather than a pause: several
+/// times the median interval, and never below `MIN_PAUSE_SECONDS`
+fn pause_threshold(intervals: &[f64]) -> f64 {
+    let mut sorted: Vec<f64> = intervals.iter().copied().filter(|&s| s > 0.0).collect();
+    if sorted.is_empty() {
+        return MIN_PAUSE_SECONDS;
+    }
+    sorted.sort_by(f64::total_cmp);
+    (sorted[sorted.len() / 2] * PAUSE_INTERVALS).max(MIN_PAUSE_SECONDS)
+}
+
+/// Seconds from each trackpoint to the next, 0 where a time can't be read
+fn intervals<'a>(trackpoints: impl IntoIterator<Item = &'a Trackpoint>) -> Vec<f64> {
+    let times: Vec<_> = trackpoints.into_iter().map(|tp| parse_timestamp(&tp.time)).collect();
+    times
+        .windows(2)
+        .map(|pair| match (pair[0], pair[1]) {
+            (Some(start), Some(end)) => end.signed_duration_since(start).num_milliseconds() as f64 / 1000.0,
+            _ => 0.0,
+        })
+        .collect()
+}
+
+/// The pause threshold over every trackpoint of `database`, which the page
+/// also leaves out of the time in heart rate zones
+pub fn pause_seconds(database: &TrainingCenterDatabase) -> f64 {
+    let laps = database.activities.activity.iter().flat_map(|a| &a.laps);
+    pause_threshold(&intervals(laps.flat_map(trackpoints)))
+}
+
+/// Calories of the lap's heart rate readings, each held until the next one;
+/// None without any
+fn from_heart_rate(trackpoints: &[Trackpoint], profile: &Profile) -> Option<u32> {
+    let intervals = intervals(trackpoints);
+    let threshold = pause_threshold(&intervals);
+
+    let mut total = None;
+    for (tp, &seconds) in trackpoints.iter().zip(&intervals) {
+        let Some(ref bpm) = tp.heart_rate_bpm else { continue };
+        if seconds <= 0.0 || seconds > threshold {
+            continue;
+        }
+        *total.get_or_insert(0.0) += keytel(bpm.value as f64, profile) * seconds / 60.0;
+    }
+    total.map(|kcal: f64| kcal.round() as u32)
+}
+
+/// Calories of `lap` as it is now. Laps without a baseline keep their value;
+/// without distance the distance scaling falls back to time, and so does the
+/// heart rate model without heart rate.
+pub fn lap_calories(lap: &Lap, method: CalorieMethod) -> u32 {
+    let Some(baseline) = lap.baseline else { return lap.calories };
+    let (seconds, meters) = span(trackpoints(lap));
+
+    let by_time = || {
+        if baseline.seconds > 0.0 {
+            scaled(baseline.calories, seconds / baseline.seconds)
+        } else {
+            baseline.calories
+        }
+    };
+
+    match method {
+        CalorieMethod::Recorded => baseline.calories,
+        CalorieMethod::Time => by_time(),
+        CalorieMethod::Distance if baseline.meters > 0.0 => {
+            scaled(baseline.calories, meters / baseline.meters)
+        }
+        CalorieMethod::Distance => by_time(),
+        CalorieMethod::HeartRate(profile) => {
+            from_heart_rate(trackpoints(lap), &profile).unwrap_or_else(by_time)
+        }
+    }
+}
@@ -0,0 +1,172 @@
+use chrono::{DateTime, Duration, FixedOffset, NaiveDateTime, Timelike};
+
+use crate::TrainingCenterDatabase;
+
+/// Parse a timestamp. Besides RFC 3339 this takes the variants some
+/// exporters write: a space instead of the `T`, offsets without a colon and
+/// no zone at all, which is read as UTC.
+pub fn parse_timestamp(time_str: &str) -> Option<DateTime<FixedOffset>> {
+    let time_str = time_str.trim();
+    if let Ok(time) = DateTime::parse_from_rfc3339(time_str) {
+        return Some(time);
+    }
+
+    for format in ["%Y-%m-%dT%H:%M:%S%.f%z", "%Y-%m-%d %H:%M:%S%.f%z"] {
+        if let Ok(time) = DateTime::parse_from_str(time_str, format) {
+            return Some(time);
+        }
+    }
+
+    let naive = time_str.trim_end_matches(['Z', 'z']);
+    ["%Y-%m-%dT%H:%M:%S%.f", "%Y-%m-%d %H:%M:%S%.f"]
+        .iter()
+        .find_map(|format| NaiveDateTime::parse_from_str(naive, format).ok())
+        .map(|time| time.and_utc().fixed_offset())
+}
+
+#[derive(Debug, Clone, Copy, PartialEq)]
+enum Zone {
+    /// No zone given; the time is UTC
+    None,
+    /// `Z` or `z`
+    Utc(char),
+    /// A numeric offset, written `+01:00` or `+0100`
+    Offset { offset: FixedOffset, colon: bool },
+}
+
+/// How a timestamp string was written, so a new time can be written the
+/// same way
+#[derive(Debug, Clone, Copy, PartialEq)]
+struct Style {
+    separator: char,
+    fraction_digits: usize,
+    zone: Zone,
+}
+
+impl Style {
+    fn of(time_str: &str) -> Option<Style> {
+        let offset = *parse_timestamp(time_str)?.offset();
+        let time_str = time_str.trim();
+        let separator = match time_str.chars().nth(10) {
+            Some(' ') => ' ',
+            _ => 'T',
+        };
+
+        // Everything after `YYYY-MM-DDTHH:MM:SS`
+        let mut rest = time_str.get(19..).unwrap_or("");
+        let mut fraction_digits = 0;
+        if let Some(fraction) = rest.strip_prefix('.') {
+            fraction_digits = fraction.chars().take_while(|c| c.is_ascii_digit()).count();
+            rest = &fraction[fraction_digits..];
+        }
+
+        let zone = match rest.trim() {
+            "" => Zone::None,
+            "Z" => Zone::Utc('Z'),
+            "z" => Zone::Utc('z'),
+            written => Zone::Offset { offset, colon: written.contains(':') },
+        };
+
+        Some(Style { separator, fraction_digits, zone })
+    }
+
+    fn format(&self, time: DateTime<FixedOffset>) -> String {
+        let time = match self.zone {
+            Zone::Offset { offset, .. } => time.with_timezone(&offset),
+            Zone::None | Zone::Utc(_) => time.with_timezone(&FixedOffset::east_opt(0).unwrap()),
+        };
+
+        let mut formatted = format!(
+            "{}{}{}",
+            time.format("%Y-%m-%d"),
+            self.separator,
+            time.format("%H:%M:%S")
+        );
+        if self.fraction_digits > 0 {
+            let nanos = format!("{:09}", time.nanosecond() % 1_000_000_000);
+            formatted.push('.');
+            formatted.push_str(&nanos[..self.fraction_digits.min(9)]);
+            formatted.extend(std::iter::repeat('0').take(self.fraction_digits.saturating_sub(9)));
+        }
+        match self.zone {
+            Zone::None => {}
+            Zone::Utc(suffix) => formatted.push(suffix),
+            Zone::Offset { colon: true, .. } => formatted.push_str(&time.format("%:z").to_string()),
+            Zone::Offset { colon: false, .. } => formatted.push_str(&time.format("%z").to_string()),
+        }
+        formatted
+    }
+}
+
+/// Digits needed to write `nanos` of a second exactly
+fn fraction_digits_needed(mut nanos: u32) -> usize {
+    if nanos == 0 {
+        return 0;
+    }
+    let mut digits = 9;
+    while nanos % 10 == 0 {
+        nanos /= 10;
+        digits -= 1;
+    }
+    digits
+}
+
+/// Move a timestamp by `offset`, written the way the original was: the same
+/// separator, fractional digits and zone notation, with more digits only
+/// where the offset has a finer fraction
+pub fn shift_timestamp(time_str: &str, offset: Duration) -> Option<String> {
+    let shifted = parse_timestamp(time_str)? + offset;
+    let mut style = Style::of(time_str)?;
+    // Cutting off a sub-second offset would lose it again on every shift
+    let needed = fraction_digits_needed(shifted.nanosecond() % 1_000_000_000);
+    style.fraction_digits = style.fraction_digits.max(needed);
+    Some(style.format(shifted))
+}
+
+/// Write the time of `time_str` the way `like` is written, offset included,
+/// for copying a trackpoint time into a lap start or activity Id that has
+/// its own formatting
+pub fn restyle_timestamp(time_str: &str, like: &str) -> Option<String> {
+    let time = parse_timestamp(time_str)?;
+    Some(Style::of(like)?.format(time))
+}
+
+/// `offset` as it reads in the edit history, like `+1:30`, `−2:00:00` or,
+/// with a part of a second, `+0:00.500`
+pub fn format_offset(offset: Duration) -> String {
+    let sign = if offset < Duration::zero() { '−' } else { '+' };
+    let millis = offset.num_milliseconds().abs();
+    let seconds = millis / 1000;
+    let (hours, minutes, secs) = (seconds / 3600, seconds % 3600 / 60, seconds % 60);
+    let fraction = match millis % 1000 {
+        0 => String::new(),
+        ms => format!(".{:03}", ms),
+    };
+    if hours > 0 {
+        format!("{}{}:{:02}:{:02}{}", sign, hours, minutes, secs, fraction)
+    } else {
+        format!("{}{}:{:02}{}", sign, minutes, secs, fraction)
+    }
+}
+
+/// Move every trackpoint time, lap start and activity Id by `offset`
+pub fn shift_time(database: &mut TrainingCenterDatabase, offset: Duration) -> Result<(), String> {
+    let shift = |time: &mut String| -> Result<(), String> {
+        *time = shift_timestamp(time, offset).ok_or_else(|| format!("Unreadable timestamp {}", time))?;
+        Ok(())
+    };
+
+    for activity in &mut database.activities.activity {
+        // The Id is meant to be the start time, but isn't always
+        if let Some(id) = shift_timestamp(&activity.id, offset) {
+            activity.id = id;
+        }
+        for lap in &mut activity.laps {
+            shift(&mut lap.start_time)?;
+            for tp in lap.track.iter_mut().flat_map(|t| &mut t.trackpoints) {
+                shift(&mut tp.time)?;
+            }
+        }
+    }
+    Ok(())
+}
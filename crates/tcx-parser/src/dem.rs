@@ -0,0 +1,551 @@
+/// SRTM marks voids with the lowest 16-bit value
+const HGT_VOID: f32 = -32768.0;
+
+// TIFF tags
+const TAG_IMAGE_WIDTH: u16 = 256;
+const TAG_IMAGE_LENGTH: u16 = 257;
+const TAG_BITS_PER_SAMPLE: u16 = 258;
+const TAG_COMPRESSION: u16 = 259;
+const TAG_STRIP_OFFSETS: u16 = 273;
+const TAG_SAMPLES_PER_PIXEL: u16 = 277;
+const TAG_ROWS_PER_STRIP: u16 = 278;
+const TAG_STRIP_BYTE_COUNTS: u16 = 279;
+const TAG_PREDICTOR: u16 = 317;
+const TAG_TILE_WIDTH: u16 = 322;
+const TAG_TILE_LENGTH: u16 = 323;
+const TAG_TILE_OFFSETS: u16 = 324;
+const TAG_TILE_BYTE_COUNTS: u16 = 325;
+const TAG_SAMPLE_FORMAT: u16 = 339;
+const TAG_MODEL_PIXEL_SCALE: u16 = 33550;
+const TAG_MODEL_TIEPOINT: u16 = 33922;
+const TAG_GEO_KEY_DIRECTORY: u16 = 34735;
+const TAG_GDAL_NODATA: u16 = 42113;
+
+// GeoTIFF keys
+const KEY_MODEL_TYPE: u16 = 1024;
+const KEY_RASTER_TYPE: u16 = 1025;
+const MODEL_TYPE_PROJECTED: f64 = 1.0;
+const RASTER_PIXEL_IS_POINT: f64 = 2.0;
+
+// ============================================================================
+// Elevation grid
+// ============================================================================
+
+enum Samples {
+    Int16(Vec<i16>),
+    Float32(Vec<f32>),
+}
+
+impl Samples {
+    fn get(&self, idx: usize) -> f32 {
+        match self {
+            Samples::Int16(values) => values[idx] as f32,
+            Samples::Float32(values) => values[idx],
+        }
+    }
+}
+
+/// A regular latitude/longitude grid of elevations in metres
+pub struct DemTile {
+    /// Position of the centre of the top-left sample, in degrees
+    north: f64,
+    west: f64,
+    /// Degrees between neighbouring samples
+    lat_step: f64,
+    lon_step: f64,
+    rows: usize,
+    cols: usize,
+    /// Row-major, north to south
+    samples: Samples,
+    nodata: Option<f32>,
+}
+
+impl DemTile {
+    fn value(&self, row: usize, col: usize) -> Option<f64> {
+        let value = self.samples.get(row * self.cols + col);
+        if value.is_nan() || Some(value) == self.nodata {
+            None
+        } else {
+            Some(value as f64)
+        }
+    }
+
+    /// Bilinear interpolation between the four samples around a position.
+    /// Missing samples are left out and the others re-weighted; None if the
+    /// position is outside the tile or all four are missing.
+    pub fn sample(&self, lat: f64, lon: f64) -> Option<f64> {
+        let row = (self.north - lat) / self.lat_step;
+        let col = (lon - self.west) / self.lon_step;
+        let max_row = (self.rows - 1) as f64;
+        let max_col = (self.cols - 1) as f64;
+        if !(0.0..=max_row).contains(&row) || !(0.0..=max_col).contains(&col) {
+            return None;
+        }
+
+        let r0 = (row.floor() as usize).min(self.rows - 2);
+        let c0 = (col.floor() as usize).min(self.cols - 2);
+        let fr = row - r0 as f64;
+        let fc = col - c0 as f64;
+
+        let corners = [
+            (r0, c0, (1.0 - fr) * (1.0 - fc)),
+            (r0, c0 + 1, (1.0 - fr) * fc),
+            (r0 + 1, c0, fr * (1.0 - fc)),
+            (r0 + 1, c0 + 1, fr * fc),
+        ];
+
+        let mut sum = 0.0;
+        let mut weight = 0.0;
+        for (r, c, w) in corners {
+            if let Some(value) = self.value(r, c) {
+                sum += value * w;
+                weight += w;
+            }
+        }
+
+        (weight > 1e-12).then(|| sum / weight)
+    }
+}
+
+// ============================================================================
+// SRTM .hgt
+// ============================================================================
+
+/// South-west corner of an SRTM tile from a file name like `N46E008.hgt`
+fn hgt_origin(file_name: &str) -> Option<(f64, f64)> {
+    let base = file_name.rsplit(['/', '\\']).next()?.to_ascii_uppercase();
+    let bytes = base.as_bytes();
+    if bytes.len() < 7 {
+        return None;
+    }
+
+    let lat: f64 = base.get(1..3)?.parse().ok()?;
+    let lon: f64 = base.get(4..7)?.parse().ok()?;
+    let lat = match bytes[0] {
+        b'N' => lat,
+        b'S' => -lat,
+        _ => return None,
+    };
+    let lon = match bytes[3] {
+        b'E' => lon,
+        b'W' => -lon,
+        _ => return None,
+    };
+    Some((lat, lon))
+}
+
+/// Parse an SRTM `.hgt` tile: a square grid of big-endian 16-bit heights
+/// covering one degree, positioned by its file name
+pub fn parse_hgt(file_name: &str, data: &[u8]) -> Result<DemTile, String> {
+    let (south, west) = hgt_origin(file_name)
+        .ok_or_else(|| format!("Can't tell the tile position from the name {}", file_name))?;
+
+    let count = data.len() / 2;
+    let size = (count as f64).sqrt().round() as usize;
+    if size < 2 || size * size * 2 != data.len() {
+        return Err(format!("{} is not a square grid of 16-bit samples", file_name));
+    }
+
+    let samples = data
+        .chunks_exact(2)
+        .map(|b| i16::from_be_bytes([b[0], b[1]]))
+        .collect();
+    let step = 1.0 / (size - 1) as f64;
+
+    Ok(DemTile {
+        north: south + 1.0,
+        west,
+        lat_step: step,
+        lon_step: step,
+        rows: size,
+        cols: size,
+        samples: Samples::Int16(samples),
+        nodata: Some(HGT_VOID),
+    })
+}
+
+// ============================================================================
+// GeoTIFF
+// ============================================================================
+
+struct TiffReader<'a> {
+    data: &'a [u8],
+    little_endian: bool,
+}
+
+struct TiffEntry {
+    kind: u16,
+    count: usize,
+    /// Where the values start
+    offset: usize,
+}
+
+impl<'a> TiffReader<'a> {
+    fn bytes<const N: usize>(&self, offset: usize) -> Result<[u8; N], String> {
+        self.data
+            .get(offset..offset + N)
+            .and_then(|b| b.try_into().ok())
+            .ok_or_else(|| "GeoTIFF is truncated".to_string())
+    }
+
+    fn u16(&self, offset: usize) -> Result<u16, String> {
+        let b = self.bytes::<2>(offset)?;
+        Ok(if self.little_endian { u16::from_le_bytes(b) } else { u16::from_be_bytes(b) })
+    }
+
+    fn u32(&self, offset: usize) -> Result<u32, String> {
+        let b = self.bytes::<4>(offset)?;
+        Ok(if self.little_endian { u32::from_le_bytes(b) } else { u32::from_be_bytes(b) })
+    }
+
+    fn u64(&self, offset: usize) -> Result<u64, String> {
+        let b = self.bytes::<8>(offset)?;
+        Ok(if self.little_endian { u64::from_le_bytes(b) } else { u64::from_be_bytes(b) })
+    }
+
+    /// Read the first image file directory
+    fn entries(&self) -> Result<Vec<(u16, TiffEntry)>, String> {
+        let ifd = self.u32(4)? as usize;
+        let count = self.u16(ifd)? as usize;
+
+        (0..count)
+            .map(|i| {
+                let at = ifd + 2 + i * 12;
+                let tag = self.u16(at)?;
+                let kind = self.u16(at + 2)?;
+                let count = self.u32(at + 4)? as usize;
+                let size = count * type_size(kind);
+                // Values that fit in four bytes are stored in the entry itself
+                let offset = if size <= 4 { at + 8 } else { self.u32(at + 8)? as usize };
+                Ok((tag, TiffEntry { kind, count, offset }))
+            })
+            .collect()
+    }
+
+    fn numbers(&self, entry: &TiffEntry) -> Result<Vec<f64>, String> {
+        let size = type_size(entry.kind);
+        (0..entry.count)
+            .map(|i| {
+                let at = entry.offset + i * size;
+                Ok(match entry.kind {
+                    1 => self.bytes::<1>(at)?[0] as f64,
+                    3 => self.u16(at)? as f64,
+                    4 => self.u32(at)? as f64,
+                    6 => self.bytes::<1>(at)?[0] as i8 as f64,
+                    8 => self.u16(at)? as i16 as f64,
+                    9 => self.u32(at)? as i32 as f64,
+                    11 => f32::from_bits(self.u32(at)?) as f64,
+                    12 => f64::from_bits(self.u64(at)?),
+                    other => return Err(format!("Unsupported TIFF field type {}", other)),
+                })
+            })
+            .collect()
+    }
+
+    fn text(&self, entry: &TiffEntry) -> Result<String, String> {
+        let bytes = self
+            .data
+            .get(entry.offset..entry.offset + entry.count)
+            .ok_or_else(|| "GeoTIFF is truncated".to_string())?;
+        Ok(String::from_utf8_lossy(bytes).trim_end_matches('\0').to_string())
+    }
+}
+
+fn type_size(kind: u16) -> usize {
+    match kind {
+        3 | 8 => 2,
+        4 | 9 | 11 => 4,
+        12 => 8,
+        _ => 1,
+    }
+}
+
+/// Decode TIFF's LZW variant: MSB-first codes starting at 9 bits, with the
+/// code width growing one code early
+pub fn lzw_decode(input: &[u8]) -> Result<Vec<u8>, String> {
+    const CLEAR: usize = 256;
+    const END: usize = 257;
+    const FIRST: usize = 258;
+
+    let mut out: Vec<u8> = Vec::with_capacity(input.len() * 3);
+    // Each table entry is a run of bytes already in the output
+    let mut table: Vec<(usize, usize)> = Vec::with_capacity(4096);
+    let mut previous: Option<(usize, usize)> = None;
+    let mut width = 9;
+    let mut bit = 0;
+
+    while bit + width <= input.len() * 8 {
+        let mut code = 0;
+        for _ in 0..width {
+            let set = input[bit / 8] & (0x80 >> (bit % 8)) != 0;
+            code = (code << 1) | set as usize;
+            bit += 1;
+        }
+
+        if code == END {
+            break;
+        }
+        if code == CLEAR {
+            table.clear();
+            previous = None;
+            width = 9;
+            continue;
+        }
+
+        let start = out.len();
+        let current = if code < CLEAR {
+            out.push(code as u8);
+            (start, 1)
+        } else if let Some(&(offset, len)) = table.get(code - FIRST) {
+            out.extend_from_within(offset..offset + len);
+            (start, len)
+        } else if let (true, Some((offset, len))) = (code - FIRST == table.len(), previous) {
+            // The code being defined right now: previous string plus its own first byte
+            out.extend_from_within(offset..offset + len);
+            out.push(out[offset]);
+            (start, len + 1)
+        } else {
+            return Err("Corrupt LZW data in GeoTIFF".to_string());
+        };
+
+        // The previous string directly precedes the current one in the
+        // output, so the new entry is the run covering both plus one byte
+        if let Some((offset, len)) = previous {
+            if table.len() + FIRST < 4096 {
+                table.push((offset, len + 1));
+            }
+        }
+        if table.len() + FIRST + 1 >= 1 << width && width < 12 {
+            width += 1;
+        }
+        previous = Some(current);
+    }
+
+    Ok(out)
+}
+
+/// Undo horizontal differencing (predictor 2) on one row of integer samples
+fn undo_horizontal_predictor(row: &mut [u8], bytes_per_sample: usize, little_endian: bool) {
+    let read = |b: &[u8]| -> u64 {
+        let mut value = 0u64;
+        for i in 0..bytes_per_sample {
+            let byte = if little_endian { b[bytes_per_sample - 1 - i] } else { b[i] };
+            value = (value << 8) | byte as u64;
+        }
+        value
+    };
+    let mask = if bytes_per_sample == 8 { u64::MAX } else { (1u64 << (bytes_per_sample * 8)) - 1 };
+
+    for i in 1..row.len() / bytes_per_sample {
+        let prev = read(&row[(i - 1) * bytes_per_sample..i * bytes_per_sample]);
+        let at = i * bytes_per_sample;
+        let value = read(&row[at..at + bytes_per_sample]).wrapping_add(prev) & mask;
+        for j in 0..bytes_per_sample {
+            let shift = if little_endian { j } else { bytes_per_sample - 1 - j } * 8;
+            row[at + j] = (value >> shift) as u8;
+        }
+    }
+}
+
+/// Undo the floating point predictor (predictor 3): bytes are differenced
+/// across the row and split into planes, most significant byte first
+fn undo_float_predictor(row: &mut [u8], bytes_per_sample: usize, little_endian: bool) {
+    for i in 1..row.len() {
+        row[i] = row[i].wrapping_add(row[i - 1]);
+    }
+
+    let width = row.len() / bytes_per_sample;
+    let planes = row.to_vec();
+    for i in 0..width {
+        for b in 0..bytes_per_sample {
+            let target = if little_endian { bytes_per_sample - 1 - b } else { b };
+            row[i * bytes_per_sample + target] = planes[b * width + i];
+        }
+    }
+}
+
+/// Parse a single-band GeoTIFF in geographic (latitude/longitude)
+/// coordinates. Strips or tiles, uncompressed, LZW or Deflate.
+pub fn parse_geotiff(data: &[u8]) -> Result<DemTile, String> {
+    let little_endian = match data.get(0..2) {
+        Some(b"II") => true,
+        Some(b"MM") => false,
+        _ => return Err("Not a TIFF file".to_string()),
+    };
+    let reader = TiffReader { data, little_endian };
+    match reader.u16(2)? {
+        42 => {}
+        43 => return Err("BigTIFF files are not supported".to_string()),
+        _ => return Err("Not a TIFF file".to_string()),
+    }
+
+    let entries = reader.entries()?;
+    let field = |tag: u16| -> Result<Option<Vec<f64>>, String> {
+        entries
+            .iter()
+            .find(|(t, _)| *t == tag)
+            .map(|(_, entry)| reader.numbers(entry))
+            .transpose()
+    };
+    let first = |tag: u16, default: f64| -> Result<f64, String> {
+        Ok(field(tag)?.and_then(|v| v.first().copied()).unwrap_or(default))
+    };
+    let required = |tag: u16, name: &str| -> Result<Vec<f64>, String> {
+        field(tag)?.ok_or_else(|| format!("GeoTIFF has no {}", name))
+    };
+    // A field can be present with no values at all
+    let single = |tag: u16, name: &str| -> Result<usize, String> {
+        let value = required(tag, name)?.first().copied();
+        Ok(value.ok_or_else(|| format!("GeoTIFF has no {}", name))? as usize)
+    };
+
+    let width = single(TAG_IMAGE_WIDTH, "image width")?;
+    let height = single(TAG_IMAGE_LENGTH, "image height")?;
+    let bits = first(TAG_BITS_PER_SAMPLE, 1.0)? as usize;
+    let sample_format = first(TAG_SAMPLE_FORMAT, 1.0)? as u16;
+    let compression = first(TAG_COMPRESSION, 1.0)? as u16;
+    let predictor = first(TAG_PREDICTOR, 1.0)? as u16;
+
+    if first(TAG_SAMPLES_PER_PIXEL, 1.0)? != 1.0 {
+        return Err("Only single-band elevation GeoTIFFs are supported".to_string());
+    }
+    if width < 2 || height < 2 {
+        return Err("GeoTIFF is too small to interpolate".to_string());
+    }
+
+    let bytes_per_sample = bits / 8;
+    let convert: fn([u8; 8]) -> f32 = match (sample_format, bits) {
+        (1, 8) => |b| b[0] as f32,
+        (2, 8) => |b| b[0] as i8 as f32,
+        (1, 16) => |b| u16::from_be_bytes([b[0], b[1]]) as f32,
+        (2, 16) => |b| i16::from_be_bytes([b[0], b[1]]) as f32,
+        (1, 32) => |b| u32::from_be_bytes([b[0], b[1], b[2], b[3]]) as f32,
+        (2, 32) => |b| i32::from_be_bytes([b[0], b[1], b[2], b[3]]) as f32,
+        (3, 32) => |b| f32::from_be_bytes([b[0], b[1], b[2], b[3]]),
+        (3, 64) => |b| f64::from_be_bytes(b) as f32,
+        _ => {
+            return Err(format!(
+                "Unsupported GeoTIFF sample type ({} bits, format {})",
+                bits, sample_format
+            ))
+        }
+    };
+
+    // Strips are handled as tiles spanning the full width
+    let tiled = field(TAG_TILE_WIDTH)?.is_some();
+    let (chunk_width, chunk_height, offsets, byte_counts) = if tiled {
+        (
+            single(TAG_TILE_WIDTH, "tile width")?,
+            single(TAG_TILE_LENGTH, "tile length")?,
+            required(TAG_TILE_OFFSETS, "tile offsets")?,
+            required(TAG_TILE_BYTE_COUNTS, "tile byte counts")?,
+        )
+    } else {
+        (
+            width,
+            (first(TAG_ROWS_PER_STRIP, height as f64)? as usize).min(height),
+            required(TAG_STRIP_OFFSETS, "strip offsets")?,
+            required(TAG_STRIP_BYTE_COUNTS, "strip byte counts")?,
+        )
+    };
+    if chunk_width == 0 || chunk_height == 0 {
+        return Err("GeoTIFF has empty tiles".to_string());
+    }
+    let chunks_across = width.div_ceil(chunk_width);
+
+    let mut samples = vec![f32::NAN; width * height];
+    for (idx, (&offset, &count)) in offsets.iter().zip(&byte_counts).enumerate() {
+        let top = (idx / chunks_across) * chunk_height;
+        let left = (idx % chunks_across) * chunk_width;
+        // Some writers list more tiles than the image needs
+        if top >= height || left >= width {
+            continue;
+        }
+        let raw = data
+            .get(offset as usize..(offset + count) as usize)
+            .ok_or_else(|| "GeoTIFF is truncated".to_string())?;
+        let mut chunk = match compression {
+            1 => raw.to_vec(),
+            5 => lzw_decode(raw)?,
+            8 | 32946 => miniz_oxide::inflate::decompress_to_vec_zlib(raw)
+                .map_err(|e| format!("Corrupt Deflate data in GeoTIFF: {:?}", e))?,
+            other => return Err(format!("Unsupported GeoTIFF compression {}", other)),
+        };
+
+        // The last strip only holds the remaining rows
+        let rows = if tiled { chunk_height } else { chunk_height.min(height - top) };
+        let row_bytes = chunk_width * bytes_per_sample;
+        if chunk.len() < rows * row_bytes {
+            return Err("GeoTIFF is truncated".to_string());
+        }
+
+        for r in 0..rows {
+            let row = &mut chunk[r * row_bytes..(r + 1) * row_bytes];
+            match predictor {
+                1 => {}
+                2 => undo_horizontal_predictor(row, bytes_per_sample, little_endian),
+                3 => undo_float_predictor(row, bytes_per_sample, little_endian),
+                other => return Err(format!("Unsupported GeoTIFF predictor {}", other)),
+            }
+
+            let y = top + r;
+            if y >= height {
+                break;
+            }
+            for c in 0..chunk_width.min(width - left) {
+                let mut bytes = [0u8; 8];
+                let sample = &row[c * bytes_per_sample..(c + 1) * bytes_per_sample];
+                for (i, &byte) in sample.iter().enumerate() {
+                    let i = if little_endian { bytes_per_sample - 1 - i } else { i };
+                    bytes[i] = byte;
+                }
+                samples[y * width + left + c] = convert(bytes);
+            }
+        }
+    }
+
+    let scale = required(TAG_MODEL_PIXEL_SCALE, "ModelPixelScale georeferencing")?;
+    let tiepoint = required(TAG_MODEL_TIEPOINT, "ModelTiepoint georeferencing")?;
+    if scale.len() < 2 || tiepoint.len() < 6 {
+        return Err("GeoTIFF georeferencing is incomplete".to_string());
+    }
+
+    let mut pixel_is_point = false;
+    if let Some(keys) = field(TAG_GEO_KEY_DIRECTORY)? {
+        for key in keys.get(4..).unwrap_or_default().chunks_exact(4) {
+            match key[0] as u16 {
+                KEY_MODEL_TYPE if key[3] == MODEL_TYPE_PROJECTED => {
+                    return Err(
+                        "Only GeoTIFFs in latitude/longitude are supported, not projected ones"
+                            .to_string(),
+                    )
+                }
+                KEY_RASTER_TYPE => pixel_is_point = key[3] == RASTER_PIXEL_IS_POINT,
+                _ => {}
+            }
+        }
+    }
+
+    let nodata = entries
+        .iter()
+        .find(|(t, _)| *t == TAG_GDAL_NODATA)
+        .map(|(_, entry)| reader.text(entry))
+        .transpose()?
+        .and_then(|text| text.trim().parse::<f32>().ok());
+
+    // The tie point links a raster position to a coordinate; with
+    // PixelIsArea it refers to the corner of the pixel, not its centre
+    let centre = if pixel_is_point { 0.0 } else { 0.5 };
+    let (lon_step, lat_step) = (scale[0], scale[1]);
+
+    Ok(DemTile {
+        north: tiepoint[4] - (centre - tiepoint[1]) * lat_step,
+        west: tiepoint[3] + (centre - tiepoint[0]) * lon_step,
+        lat_step,
+        lon_step,
+        rows: height,
+        cols: width,
+        samples: Samples::Float32(samples),
+        nodata,
+    })
+}
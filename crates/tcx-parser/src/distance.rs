@@ -0,0 +1,108 @@
+use crate::geo::haversine_distance;
+use crate::TrainingCenterDatabase;
+
+/// Sum of the lap distances, the way the activity stats count them
+pub fn total_lap_distance(database: &TrainingCenterDatabase) -> f64 {
+    database
+        .activities
+        .activity
+        .iter()
+        .flat_map(|a| &a.laps)
+        .filter_map(|l| l.track.as_ref())
+        .map(|t| {
+            let first = t.trackpoints.first().and_then(|tp| tp.distance_meters);
+            let last = t.trackpoints.last().and_then(|tp| tp.distance_meters);
+            last.unwrap_or(0.0) - first.unwrap_or(0.0)
+        })
+        .sum()
+}
+
+/// Position of a trackpoint with its altitude, if any
+#[derive(Clone, Copy)]
+struct Fix {
+    lat: f64,
+    lon: f64,
+    alt: Option<f64>,
+}
+
+/// Centred moving average over `window` fixes. The window shrinks at the
+/// ends of the track so the first and last fix stay in place.
+fn smooth(fixes: &[Fix], window: usize) -> Vec<Fix> {
+    let half = window / 2;
+    (0..fixes.len())
+        .map(|i| {
+            let reach = half.min(i).min(fixes.len() - 1 - i);
+            let slice = &fixes[i - reach..=i + reach];
+            let n = slice.len() as f64;
+
+            let altitudes: Vec<f64> = slice.iter().filter_map(|f| f.alt).collect();
+            Fix {
+                lat: slice.iter().map(|f| f.lat).sum::<f64>() / n,
+                lon: slice.iter().map(|f| f.lon).sum::<f64>() / n,
+                alt: fixes[i]
+                    .alt
+                    .map(|_| altitudes.iter().sum::<f64>() / altitudes.len() as f64),
+            }
+        })
+        .collect()
+}
+
+/// Rebuild the cumulative `DistanceMeters` of every activity from its
+/// positions. `smoothing` is the moving average window in trackpoints (0 or
+/// 1 to use the raw positions); with `use_elevation` the climb between two
+/// points is included. Points without a position keep the distance reached
+/// so far. Returns false if there are no positions to work from.
+pub fn recompute_distance(
+    database: &mut TrainingCenterDatabase,
+    smoothing: usize,
+    use_elevation: bool,
+) -> bool {
+    let mut found_position = false;
+
+    for activity in &mut database.activities.activity {
+        let fixes: Vec<Fix> = activity
+            .laps
+            .iter()
+            .filter_map(|l| l.track.as_ref())
+            .flat_map(|t| &t.trackpoints)
+            .filter_map(|tp| {
+                tp.position.as_ref().map(|p| Fix {
+                    lat: p.latitude_degrees,
+                    lon: p.longitude_degrees,
+                    alt: tp.altitude_meters,
+                })
+            })
+            .collect();
+
+        if fixes.is_empty() {
+            continue;
+        }
+        found_position = true;
+
+        let fixes = if smoothing > 1 { smooth(&fixes, smoothing) } else { fixes };
+        let mut fixes = fixes.into_iter();
+        let mut previous: Option<Fix> = None;
+        let mut total = 0.0;
+
+        for lap in &mut activity.laps {
+            let Some(ref mut track) = lap.track else { continue };
+
+            for tp in &mut track.trackpoints {
+                if tp.position.is_some() {
+                    let fix = fixes.next().expect("one fix per positioned trackpoint");
+                    if let Some(prev) = previous {
+                        let flat = haversine_distance(prev.lat, prev.lon, fix.lat, fix.lon);
+                        total += match (use_elevation, prev.alt, fix.alt) {
+                            (true, Some(a), Some(b)) => flat.hypot(b - a),
+                            _ => flat,
+                        };
+                    }
+                    previous = Some(fix);
+                }
+                tp.distance_meters = Some(total);
+            }
+        }
+    }
+
+    found_position
+}
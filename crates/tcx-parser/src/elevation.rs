@@ -0,0 +1,88 @@
+/// How elevation gain and loss are added up from the altitude samples
+#[derive(Debug, Clone, Copy, PartialEq, Default)]
+pub enum GainMethod {
+    /// Every difference between consecutive samples counts, noise included
+    #[default]
+    Raw,
+    /// Only changes of at least `threshold` metres from the last turning
+    /// point count, like most GPS watches do
+    Hysteresis { threshold: f64 },
+    /// Raw sum over a centred moving average of `window` samples. The window
+    /// shrinks at the ends so the first and last altitude stay in place.
+    Smoothed { window: usize },
+}
+
+impl GainMethod {
+    pub fn parse(name: &str, threshold: f64, window: usize) -> Result<GainMethod, String> {
+        match name {
+            "raw" => Ok(GainMethod::Raw),
+            "hysteresis" if threshold > 0.0 => Ok(GainMethod::Hysteresis { threshold }),
+            "hysteresis" => Err("Hysteresis threshold must be positive".to_string()),
+            "smoothed" if window >= 1 => Ok(GainMethod::Smoothed { window }),
+            "smoothed" => Err("Smoothing window must be at least one sample".to_string()),
+            other => Err(format!("Unknown elevation method {}", other)),
+        }
+    }
+
+    pub fn name(&self) -> &'static str {
+        match self {
+            GainMethod::Raw => "raw",
+            GainMethod::Hysteresis { .. } => "hysteresis",
+            GainMethod::Smoothed { .. } => "smoothed",
+        }
+    }
+}
+
+fn raw_sum(altitudes: impl IntoIterator<Item = f64>) -> (f64, f64) {
+    let mut gain = 0.0;
+    let mut loss = 0.0;
+    let mut previous: Option<f64> = None;
+
+    for altitude in altitudes {
+        if let Some(prev) = previous {
+            let diff = altitude - prev;
+            if diff > 0.0 {
+                gain += diff;
+            } else {
+                loss -= diff;
+            }
+        }
+        previous = Some(altitude);
+    }
+
+    (gain, loss)
+}
+
+/// Total elevation gain and loss in metres
+pub fn gain_and_loss(altitudes: &[f64], method: GainMethod) -> (f64, f64) {
+    match method {
+        GainMethod::Raw => raw_sum(altitudes.iter().copied()),
+        GainMethod::Hysteresis { threshold } => {
+            let mut gain = 0.0;
+            let mut loss = 0.0;
+            let Some(&first) = altitudes.first() else {
+                return (gain, loss);
+            };
+
+            let mut reference = first;
+            for &altitude in altitudes {
+                if altitude - reference >= threshold {
+                    gain += altitude - reference;
+                    reference = altitude;
+                } else if reference - altitude >= threshold {
+                    loss += reference - altitude;
+                    reference = altitude;
+                }
+            }
+            (gain, loss)
+        }
+        GainMethod::Smoothed { window } => {
+            let half = window / 2;
+            raw_sum((0..altitudes.len()).map(|i| {
+                let reach = half.min(i).min(altitudes.len() - 1 - i);
+                let slice = &altitudes[i - reach..=i + reach];
+                slice.iter().sum::<f64>() / slice.len() as f64
+            }))
+        }
+    }
+}
@@ -0,0 +1,672 @@
+use chrono::{DateTime, SecondsFormat, Utc};
+
+use crate::xml::XmlNode;
+use crate::{
+    parse_timestamp, Activities, Activity, HeartRateBpm, Lap, Position, Track, Trackpoint,
+    TrainingCenterDatabase, ACTIVITY_EXTENSION_NAMESPACE, TCX_NAMESPACE,
+};
+
+/// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET: i64 = 631_065_600;
+
+/// Degrees per semicircle, the unit FIT uses for positions
+const SEMICIRCLE_DEGREES: f64 = 180.0 / 2_147_483_648.0;
+
+// Global message numbers
+const MESG_FILE_ID: u16 = 0;
+const MESG_SESSION: u16 = 18;
+const MESG_LAP: u16 = 19;
+const MESG_RECORD: u16 = 20;
+const MESG_ACTIVITY: u16 = 34;
+
+// Field numbers shared by several messages
+const FIELD_TIMESTAMP: u8 = 253;
+const FIELD_MESSAGE_INDEX: u8 = 254;
+
+// Base types
+const BASE_ENUM: u8 = 0x00;
+const BASE_SINT8: u8 = 0x01;
+const BASE_UINT8: u8 = 0x02;
+const BASE_SINT16: u8 = 0x83;
+const BASE_UINT16: u8 = 0x84;
+const BASE_SINT32: u8 = 0x85;
+const BASE_UINT32: u8 = 0x86;
+const BASE_UINT8Z: u8 = 0x0A;
+const BASE_UINT16Z: u8 = 0x8B;
+const BASE_UINT32Z: u8 = 0x8C;
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+struct FieldDefinition {
+    number: u8,
+    size: usize,
+    base_type: u8,
+}
+
+struct MessageDefinition {
+    global: u16,
+    big_endian: bool,
+    fields: Vec<FieldDefinition>,
+    developer_data_size: usize,
+}
+
+/// A decoded data message with its valid integer fields
+struct FitMessage {
+    global: u16,
+    fields: Vec<(u8, i64)>,
+}
+
+impl FitMessage {
+    fn get(&self, number: u8) -> Option<i64> {
+        self.fields.iter().find(|(n, _)| *n == number).map(|(_, v)| *v)
+    }
+
+    fn scaled(&self, number: u8, scale: f64, offset: f64) -> Option<f64> {
+        self.get(number).map(|v| v as f64 / scale - offset)
+    }
+}
+
+struct ByteReader<'a> {
+    data: &'a [u8],
+    pos: usize,
+}
+
+impl<'a> ByteReader<'a> {
+    fn take(&mut self, len: usize) -> Result<&'a [u8], String> {
+        let end = self.pos + len;
+        if end > self.data.len() {
+            return Err(format!("Unexpected end of data at byte {}", self.pos));
+        }
+        let bytes = &self.data[self.pos..end];
+        self.pos = end;
+        Ok(bytes)
+    }
+
+    fn u8(&mut self) -> Result<u8, String> {
+        Ok(self.take(1)?[0])
+    }
+}
+
+fn read_unsigned(bytes: &[u8], big_endian: bool) -> u64 {
+    let fold = |acc: u64, b: &u8| (acc << 8) | *b as u64;
+    if big_endian {
+        bytes.iter().fold(0, fold)
+    } else {
+        bytes.iter().rev().fold(0, fold)
+    }
+}
+
+/// Interpret a field value, returning `None` for the base type's invalid value
+/// and for types the editor doesn't read (strings, floats, arrays)
+fn decode_value(bytes: &[u8], base_type: u8, big_endian: bool) -> Option<i64> {
+    let raw = read_unsigned(bytes, big_endian);
+    let (size, invalid, signed) = match base_type {
+        BASE_ENUM | BASE_UINT8 => (1, 0xFF, false),
+        BASE_SINT8 => (1, 0x7F, true),
+        BASE_UINT8Z => (1, 0, false),
+        BASE_SINT16 => (2, 0x7FFF, true),
+        BASE_UINT16 => (2, 0xFFFF, false),
+        BASE_UINT16Z => (2, 0, false),
+        BASE_SINT32 => (4, 0x7FFF_FFFF, true),
+        BASE_UINT32 => (4, 0xFFFF_FFFF, false),
+        BASE_UINT32Z => (4, 0, false),
+        _ => return None,
+    };
+
+    if bytes.len() != size || raw == invalid {
+        return None;
+    }
+
+    if signed {
+        let shift = 64 - size * 8;
+        Some(((raw << shift) as i64) >> shift)
+    } else {
+        Some(raw as i64)
+    }
+}
+
+fn decode_messages(data: &[u8]) -> Result<Vec<FitMessage>, String> {
+    if data.len() < 12 {
+        return Err("File is too short to be a FIT file".to_string());
+    }
+
+    let header_size = data[0] as usize;
+    if header_size < 12 || &data[8..12] != b".FIT" {
+        return Err("Missing .FIT file signature".to_string());
+    }
+
+    let data_size = read_unsigned(&data[4..8], false) as usize;
+    let end = (header_size + data_size).min(data.len());
+    let mut reader = ByteReader {
+        data: &data[..end],
+        pos: header_size,
+    };
+
+    let mut definitions: Vec<Option<MessageDefinition>> = (0..16).map(|_| None).collect();
+    let mut messages = Vec::new();
+    let mut last_timestamp: i64 = 0;
+
+    while reader.pos < end {
+        let header = reader.u8()?;
+
+        // Compressed timestamp header: a data message whose timestamp is an
+        // offset from the last full timestamp
+        if header & 0x80 != 0 {
+            let local = ((header >> 5) & 0x03) as usize;
+            let offset = (header & 0x1F) as i64;
+            let mut timestamp = (last_timestamp & !0x1F) + offset;
+            if offset < (last_timestamp & 0x1F) {
+                timestamp += 0x20;
+            }
+            last_timestamp = timestamp;
+
+            let mut message = read_data_message(&mut reader, &definitions, local)?;
+            message.fields.push((FIELD_TIMESTAMP, timestamp));
+            messages.push(message);
+            continue;
+        }
+
+        let local = (header & 0x0F) as usize;
+
+        if header & 0x40 != 0 {
+            reader.u8()?; // reserved
+            let big_endian = reader.u8()? == 1;
+            let global = read_unsigned(reader.take(2)?, big_endian) as u16;
+            let field_count = reader.u8()? as usize;
+
+            let mut fields = Vec::with_capacity(field_count);
+            for _ in 0..field_count {
+                let bytes = reader.take(3)?;
+                fields.push(FieldDefinition {
+                    number: bytes[0],
+                    size: bytes[1] as usize,
+                    base_type: bytes[2],
+                });
+            }
+
+            let mut developer_data_size = 0;
+            if header & 0x20 != 0 {
+                let developer_count = reader.u8()? as usize;
+                for _ in 0..developer_count {
+                    developer_data_size += reader.take(3)?[1] as usize;
+                }
+            }
+
+            definitions[local] = Some(MessageDefinition {
+                global,
+                big_endian,
+                fields,
+                developer_data_size,
+            });
+        } else {
+            let message = read_data_message(&mut reader, &definitions, local)?;
+            if let Some(timestamp) = message.get(FIELD_TIMESTAMP) {
+                last_timestamp = timestamp;
+            }
+            messages.push(message);
+        }
+    }
+
+    Ok(messages)
+}
+
+fn read_data_message(
+    reader: &mut ByteReader,
+    definitions: &[Option<MessageDefinition>],
+    local: usize,
+) -> Result<FitMessage, String> {
+    let definition = definitions[local]
+        .as_ref()
+        .ok_or_else(|| format!("Data message for undefined local type {}", local))?;
+
+    let mut fields = Vec::new();
+    for field in &definition.fields {
+        let bytes = reader.take(field.size)?;
+        if let Some(value) = decode_value(bytes, field.base_type, definition.big_endian) {
+            fields.push((field.number, value));
+        }
+    }
+    reader.take(definition.developer_data_size)?;
+
+    Ok(FitMessage {
+        global: definition.global,
+        fields,
+    })
+}
+
+fn format_fit_time(timestamp: i64) -> String {
+    DateTime::<Utc>::from_timestamp(timestamp + FIT_EPOCH_OFFSET, 0)
+        .unwrap_or_default()
+        .to_rfc3339_opts(SecondsFormat::Secs, true)
+}
+
+fn sport_from_fit(sport: Option<i64>) -> &'static str {
+    match sport {
+        Some(1) => "Running",
+        Some(2) => "Biking",
+        _ => "Other",
+    }
+}
+
+fn intensity_from_fit(intensity: Option<i64>) -> &'static str {
+    match intensity {
+        Some(1) => "Resting",
+        _ => "Active",
+    }
+}
+
+fn trigger_method_from_fit(trigger: Option<i64>) -> &'static str {
+    match trigger {
+        Some(1) => "Time",
+        Some(2) => "Distance",
+        Some(3..=6) => "Location",
+        _ => "Manual",
+    }
+}
+
+/// `Extensions` block carrying speed and power the way Garmin writes them
+fn tpx_extensions(speed: Option<f64>, power: Option<i64>) -> Option<XmlNode> {
+    let text = |value: String| XmlNode::Element(vec![("$text".to_string(), XmlNode::Text(value))]);
+
+    let mut tpx = Vec::new();
+    if let Some(speed) = speed {
+        tpx.push(("ns3:Speed".to_string(), text(speed.to_string())));
+    }
+    if let Some(power) = power {
+        tpx.push(("ns3:Watts".to_string(), text(power.to_string())));
+    }
+
+    (!tpx.is_empty())
+        .then(|| XmlNode::Element(vec![("ns3:TPX".to_string(), XmlNode::Element(tpx))]))
+}
+
+/// Decode a FIT activity file into the TCX model. Records are grouped into
+/// laps by the lap start times; the sport comes from the first session.
+pub fn parse_fit(data: &[u8]) -> Result<TrainingCenterDatabase, String> {
+    let messages = decode_messages(data)?;
+
+    let sport = messages
+        .iter()
+        .find(|m| m.global == MESG_SESSION)
+        .and_then(|m| m.get(5));
+
+    let mut trackpoints: Vec<(i64, Trackpoint)> = messages
+        .iter()
+        .filter(|m| m.global == MESG_RECORD)
+        .filter_map(|m| {
+            let timestamp = m.get(FIELD_TIMESTAMP)?;
+            let position = match (m.get(0), m.get(1)) {
+                (Some(lat), Some(lon)) => Some(Position {
+                    latitude_degrees: lat as f64 * SEMICIRCLE_DEGREES,
+                    longitude_degrees: lon as f64 * SEMICIRCLE_DEGREES,
+                }),
+                _ => None,
+            };
+            let speed = m.scaled(73, 1000.0, 0.0).or_else(|| m.scaled(6, 1000.0, 0.0));
+
+            Some((
+                timestamp,
+                Trackpoint {
+                    time: format_fit_time(timestamp),
+                    position,
+                    altitude_meters: m.scaled(78, 5.0, 500.0).or_else(|| m.scaled(2, 5.0, 500.0)),
+                    distance_meters: m.scaled(5, 100.0, 0.0),
+                    heart_rate_bpm: m
+                        .get(3)
+                        .map(|value| HeartRateBpm { xsi_type: None, value: value as u32 }),
+                    cadence: m.get(4).map(|c| c as u32),
+                    sensor_state: None,
+                    extensions: tpx_extensions(speed, m.get(7)),
+                },
+            ))
+        })
+        .collect();
+    trackpoints.sort_by_key(|(timestamp, _)| *timestamp);
+
+    if trackpoints.is_empty() {
+        return Err("FIT file has no record messages".to_string());
+    }
+
+    let lap_messages: Vec<&FitMessage> = messages.iter().filter(|m| m.global == MESG_LAP).collect();
+
+    let mut laps: Vec<Lap> = Vec::new();
+    let mut remaining = trackpoints.into_iter().peekable();
+    for (i, message) in lap_messages.iter().enumerate() {
+        let next_start = lap_messages.get(i + 1).and_then(|m| m.get(2));
+
+        // The last lap takes every remaining record
+        let mut points = Vec::new();
+        while let Some((timestamp, _)) = remaining.peek() {
+            if next_start.map_or(false, |start| *timestamp >= start) {
+                break;
+            }
+            points.push(remaining.next().unwrap().1);
+        }
+
+        let Some(first) = points.first() else { continue };
+        laps.push(Lap {
+            start_time: message.get(2).map(format_fit_time).unwrap_or_else(|| first.time.clone()),
+            total_time_seconds: message
+                .scaled(8, 1000.0, 0.0)
+                .or_else(|| message.scaled(7, 1000.0, 0.0))
+                .unwrap_or(0.0),
+            distance_meters: message.scaled(9, 100.0, 0.0).unwrap_or(0.0),
+            maximum_speed: message.scaled(14, 1000.0, 0.0),
+            calories: message.get(11).unwrap_or(0) as u32,
+            average_heart_rate_bpm: message
+                .get(15)
+                .map(|value| HeartRateBpm { xsi_type: None, value: value as u32 }),
+            maximum_heart_rate_bpm: message
+                .get(16)
+                .map(|value| HeartRateBpm { xsi_type: None, value: value as u32 }),
+            intensity: intensity_from_fit(message.get(23)).to_string(),
+            cadence: None,
+            trigger_method: trigger_method_from_fit(message.get(24)).to_string(),
+            track: Some(Track { trackpoints: points }),
+            notes: None,
+            extensions: None,
+            baseline: None,
+        });
+    }
+
+    // Files without lap messages become a single lap
+    let leftover: Vec<Trackpoint> = remaining.map(|(_, tp)| tp).collect();
+    if let Some(first) = leftover.first() {
+        laps.push(Lap {
+            start_time: first.time.clone(),
+            total_time_seconds: 0.0,
+            distance_meters: 0.0,
+            maximum_speed: None,
+            calories: 0,
+            average_heart_rate_bpm: None,
+            maximum_heart_rate_bpm: None,
+            intensity: "Active".to_string(),
+            cadence: None,
+            trigger_method: "Manual".to_string(),
+            track: Some(Track { trackpoints: leftover }),
+            notes: None,
+            extensions: None,
+            baseline: None,
+        });
+    }
+
+    Ok(TrainingCenterDatabase {
+        attributes: vec![
+            ("xmlns".to_string(), TCX_NAMESPACE.to_string()),
+            ("xmlns:ns3".to_string(), ACTIVITY_EXTENSION_NAMESPACE.to_string()),
+        ],
+        calorie_method: Default::default(),
+        folders: None,
+        activities: Activities {
+            activity: vec![Activity {
+                sport: sport_from_fit(sport).to_string(),
+                id: laps[0].start_time.clone(),
+                laps,
+                notes: None,
+                training: None,
+                creator: None,
+                extensions: None,
+            }],
+        },
+        workouts: None,
+        courses: None,
+        author: None,
+        extensions: None,
+    })
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/// A field value in a message being written; `None` writes the invalid value
+struct FieldValue {
+    number: u8,
+    base_type: u8,
+    value: Option<i64>,
+}
+
+fn field(number: u8, base_type: u8, value: Option<i64>) -> FieldValue {
+    FieldValue { number, base_type, value }
+}
+
+fn base_type_size(base_type: u8) -> usize {
+    match base_type {
+        BASE_SINT16 | BASE_UINT16 | BASE_UINT16Z => 2,
+        BASE_SINT32 | BASE_UINT32 | BASE_UINT32Z => 4,
+        _ => 1,
+    }
+}
+
+fn invalid_value(base_type: u8) -> u64 {
+    match base_type {
+        BASE_SINT8 => 0x7F,
+        BASE_SINT16 => 0x7FFF,
+        BASE_UINT16 => 0xFFFF,
+        BASE_SINT32 => 0x7FFF_FFFF,
+        BASE_UINT32 => 0xFFFF_FFFF,
+        BASE_UINT8Z | BASE_UINT16Z | BASE_UINT32Z => 0,
+        _ => 0xFF,
+    }
+}
+
+/// Writes little-endian messages, emitting a definition whenever the layout
+/// of a local message type changes
+struct FitWriter {
+    data: Vec<u8>,
+    layouts: Vec<Option<(u16, Vec<u8>)>>,
+}
+
+impl FitWriter {
+    fn new() -> Self {
+        FitWriter {
+            data: Vec::new(),
+            layouts: (0..16).map(|_| None).collect(),
+        }
+    }
+
+    fn write(&mut self, local: u8, global: u16, fields: &[FieldValue]) {
+        let layout: Vec<u8> = fields.iter().map(|f| f.number).collect();
+        if self.layouts[local as usize].as_ref() != Some(&(global, layout.clone())) {
+            self.data.push(0x40 | local);
+            self.data.push(0); // reserved
+            self.data.push(0); // little-endian
+            self.data.extend_from_slice(&global.to_le_bytes());
+            self.data.push(fields.len() as u8);
+            for f in fields {
+                self.data.extend_from_slice(&[f.number, base_type_size(f.base_type) as u8, f.base_type]);
+            }
+            self.layouts[local as usize] = Some((global, layout));
+        }
+
+        self.data.push(local);
+        for f in fields {
+            let raw = f.value.map_or(invalid_value(f.base_type), |v| v as u64);
+            let size = base_type_size(f.base_type);
+            self.data.extend_from_slice(&raw.to_le_bytes()[..size]);
+        }
+    }
+
+    fn finish(self) -> Vec<u8> {
+        let mut file = Vec::with_capacity(self.data.len() + 16);
+        file.push(14); // header size
+        file.push(0x20); // protocol version 2.0
+        file.extend_from_slice(&2132u16.to_le_bytes()); // profile version 21.32
+        file.extend_from_slice(&(self.data.len() as u32).to_le_bytes());
+        file.extend_from_slice(b".FIT");
+        let header_crc = crc16(&file);
+        file.extend_from_slice(&header_crc.to_le_bytes());
+        file.extend_from_slice(&self.data);
+        let crc = crc16(&file);
+        file.extend_from_slice(&crc.to_le_bytes());
+        file
+    }
+}
+
+fn crc16(data: &[u8]) -> u16 {
+    const TABLE: [u16; 16] = [
+        0x0000, 0xCC01, 0xD801, 0x1400, 0xF001, 0x3C00, 0x2800, 0xE401, 0xA001, 0x6C00, 0x7800,
+        0xB401, 0x5000, 0x9C01, 0x8801, 0x4400,
+    ];
+
+    data.iter().fold(0u16, |mut crc, &byte| {
+        let tmp = TABLE[(crc & 0xF) as usize];
+        crc = (crc >> 4) & 0x0FFF;
+        crc = crc ^ tmp ^ TABLE[(byte & 0xF) as usize];
+        let tmp = TABLE[(crc & 0xF) as usize];
+        crc = (crc >> 4) & 0x0FFF;
+        crc ^ tmp ^ TABLE[((byte >> 4) & 0xF) as usize]
+    })
+}
+
+fn to_fit_time(time: &str) -> Option<i64> {
+    parse_timestamp(time).map(|dt| dt.timestamp() - FIT_EPOCH_OFFSET)
+}
+
+fn fit_from_sport(sport: &str) -> i64 {
+    match sport {
+        "Running" => 1,
+        "Biking" => 2,
+        _ => 0,
+    }
+}
+
+fn fit_from_trigger_method(trigger: &str) -> i64 {
+    match trigger {
+        "Time" => 1,
+        "Distance" => 2,
+        "Location" => 4,
+        _ => 0,
+    }
+}
+
+/// Encode the TCX model as a FIT activity file, one session per activity
+pub fn to_fit(database: &TrainingCenterDatabase) -> Result<Vec<u8>, String> {
+    let first_time = database
+        .activities
+        .activity
+        .first()
+        .and_then(|a| to_fit_time(&a.id));
+
+    let mut writer = FitWriter::new();
+    writer.write(
+        0,
+        MESG_FILE_ID,
+        &[
+            field(0, BASE_ENUM, Some(4)),      // type: activity
+            field(1, BASE_UINT16, Some(255)),  // manufacturer: development
+            field(2, BASE_UINT16, Some(0)),    // product
+            field(4, BASE_UINT32, first_time), // time_created
+        ],
+    );
+
+    let mut lap_index = 0;
+    let mut total_timer_time = 0.0;
+    let mut last_timestamp = first_time;
+
+    for activity in &database.activities.activity {
+        let first_lap_index = lap_index;
+        let mut session_time = 0.0;
+        let mut session_distance = 0.0;
+        let mut session_calories = 0;
+
+        for lap in &activity.laps {
+            let trackpoints = lap.track.as_ref().map_or(&[][..], |t| &t.trackpoints[..]);
+
+            for tp in trackpoints {
+                let timestamp = to_fit_time(&tp.time);
+                if timestamp.is_some() {
+                    last_timestamp = timestamp;
+                }
+
+                let semicircles = |degrees: f64| (degrees / SEMICIRCLE_DEGREES).round() as i64;
+                writer.write(
+                    1,
+                    MESG_RECORD,
+                    &[
+                        field(FIELD_TIMESTAMP, BASE_UINT32, timestamp),
+                        field(0, BASE_SINT32, tp.position.as_ref().map(|p| semicircles(p.latitude_degrees))),
+                        field(1, BASE_SINT32, tp.position.as_ref().map(|p| semicircles(p.longitude_degrees))),
+                        field(5, BASE_UINT32, tp.distance_meters.map(|d| (d * 100.0).round() as i64)),
+                        field(78, BASE_UINT32, tp.altitude_meters.map(|a| ((a + 500.0) * 5.0).round() as i64)),
+                        field(3, BASE_UINT8, tp.heart_rate_bpm.as_ref().map(|h| h.value as i64)),
+                        field(4, BASE_UINT8, tp.cadence.map(|c| c as i64)),
+                        field(
+                            73,
+                            BASE_UINT32,
+                            tp.tpx_value("Speed")
+                                .and_then(|v| v.trim().parse::<f64>().ok())
+                                .map(|s| (s * 1000.0).round() as i64),
+                        ),
+                        field(7, BASE_UINT16, tp.tpx_value("Watts").and_then(|v| v.trim().parse().ok())),
+                    ],
+                );
+            }
+
+            let start_time = to_fit_time(&lap.start_time);
+            let end_time = trackpoints.last().and_then(|tp| to_fit_time(&tp.time)).or(start_time);
+            let elapsed = match (start_time, end_time) {
+                (Some(start), Some(end)) => Some((end - start) * 1000),
+                _ => None,
+            };
+
+            writer.write(
+                2,
+                MESG_LAP,
+                &[
+                    field(FIELD_TIMESTAMP, BASE_UINT32, end_time),
+                    field(2, BASE_UINT32, start_time),
+                    field(7, BASE_UINT32, elapsed),
+                    field(8, BASE_UINT32, Some((lap.total_time_seconds * 1000.0).round() as i64)),
+                    field(9, BASE_UINT32, Some((lap.distance_meters * 100.0).round() as i64)),
+                    field(11, BASE_UINT16, Some(lap.calories as i64)),
+                    field(15, BASE_UINT8, lap.average_heart_rate_bpm.as_ref().map(|h| h.value as i64)),
+                    field(16, BASE_UINT8, lap.maximum_heart_rate_bpm.as_ref().map(|h| h.value as i64)),
+                    field(23, BASE_ENUM, Some(if lap.intensity == "Resting" { 1 } else { 0 })),
+                    field(24, BASE_ENUM, Some(fit_from_trigger_method(&lap.trigger_method))),
+                    field(FIELD_MESSAGE_INDEX, BASE_UINT16, Some(lap_index)),
+                ],
+            );
+
+            lap_index += 1;
+            session_time += lap.total_time_seconds;
+            session_distance += lap.distance_meters;
+            session_calories += lap.calories as i64;
+        }
+
+        let start_time = to_fit_time(&activity.id);
+        writer.write(
+            3,
+            MESG_SESSION,
+            &[
+                field(FIELD_TIMESTAMP, BASE_UINT32, last_timestamp),
+                field(2, BASE_UINT32, start_time),
+                field(7, BASE_UINT32, last_timestamp.zip(start_time).map(|(end, start)| (end - start) * 1000)),
+                field(8, BASE_UINT32, Some((session_time * 1000.0).round() as i64)),
+                field(9, BASE_UINT32, Some((session_distance * 100.0).round() as i64)),
+                field(11, BASE_UINT16, Some(session_calories)),
+                field(5, BASE_ENUM, Some(fit_from_sport(&activity.sport))),
+                field(25, BASE_UINT16, Some(first_lap_index)),
+                field(26, BASE_UINT16, Some(lap_index - first_lap_index)),
+            ],
+        );
+        total_timer_time += session_time;
+    }
+
+    writer.write(
+        4,
+        MESG_ACTIVITY,
+        &[
+            field(FIELD_TIMESTAMP, BASE_UINT32, last_timestamp),
+            field(0, BASE_UINT32, Some((total_timer_time * 1000.0).round() as i64)),
+            field(1, BASE_UINT16, Some(database.activities.activity.len() as i64)),
+            field(2, BASE_ENUM, Some(0)), // type: manual
+            field(3, BASE_ENUM, Some(26)), // event: activity
+            field(4, BASE_ENUM, Some(1)),  // event_type: stop
+        ],
+    );
+
+    Ok(writer.finish())
+}
@@ -0,0 +1,244 @@
+use std::collections::HashSet;
+
+use crate::geo::haversine_distance;
+use crate::{parse_timestamp, JsGlitch, Position, Trackpoint, TrainingCenterDatabase};
+
+/// Longest run of consecutive bad fixes treated as one spike. If the track
+/// doesn't come back within this many points, the jump is taken as real.
+const MAX_SPIKE_POINTS: usize = 10;
+
+/// Highest plausible speed in m/s for a TCX `Sport`
+fn max_speed(sport: &str) -> f64 {
+    match sport {
+        "Running" => 12.5,
+        "Biking" => 35.0,
+        // Other covers anything from swimming to motorsport
+        _ => 80.0,
+    }
+}
+
+/// A positioned, timestamped trackpoint by its flattened index
+#[derive(Clone, Copy)]
+struct Fix {
+    index: usize,
+    time_ms: f64,
+    lat: f64,
+    lon: f64,
+}
+
+impl Fix {
+    fn distance_to(&self, other: &Fix) -> f64 {
+        haversine_distance(self.lat, self.lon, other.lat, other.lon)
+    }
+
+    /// Speed needed to get from this fix to `other`. Points less than a
+    /// second apart count as one second, so duplicated timestamps don't
+    /// produce infinite speeds.
+    fn speed_to(&self, other: &Fix) -> f64 {
+        let seconds = ((other.time_ms - self.time_ms).abs() / 1000.0).max(1.0);
+        self.distance_to(other) / seconds
+    }
+}
+
+fn fix(index: usize, tp: &Trackpoint) -> Option<Fix> {
+    let position = tp.position.as_ref()?;
+    Some(Fix {
+        index,
+        time_ms: parse_timestamp(&tp.time)?.timestamp_millis() as f64,
+        lat: position.latitude_degrees,
+        lon: position.longitude_degrees,
+    })
+}
+
+fn glitch(anchor: &Fix, point: &Fix, time: &str) -> JsGlitch {
+    JsGlitch {
+        index: point.index as u32,
+        time: time.to_string(),
+        implied_speed: anchor.speed_to(point),
+        offset_meters: anchor.distance_to(point),
+    }
+}
+
+/// Find teleport spikes: points that would need an impossible speed for the
+/// activity's sport to reach from the last good point, after which the track
+/// comes back to where it was.
+pub fn find_glitches(database: &TrainingCenterDatabase) -> Vec<JsGlitch> {
+    let mut glitches = Vec::new();
+    let mut offset = 0;
+
+    for activity in &database.activities.activity {
+        let points: Vec<&Trackpoint> = activity
+            .laps
+            .iter()
+            .filter_map(|l| l.track.as_ref())
+            .flat_map(|t| &t.trackpoints)
+            .collect();
+        let fixes: Vec<Fix> = points
+            .iter()
+            .enumerate()
+            .filter_map(|(idx, tp)| fix(offset + idx, tp))
+            .collect();
+        let time = |f: &Fix| points[f.index - offset].time.as_str();
+        let limit = max_speed(&activity.sport);
+
+        let mut anchor: Option<usize> = None;
+        let mut i = 0;
+        while i < fixes.len() {
+            let Some(a) = anchor else {
+                // The first fix has no history, so it's only off if it is
+                // far from a next fix that agrees with the one after it
+                let is_glitch = match (fixes.get(i + 1), fixes.get(i + 2)) {
+                    (Some(next), Some(after)) => {
+                        fixes[i].speed_to(next) > limit && next.speed_to(after) <= limit
+                    }
+                    _ => false,
+                };
+                if is_glitch {
+                    glitches.push(glitch(&fixes[i + 1], &fixes[i], time(&fixes[i])));
+                } else {
+                    anchor = Some(i);
+                }
+                i += 1;
+                continue;
+            };
+
+            if fixes[a].speed_to(&fixes[i]) <= limit {
+                anchor = Some(i);
+                i += 1;
+                continue;
+            }
+
+            let window_end = (i + 1 + MAX_SPIKE_POINTS).min(fixes.len());
+            let back = (i + 1..window_end).find(|&j| fixes[a].speed_to(&fixes[j]) <= limit);
+
+            match back {
+                Some(j) => {
+                    for f in &fixes[i..j] {
+                        glitches.push(glitch(&fixes[a], f, time(f)));
+                    }
+                    i = j;
+                }
+                // The track ends before coming back
+                None if window_end == fixes.len() => {
+                    for f in &fixes[i..] {
+                        glitches.push(glitch(&fixes[a], f, time(f)));
+                    }
+                    i = fixes.len();
+                }
+                // It never comes back, so the jump is where the track really went
+                None => {
+                    anchor = Some(i);
+                    i += 1;
+                }
+            }
+        }
+
+        offset += points.len();
+    }
+
+    glitches
+}
+
+/// Fix the given trackpoints by deleting them or by moving them onto the
+/// line between their good neighbours. `DistanceMeters` is recomputed from
+/// the positions around the repaired points; elsewhere the recorded
+/// increments are kept. Laps left without trackpoints are not removed here.
+pub fn repair_glitches(database: &mut TrainingCenterDatabase, indices: &[u32], interpolate: bool) {
+    let flagged: HashSet<usize> = indices.iter().map(|&idx| idx as usize).collect();
+
+    let samples: Vec<(Option<f64>, Option<(f64, f64)>, Option<f64>)> = database
+        .activities
+        .activity
+        .iter()
+        .flat_map(|a| &a.laps)
+        .filter_map(|l| l.track.as_ref())
+        .flat_map(|t| &t.trackpoints)
+        .map(|tp| {
+            (
+                parse_timestamp(&tp.time).map(|dt| dt.timestamp_millis() as f64),
+                tp.position.as_ref().map(|p| (p.latitude_degrees, p.longitude_degrees)),
+                tp.distance_meters,
+            )
+        })
+        .collect();
+    let count = samples.len();
+    let is_good = |i: usize| !flagged.contains(&i) && samples[i].1.is_some();
+
+    let mut positions: Vec<Option<(f64, f64)>> = samples.iter().map(|s| s.1).collect();
+    if interpolate {
+        for &idx in flagged.iter().filter(|&&idx| idx < count) {
+            let before = (0..idx).rev().find(|&i| is_good(i));
+            let after = (idx + 1..count).find(|&i| is_good(i));
+
+            positions[idx] = match (before, after) {
+                (Some(b), Some(a)) => {
+                    let (b_pos, a_pos) = (positions[b].unwrap(), positions[a].unwrap());
+                    let fraction = match (samples[b].0, samples[idx].0, samples[a].0) {
+                        (Some(tb), Some(t), Some(ta)) if ta > tb => (t - tb) / (ta - tb),
+                        _ => 0.5,
+                    };
+                    Some((
+                        b_pos.0 + (a_pos.0 - b_pos.0) * fraction,
+                        b_pos.1 + (a_pos.1 - b_pos.1) * fraction,
+                    ))
+                }
+                (Some(i), None) | (None, Some(i)) => positions[i],
+                (None, None) => positions[idx],
+            };
+        }
+    }
+
+    let keep = |i: usize| interpolate || !flagged.contains(&i);
+
+    // Walk the kept points, replacing the distance increments that touch a
+    // repaired point with the straight-line distance between the positions
+    let mut distances: Vec<Option<f64>> = vec![None; count];
+    let mut previous: Option<usize> = None;
+    for i in (0..count).filter(|&i| keep(i)) {
+        let Some(recorded) = samples[i].2 else { continue };
+
+        distances[i] = Some(match previous {
+            None => recorded,
+            Some(p) => {
+                let touched = (p..=i).any(|j| flagged.contains(&j));
+                let increment = match (touched, positions[p], positions[i]) {
+                    (true, Some(a), Some(b)) => haversine_distance(a.0, a.1, b.0, b.1),
+                    _ => recorded - samples[p].2.unwrap_or(recorded),
+                };
+                distances[p].unwrap_or(0.0) + increment
+            }
+        });
+        previous = Some(i);
+    }
+
+    let mut idx = 0;
+    for activity in &mut database.activities.activity {
+        for lap in &mut activity.laps {
+            if let Some(ref mut track) = lap.track {
+                let points = std::mem::take(&mut track.trackpoints);
+                for mut tp in points {
+                    let current = idx;
+                    idx += 1;
+
+                    if !keep(current) {
+                        continue;
+                    }
+
+                    if flagged.contains(&current) {
+                        if let Some((lat, lon)) = positions[current] {
+                            tp.position = Some(Position {
+                                latitude_degrees: lat,
+                                longitude_degrees: lon,
+                            });
+                        }
+                    }
+                    if tp.distance_meters.is_some() {
+                        tp.distance_meters = distances[current];
+                    }
+
+                    track.trackpoints.push(tp);
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,275 @@
+use quick_xml::de::from_str;
+use quick_xml::se::to_string;
+use serde::{Deserialize, Serialize};
+
+use crate::geo::haversine_distance;
+use crate::{
+    Activities, Activity, HeartRateBpm, Lap, Position, Track, Trackpoint, TrainingCenterDatabase,
+};
+
+const GPX_NAMESPACE: &str = "http://www.topografix.com/GPX/1/1";
+const TRACK_POINT_EXTENSION_NAMESPACE: &str =
+    "http://www.garmin.com/xmlschemas/TrackPointExtension/v1";
+
+// ============================================================================
+// GPX 1.1 Data Structures
+// ============================================================================
+
+// Element prefixes are dropped when reading, so the Garmin extension names are
+// only prefixed when writing
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[serde(rename = "gpx")]
+pub struct Gpx {
+    #[serde(rename = "@version", default)]
+    pub version: String,
+    #[serde(rename = "@creator", default)]
+    pub creator: String,
+    #[serde(rename = "@xmlns", default)]
+    pub xmlns: Option<String>,
+    #[serde(rename = "@xmlns:gpxtpx", default, skip_serializing_if = "Option::is_none")]
+    pub xmlns_gpxtpx: Option<String>,
+    #[serde(rename = "metadata", skip_serializing_if = "Option::is_none")]
+    pub metadata: Option<GpxMetadata>,
+    #[serde(rename = "trk", default)]
+    pub tracks: Vec<GpxTrack>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct GpxMetadata {
+    #[serde(rename = "name", skip_serializing_if = "Option::is_none")]
+    pub name: Option<String>,
+    #[serde(rename = "time", skip_serializing_if = "Option::is_none")]
+    pub time: Option<String>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct GpxTrack {
+    #[serde(rename = "name", skip_serializing_if = "Option::is_none")]
+    pub name: Option<String>,
+    #[serde(rename = "type", skip_serializing_if = "Option::is_none")]
+    pub kind: Option<String>,
+    #[serde(rename = "trkseg", default)]
+    pub segments: Vec<GpxSegment>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct GpxSegment {
+    #[serde(rename = "trkpt", default)]
+    pub points: Vec<GpxPoint>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct GpxPoint {
+    #[serde(rename = "@lat")]
+    pub lat: f64,
+    #[serde(rename = "@lon")]
+    pub lon: f64,
+    #[serde(rename = "ele", skip_serializing_if = "Option::is_none")]
+    pub ele: Option<f64>,
+    #[serde(rename = "time", skip_serializing_if = "Option::is_none")]
+    pub time: Option<String>,
+    #[serde(rename = "extensions", skip_serializing_if = "Option::is_none")]
+    pub extensions: Option<GpxPointExtensions>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct GpxPointExtensions {
+    #[serde(
+        rename(serialize = "gpxtpx:TrackPointExtension", deserialize = "TrackPointExtension"),
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub track_point_extension: Option<GpxTrackPointExtension>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct GpxTrackPointExtension {
+    #[serde(
+        rename(serialize = "gpxtpx:hr", deserialize = "hr"),
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub hr: Option<u32>,
+    #[serde(
+        rename(serialize = "gpxtpx:cad", deserialize = "cad"),
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub cad: Option<u32>,
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/// Parse a GPX 1.1 document into the TCX model. Each track becomes an activity
+/// and each track segment a lap; distances are derived from the positions.
+pub fn parse_gpx(xml_content: &str) -> Result<TrainingCenterDatabase, String> {
+    let gpx: Gpx = from_str(xml_content).map_err(|e| e.to_string())?;
+
+    let mut activities = Vec::new();
+    for track in gpx.tracks {
+        let mut distance = 0.0;
+        let mut previous: Option<(f64, f64)> = None;
+        let mut laps = Vec::new();
+
+        for segment in track.segments {
+            let mut trackpoints = Vec::new();
+
+            // TCX trackpoints need a time, which planned routes don't have
+            for point in segment.points {
+                let Some(time) = point.time else { continue };
+
+                if let Some((lat, lon)) = previous {
+                    distance += haversine_distance(lat, lon, point.lat, point.lon);
+                }
+                previous = Some((point.lat, point.lon));
+
+                let extension = point.extensions.and_then(|e| e.track_point_extension);
+                trackpoints.push(Trackpoint {
+                    time,
+                    position: Some(Position {
+                        latitude_degrees: point.lat,
+                        longitude_degrees: point.lon,
+                    }),
+                    altitude_meters: point.ele,
+                    distance_meters: Some(distance),
+                    heart_rate_bpm: extension
+                        .as_ref()
+                        .and_then(|e| e.hr)
+                        .map(|value| HeartRateBpm { xsi_type: None, value }),
+                    cadence: extension.as_ref().and_then(|e| e.cad),
+                    sensor_state: None,
+                    extensions: None,
+                });
+            }
+
+            if let Some(first) = trackpoints.first() {
+                laps.push(Lap {
+                    start_time: first.time.clone(),
+                    total_time_seconds: 0.0,
+                    distance_meters: 0.0,
+                    maximum_speed: None,
+                    calories: 0,
+                    average_heart_rate_bpm: None,
+                    maximum_heart_rate_bpm: None,
+                    intensity: "Active".to_string(),
+                    cadence: None,
+                    trigger_method: "Manual".to_string(),
+                    track: Some(Track { trackpoints }),
+                    notes: None,
+                    extensions: None,
+                    baseline: None,
+                });
+            }
+        }
+
+        if let Some(first) = laps.first() {
+            activities.push(Activity {
+                sport: sport_from_gpx_type(track.kind.as_deref()).to_string(),
+                id: first.start_time.clone(),
+                laps,
+                notes: track.name,
+                training: None,
+                creator: None,
+                extensions: None,
+            });
+        }
+    }
+
+    if activities.is_empty() {
+        return Err("GPX file has no timestamped track points".to_string());
+    }
+
+    Ok(TrainingCenterDatabase {
+        attributes: Vec::new(),
+        calorie_method: Default::default(),
+        folders: None,
+        activities: Activities { activity: activities },
+        workouts: None,
+        courses: None,
+        author: None,
+        extensions: None,
+    })
+}
+
+/// Serialize the TCX model as a GPX 1.1 document. Trackpoints without a
+/// position can't be represented in GPX and are left out.
+pub fn to_gpx(database: &TrainingCenterDatabase) -> Result<String, String> {
+    let tracks: Vec<GpxTrack> = database
+        .activities
+        .activity
+        .iter()
+        .map(|activity| GpxTrack {
+            name: activity.notes.clone(),
+            kind: gpx_type_from_sport(&activity.sport).map(str::to_string),
+            segments: activity
+                .laps
+                .iter()
+                .filter_map(|lap| lap.track.as_ref())
+                .map(|track| GpxSegment {
+                    points: track
+                        .trackpoints
+                        .iter()
+                        .filter_map(|tp| {
+                            let position = tp.position.as_ref()?;
+                            let hr = tp.heart_rate_bpm.as_ref().map(|h| h.value);
+                            let extensions = (hr.is_some() || tp.cadence.is_some()).then(|| {
+                                GpxPointExtensions {
+                                    track_point_extension: Some(GpxTrackPointExtension {
+                                        hr,
+                                        cad: tp.cadence,
+                                    }),
+                                }
+                            });
+
+                            Some(GpxPoint {
+                                lat: position.latitude_degrees,
+                                lon: position.longitude_degrees,
+                                ele: tp.altitude_meters,
+                                time: Some(tp.time.clone()),
+                                extensions,
+                            })
+                        })
+                        .collect(),
+                })
+                .collect(),
+        })
+        .collect();
+
+    let gpx = Gpx {
+        version: "1.1".to_string(),
+        creator: "Track Editor".to_string(),
+        xmlns: Some(GPX_NAMESPACE.to_string()),
+        xmlns_gpxtpx: Some(TRACK_POINT_EXTENSION_NAMESPACE.to_string()),
+        metadata: database.activities.activity.first().map(|a| GpxMetadata {
+            name: None,
+            time: Some(a.id.clone()),
+        }),
+        tracks,
+    };
+
+    let xml = to_string(&gpx).map_err(|e| e.to_string())?;
+    Ok(format!(
+        "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>\n{}",
+        xml
+    ))
+}
+
+/// Map a free-form GPX track type onto the TCX `Sport` enum
+fn sport_from_gpx_type(kind: Option<&str>) -> &'static str {
+    let kind = kind.unwrap_or_default().to_lowercase();
+    if kind.contains("run") {
+        "Running"
+    } else if kind.contains("bik") || kind.contains("cycl") || kind.contains("ride") {
+        "Biking"
+    } else {
+        "Other"
+    }
+}
+
+fn gpx_type_from_sport(sport: &str) -> Option<&'static str> {
+    match sport {
+        "Running" => Some("running"),
+        "Biking" => Some("cycling"),
+        _ => None,
+    }
+}
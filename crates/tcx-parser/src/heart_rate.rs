@@ -0,0 +1,231 @@
+use crate::{parse_timestamp, HeartRateBpm, JsHrArtifact, Trackpoint, TrainingCenterDatabase};
+
+/// Lowest reading taken as a real heart rate; below it the sensor has lost
+/// contact
+const MIN_PLAUSIBLE_BPM: u32 = 30;
+
+/// How close heart rate has to follow cadence, in bpm, to count as locked
+const LOCK_TOLERANCE_BPM: u32 = 2;
+
+/// What counts as a heart rate artifact
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub struct ArtifactDetection {
+    /// Fastest believable change in bpm per second
+    pub max_rate: f64,
+    /// Shortest flatline or cadence lock reported
+    pub min_seconds: f64,
+}
+
+impl Default for ArtifactDetection {
+    fn default() -> Self {
+        ArtifactDetection { max_rate: 8.0, min_seconds: 30.0 }
+    }
+}
+
+struct Reading {
+    seconds: Option<f64>,
+    bpm: Option<u32>,
+    cadence: Option<u32>,
+}
+
+impl Reading {
+    fn plausible_bpm(&self) -> Option<u32> {
+        self.bpm.filter(|&bpm| bpm >= MIN_PLAUSIBLE_BPM)
+    }
+
+    /// Heart rate matching the cadence, either per leg (`Cadence`, the
+    /// `RunCadence` extension) or in total steps per minute
+    fn is_cadence_locked(&self) -> bool {
+        match (self.plausible_bpm(), self.cadence) {
+            (Some(bpm), Some(cadence)) if cadence > 0 => {
+                bpm.abs_diff(cadence) <= LOCK_TOLERANCE_BPM
+                    || bpm.abs_diff(cadence * 2) <= LOCK_TOLERANCE_BPM
+            }
+            _ => false,
+        }
+    }
+}
+
+fn reading(tp: &Trackpoint) -> Reading {
+    Reading {
+        seconds: parse_timestamp(&tp.time).map(|dt| dt.timestamp_millis() as f64 / 1000.0),
+        bpm: tp.heart_rate_bpm.as_ref().map(|h| h.value),
+        cadence: tp
+            .cadence
+            .or_else(|| tp.tpx_value("RunCadence").and_then(|v| v.trim().parse().ok())),
+    }
+}
+
+fn all_trackpoints(database: &TrainingCenterDatabase) -> impl Iterator<Item = &Trackpoint> {
+    database
+        .activities
+        .activity
+        .iter()
+        .flat_map(|a| &a.laps)
+        .filter_map(|l| l.track.as_ref())
+        .flat_map(|t| &t.trackpoints)
+}
+
+fn all_trackpoints_mut(
+    database: &mut TrainingCenterDatabase,
+) -> impl Iterator<Item = &mut Trackpoint> {
+    database
+        .activities
+        .activity
+        .iter_mut()
+        .flat_map(|a| &mut a.laps)
+        .filter_map(|l| l.track.as_mut())
+        .flat_map(|t| &mut t.trackpoints)
+}
+
+/// Maximal runs of consecutive readings where `continues(first, current)`
+/// holds, as inclusive (first, last) indices
+fn runs(count: usize, continues: impl Fn(usize, usize) -> bool) -> Vec<(usize, usize)> {
+    let mut found = Vec::new();
+    let mut i = 0;
+    while i < count {
+        if !continues(i, i) {
+            i += 1;
+            continue;
+        }
+        let mut last = i;
+        while last + 1 < count && continues(i, last + 1) {
+            last += 1;
+        }
+        found.push((i, last));
+        i = last + 1;
+    }
+    found
+}
+
+/// Find readings that can't be real: dropouts to (near) zero, jumps faster
+/// than `max_rate`, and values stuck on one number or on the cadence for at
+/// least `min_seconds`. Ranges are inclusive and sorted; different kinds may
+/// overlap.
+pub fn find_artifacts(
+    database: &TrainingCenterDatabase,
+    detection: ArtifactDetection,
+) -> Vec<JsHrArtifact> {
+    let points: Vec<&Trackpoint> = all_trackpoints(database).collect();
+    let readings: Vec<Reading> = points.iter().map(|tp| reading(tp)).collect();
+    let count = readings.len();
+
+    // Each plausible reading is compared with the last good one, so a jump
+    // stays flagged until enough time has passed to explain it
+    let mut jumped = vec![false; count];
+    let mut anchor: Option<(f64, u32)> = None;
+    for (i, r) in readings.iter().enumerate() {
+        let (Some(seconds), Some(bpm)) = (r.seconds, r.plausible_bpm()) else { continue };
+        match anchor {
+            Some((anchor_seconds, anchor_bpm))
+                if bpm.abs_diff(anchor_bpm) as f64
+                    > detection.max_rate * (seconds - anchor_seconds).max(1.0) =>
+            {
+                jumped[i] = true;
+            }
+            _ => anchor = Some((seconds, bpm)),
+        }
+    }
+
+    let lasts_long_enough = |(first, last): &(usize, usize)| {
+        match (readings[*first].seconds, readings[*last].seconds) {
+            (Some(start), Some(end)) => end - start >= detection.min_seconds,
+            _ => false,
+        }
+    };
+
+    let mut found: Vec<(usize, usize, &str)> = Vec::new();
+    found.extend(
+        runs(count, |_, i| matches!(readings[i].bpm, Some(bpm) if bpm < MIN_PLAUSIBLE_BPM))
+            .into_iter()
+            .map(|(first, last)| (first, last, "dropout")),
+    );
+    found.extend(
+        runs(count, |_, i| jumped[i])
+            .into_iter()
+            .map(|(first, last)| (first, last, "jump")),
+    );
+    found.extend(
+        runs(count, |first, i| {
+            readings[first].plausible_bpm().is_some() && readings[i].bpm == readings[first].bpm
+        })
+        .into_iter()
+        .filter(lasts_long_enough)
+        .map(|(first, last)| (first, last, "flatline")),
+    );
+    found.extend(
+        runs(count, |_, i| readings[i].is_cadence_locked())
+            .into_iter()
+            .filter(lasts_long_enough)
+            .map(|(first, last)| (first, last, "cadence_lock")),
+    );
+    found.sort_by_key(|&(first, last, _)| (first, last));
+
+    found
+        .into_iter()
+        .map(|(first, last, kind)| JsHrArtifact {
+            kind: kind.to_string(),
+            start_index: first as u32,
+            end_index: last as u32,
+            start_time: points[first].time.clone(),
+        })
+        .collect()
+}
+
+/// Set the heart rate of every trackpoint in `start..=end`, or remove it
+pub fn set_heart_rate(
+    database: &mut TrainingCenterDatabase,
+    start: usize,
+    end: usize,
+    bpm: Option<u32>,
+) {
+    for tp in all_trackpoints_mut(database).skip(start).take(end - start + 1) {
+        tp.heart_rate_bpm = bpm.map(|value| HeartRateBpm {
+            xsi_type: tp.heart_rate_bpm.as_ref().and_then(|h| h.xsi_type.clone()),
+            value,
+        });
+    }
+}
+
+/// Replace the heart rate in `start..=end` with a straight line, by time,
+/// between the plausible readings on either side. With a reading on one side
+/// only, its value is carried over the range.
+pub fn interpolate_heart_rate(
+    database: &mut TrainingCenterDatabase,
+    start: usize,
+    end: usize,
+) -> Result<(), String> {
+    let readings: Vec<Reading> = all_trackpoints(database).map(reading).collect();
+    let before = (0..start).rev().find(|&i| readings[i].plausible_bpm().is_some());
+    let after = (end + 1..readings.len()).find(|&i| readings[i].plausible_bpm().is_some());
+
+    let values: Vec<u32> = match (before, after) {
+        (Some(b), Some(a)) => {
+            let (b_bpm, a_bpm) = (
+                readings[b].plausible_bpm().unwrap() as f64,
+                readings[a].plausible_bpm().unwrap() as f64,
+            );
+            (start..=end)
+                .map(|i| {
+                    let fraction = match (readings[b].seconds, readings[i].seconds, readings[a].seconds) {
+                        (Some(tb), Some(t), Some(ta)) if ta > tb => (t - tb) / (ta - tb),
+                        _ => (i - b) as f64 / (a - b) as f64,
+                    };
+                    (b_bpm + (a_bpm - b_bpm) * fraction).round() as u32
+                })
+                .collect()
+        }
+        (Some(i), None) | (None, Some(i)) => {
+            vec![readings[i].plausible_bpm().unwrap(); end - start + 1]
+        }
+        (None, None) => return Err("No heart rate around the range to interpolate from".to_string()),
+    };
+
+    for (tp, value) in all_trackpoints_mut(database).skip(start).zip(values) {
+        tp.heart_rate_bpm = Some(HeartRateBpm {
+            xsi_type: tp.heart_rate_bpm.as_ref().and_then(|h| h.xsi_type.clone()),
+            value,
+        });
+    }
+    Ok(())
+}
@@ -0,0 +1,100 @@
+use std::collections::VecDeque;
+
+use crate::{JsEditHistory, JsHistoryEntry, TrainingCenterDatabase};
+
+/// Number of edits kept for undo
+const MAX_ENTRIES: usize = 50;
+
+/// Trackpoints kept across all undo states. Every state is a whole copy of
+/// the file, so a long recording gets fewer undo steps than a short one.
+const MAX_TRACKPOINTS: usize = 1_000_000;
+
+/// The file as it was before one edit, and what the edit was
+struct State {
+    label: String,
+    database: TrainingCenterDatabase,
+    trackpoints: usize,
+}
+
+impl State {
+    fn new(label: String, database: TrainingCenterDatabase) -> State {
+        let trackpoints = database
+            .activities
+            .activity
+            .iter()
+            .flat_map(|activity| &activity.laps)
+            .filter_map(|lap| lap.track.as_ref())
+            .map(|track| track.trackpoints.len())
+            .sum();
+        State { label, database, trackpoints }
+    }
+}
+
+/// The undo and redo states of an editor
+#[derive(Default)]
+pub struct History {
+    /// States before each applied edit, oldest first
+    undo: VecDeque<State>,
+    /// States undone since the last edit, most recent last
+    redo: Vec<State>,
+    /// Trackpoints held by `undo`
+    undo_trackpoints: usize,
+}
+
+impl History {
+    /// Record the state before an edit named `label`, dropping the undone
+    /// edits and, past the limits, the oldest ones. The latest edit can
+    /// always be undone, however large the file.
+    pub fn record(&mut self, label: String, before: TrainingCenterDatabase) {
+        self.redo.clear();
+        self.push_undo(State::new(label, before));
+        while self.undo.len() > MAX_ENTRIES
+            || (self.undo.len() > 1 && self.undo_trackpoints > MAX_TRACKPOINTS)
+        {
+            if let Some(oldest) = self.undo.pop_front() {
+                self.undo_trackpoints -= oldest.trackpoints;
+            }
+        }
+    }
+
+    /// Put `database` back as it was before the last edit. Returns false if
+    /// there is nothing to undo.
+    pub fn undo(&mut self, database: &mut TrainingCenterDatabase) -> bool {
+        let Some(previous) = self.undo.pop_back() else { return false };
+        self.undo_trackpoints -= previous.trackpoints;
+        let current = std::mem::replace(database, previous.database);
+        self.redo.push(State::new(previous.label, current));
+        true
+    }
+
+    /// Re-apply the last undone edit to `database`. Returns false if there
+    /// is nothing to redo.
+    pub fn redo(&mut self, database: &mut TrainingCenterDatabase) -> bool {
+        let Some(next) = self.redo.pop() else { return false };
+        let current = std::mem::replace(database, next.database);
+        self.push_undo(State::new(next.label, current));
+        true
+    }
+
+    /// Number of edits that can be undone
+    pub fn position(&self) -> usize {
+        self.undo.len()
+    }
+
+    /// The applied edits, oldest first, followed by the undone ones in the
+    /// order they would be redone
+    pub fn entries(&self) -> JsEditHistory {
+        let entries = self
+            .undo
+            .iter()
+            .chain(self.redo.iter().rev())
+            .map(|state| JsHistoryEntry { label: state.label.clone() })
+            .collect();
+        JsEditHistory { entries, position: self.position() }
+    }
+
+    fn push_undo(&mut self, state: State) {
+        self.undo_trackpoints += state.trackpoints;
+        self.undo.push_back(state);
+    }
+}
@@ -1,9 +1,33 @@
-use chrono::{DateTime, FixedOffset};
+use chrono::Duration;
 use quick_xml::de::from_str;
-use quick_xml::se::to_string as to_xml_string;
+use quick_xml::se::to_string_with_root;
 use serde::{Deserialize, Serialize};
 use wasm_bindgen::prelude::*;
 
+mod calories;
+mod clock;
+mod dem;
+mod distance;
+mod elevation;
+mod fit;
+mod geo;
+mod glitch;
+mod gpx;
+mod heart_rate;
+mod history;
+mod merge;
+mod metadata;
+mod route;
+mod stops;
+mod update;
+mod xml;
+
+use clock::{parse_timestamp, shift_timestamp};
+pub use xml::XmlNode;
+
+const TCX_NAMESPACE: &str = "http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2";
+const ACTIVITY_EXTENSION_NAMESPACE: &str = "http://www.garmin.com/xmlschemas/ActivityExtension/v2";
+
 // Initialize panic hook for better error messages in browser console
 #[wasm_bindgen(start)]
 pub fn init() {
@@ -14,13 +38,63 @@ pub fn init() {
 // TCX Data Structures
 // ============================================================================
 
-#[derive(Debug, Clone, Serialize, Deserialize)]
+/// Root of a TCX document. Elements are declared in schema order, since that
+/// is the order they are written back in.
+#[derive(Debug, Clone, Deserialize)]
 #[serde(rename = "TrainingCenterDatabase")]
 pub struct TrainingCenterDatabase {
-    #[serde(rename = "@xmlns", default)]
-    pub xmlns: Option<String>,
+    /// Root attributes with their qualified names, namespace bindings included
+    #[serde(skip)]
+    pub attributes: Vec<(String, String)>,
+    /// How lap calories follow edits. It lives here rather than on the
+    /// editor so undo restores it together with the values it produced.
+    #[serde(skip)]
+    pub calorie_method: calories::CalorieMethod,
+    #[serde(rename = "Folders", default, deserialize_with = "xml::folders_content")]
+    pub folders: Option<XmlNode>,
     #[serde(rename = "Activities")]
     pub activities: Activities,
+    #[serde(rename = "Workouts", default, deserialize_with = "xml::workouts_content")]
+    pub workouts: Option<XmlNode>,
+    #[serde(rename = "Courses", default, deserialize_with = "xml::courses_content")]
+    pub courses: Option<XmlNode>,
+    #[serde(rename = "Author", default, deserialize_with = "xml::author_content")]
+    pub author: Option<XmlNode>,
+    #[serde(rename = "Extensions", default, deserialize_with = "xml::extensions_content")]
+    pub extensions: Option<XmlNode>,
+}
+
+// The root attributes aren't known until the document is read, so they can't
+// be declared as struct fields
+impl Serialize for TrainingCenterDatabase {
+    fn serialize<S: serde::Serializer>(&self, serializer: S) -> Result<S::Ok, S::Error> {
+        use serde::ser::SerializeMap;
+
+        let mut map = serializer.serialize_map(None)?;
+        if self.attributes.is_empty() {
+            map.serialize_entry("@xmlns", TCX_NAMESPACE)?;
+        }
+        for (name, value) in &self.attributes {
+            map.serialize_entry(&format!("@{}", name), value)?;
+        }
+        if let Some(ref folders) = self.folders {
+            map.serialize_entry("Folders", folders)?;
+        }
+        map.serialize_entry("Activities", &self.activities)?;
+        if let Some(ref workouts) = self.workouts {
+            map.serialize_entry("Workouts", workouts)?;
+        }
+        if let Some(ref courses) = self.courses {
+            map.serialize_entry("Courses", courses)?;
+        }
+        if let Some(ref author) = self.author {
+            map.serialize_entry("Author", author)?;
+        }
+        if let Some(ref extensions) = self.extensions {
+            map.serialize_entry("Extensions", extensions)?;
+        }
+        map.end()
+    }
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -37,6 +111,29 @@ pub struct Activity {
     pub id: String,
     #[serde(rename = "Lap")]
     pub laps: Vec<Lap>,
+    #[serde(rename = "Notes", skip_serializing_if = "Option::is_none")]
+    pub notes: Option<String>,
+    #[serde(
+        rename = "Training",
+        default,
+        deserialize_with = "xml::training_content",
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub training: Option<XmlNode>,
+    #[serde(
+        rename = "Creator",
+        default,
+        deserialize_with = "xml::creator_content",
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub creator: Option<XmlNode>,
+    #[serde(
+        rename = "Extensions",
+        default,
+        deserialize_with = "xml::extensions_content",
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub extensions: Option<XmlNode>,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -47,14 +144,34 @@ pub struct Lap {
     pub total_time_seconds: f64,
     #[serde(rename = "DistanceMeters")]
     pub distance_meters: f64,
+    #[serde(rename = "MaximumSpeed", skip_serializing_if = "Option::is_none")]
+    pub maximum_speed: Option<f64>,
     #[serde(rename = "Calories")]
     pub calories: u32,
+    #[serde(rename = "AverageHeartRateBpm", skip_serializing_if = "Option::is_none")]
+    pub average_heart_rate_bpm: Option<HeartRateBpm>,
+    #[serde(rename = "MaximumHeartRateBpm", skip_serializing_if = "Option::is_none")]
+    pub maximum_heart_rate_bpm: Option<HeartRateBpm>,
     #[serde(rename = "Intensity")]
     pub intensity: String,
+    #[serde(rename = "Cadence", skip_serializing_if = "Option::is_none")]
+    pub cadence: Option<u32>,
     #[serde(rename = "TriggerMethod")]
     pub trigger_method: String,
-    #[serde(rename = "Track")]
+    #[serde(rename = "Track", skip_serializing_if = "Option::is_none")]
     pub track: Option<Track>,
+    #[serde(rename = "Notes", skip_serializing_if = "Option::is_none")]
+    pub notes: Option<String>,
+    #[serde(
+        rename = "Extensions",
+        default,
+        deserialize_with = "xml::extensions_content",
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub extensions: Option<XmlNode>,
+    /// Calories as loaded, which later edits scale from
+    #[serde(skip)]
+    pub baseline: Option<calories::LapBaseline>,
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -67,18 +184,32 @@ pub struct Track {
 pub struct Trackpoint {
     #[serde(rename = "Time")]
     pub time: String,
-    #[serde(rename = "Position")]
+    #[serde(rename = "Position", skip_serializing_if = "Option::is_none")]
     pub position: Option<Position>,
-    #[serde(rename = "AltitudeMeters")]
+    #[serde(rename = "AltitudeMeters", skip_serializing_if = "Option::is_none")]
     pub altitude_meters: Option<f64>,
-    #[serde(rename = "DistanceMeters")]
+    #[serde(rename = "DistanceMeters", skip_serializing_if = "Option::is_none")]
     pub distance_meters: Option<f64>,
-    #[serde(rename = "HeartRateBpm")]
+    #[serde(rename = "HeartRateBpm", skip_serializing_if = "Option::is_none")]
     pub heart_rate_bpm: Option<HeartRateBpm>,
-    #[serde(rename = "Cadence")]
+    #[serde(rename = "Cadence", skip_serializing_if = "Option::is_none")]
     pub cadence: Option<u32>,
-    #[serde(rename = "Extensions")]
-    pub extensions: Option<Extensions>,
+    #[serde(rename = "SensorState", skip_serializing_if = "Option::is_none")]
+    pub sensor_state: Option<String>,
+    #[serde(
+        rename = "Extensions",
+        default,
+        deserialize_with = "xml::extensions_content",
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub extensions: Option<XmlNode>,
+}
+
+impl Trackpoint {
+    /// Look up a value in the `TPX` trackpoint extension (`Speed`, `Watts`, ...)
+    fn tpx_value(&self, name: &str) -> Option<&str> {
+        self.extensions.as_ref()?.child("TPX")?.child(name)?.text()
+    }
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -91,16 +222,16 @@ pub struct Position {
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
 pub struct HeartRateBpm {
+    /// Older Garmin exports tag heart rate values with `xsi:type`
+    #[serde(
+        rename(serialize = "@xsi:type", deserialize = "@type"),
+        skip_serializing_if = "Option::is_none"
+    )]
+    pub xsi_type: Option<String>,
     #[serde(rename = "Value")]
     pub value: u32,
 }
 
-#[derive(Debug, Clone, Serialize, Deserialize)]
-pub struct Extensions {
-    #[serde(rename = "$value", default)]
-    pub content: Option<String>,
-}
-
 // ============================================================================
 // JavaScript-friendly data structures
 // ============================================================================
@@ -116,6 +247,76 @@ pub struct JsTrackpoint {
     pub distance_meters: Option<f64>,
     pub heart_rate: Option<u32>,
     pub cadence: Option<u32>,
+    /// Speed in m/s from the `TPX` extension
+    pub speed: Option<f64>,
+    /// Power in watts from the `TPX` extension
+    pub power: Option<u32>,
+    /// Index of the lap the point belongs to, counted across all activities
+    pub lap_index: u32,
+}
+
+/// Every trackpoint as one array per field, which reaches JavaScript as a
+/// typed array instead of an object per point. Missing values are NaN.
+#[derive(Debug, Clone, Default)]
+#[wasm_bindgen(getter_with_clone)]
+pub struct TrackpointColumns {
+    pub timestamp_ms: Vec<f64>,
+    pub latitude: Vec<f64>,
+    pub longitude: Vec<f64>,
+    pub altitude_meters: Vec<f64>,
+    pub distance_meters: Vec<f64>,
+    pub heart_rate: Vec<f64>,
+    pub cadence: Vec<f64>,
+    pub speed: Vec<f64>,
+    pub power: Vec<f64>,
+    pub lap_index: Vec<u32>,
+}
+
+impl TrackpointColumns {
+    fn with_capacity(count: usize) -> Self {
+        TrackpointColumns {
+            timestamp_ms: Vec::with_capacity(count),
+            latitude: Vec::with_capacity(count),
+            longitude: Vec::with_capacity(count),
+            altitude_meters: Vec::with_capacity(count),
+            distance_meters: Vec::with_capacity(count),
+            heart_rate: Vec::with_capacity(count),
+            cadence: Vec::with_capacity(count),
+            speed: Vec::with_capacity(count),
+            power: Vec::with_capacity(count),
+            lap_index: Vec::with_capacity(count),
+        }
+    }
+
+    /// Append a trackpoint, read the same way as `JsTrackpoint`
+    fn push(&mut self, lap_index: u32, tp: &Trackpoint) {
+        let position = tp.position.as_ref();
+
+        self.timestamp_ms.push(
+            parse_timestamp(&tp.time)
+                .map(|dt| dt.timestamp_millis() as f64)
+                .unwrap_or(0.0),
+        );
+        self.latitude.push(position.map_or(f64::NAN, |p| p.latitude_degrees));
+        self.longitude.push(position.map_or(f64::NAN, |p| p.longitude_degrees));
+        self.altitude_meters.push(tp.altitude_meters.unwrap_or(f64::NAN));
+        self.distance_meters.push(tp.distance_meters.unwrap_or(f64::NAN));
+        self.heart_rate
+            .push(tp.heart_rate_bpm.as_ref().map_or(f64::NAN, |h| h.value as f64));
+        self.cadence.push(tp.cadence.map_or(f64::NAN, f64::from));
+        self.speed.push(
+            tp.tpx_value("Speed")
+                .and_then(|v| v.trim().parse().ok())
+                .unwrap_or(f64::NAN),
+        );
+        // Whole watts, like `JsTrackpoint::power`
+        self.power.push(
+            tp.tpx_value("Watts")
+                .and_then(|v| v.trim().parse::<u32>().ok())
+                .map_or(f64::NAN, f64::from),
+        );
+        self.lap_index.push(lap_index);
+    }
 }
 
 #[derive(Debug, Clone, Serialize, Deserialize)]
@@ -124,16 +325,214 @@ pub struct JsActivityStats {
     pub sport: String,
     pub start_time: String,
     pub total_time_seconds: f64,
+    /// Elapsed time without the detected stops
+    pub moving_time_seconds: f64,
     pub total_distance_meters: f64,
     pub total_calories: u32,
+    /// How the lap calories were worked out: "recorded", "time", "distance"
+    /// or "heart_rate"
+    pub calorie_method: String,
     pub trackpoint_count: u32,
     pub avg_heart_rate: Option<f64>,
     pub max_heart_rate: Option<u32>,
     pub min_heart_rate: Option<u32>,
     pub elevation_gain: Option<f64>,
     pub elevation_loss: Option<f64>,
+    /// Algorithm behind the gain and loss: "raw", "hysteresis" or "smoothed"
+    pub elevation_method: String,
+    /// Minimum climb in metres counted by the hysteresis method
+    pub elevation_threshold: Option<f64>,
+    /// Moving average window in trackpoints used by the smoothed method
+    pub elevation_window: Option<u32>,
     pub max_altitude: Option<f64>,
     pub min_altitude: Option<f64>,
+    /// Longest interval between two readings that is still recording; the
+    /// heart rate calories and the time in zones leave out longer ones
+    pub pause_seconds: f64,
+}
+
+/// A merged file, by its position in the input, and its first timestamp in
+/// Unix milliseconds
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[wasm_bindgen]
+pub struct JsMergeSource {
+    pub index: u32,
+    pub start_ms: Option<f64>,
+}
+
+/// Two merged files whose time ranges overlap, by their position in the input
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[wasm_bindgen]
+pub struct JsMergeOverlap {
+    pub first: u32,
+    pub second: u32,
+    pub overlap_seconds: f64,
+}
+
+// Only ever handed to JavaScript through serde, so no `wasm_bindgen` here
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsMergeInfo {
+    /// The merged files in timestamp order
+    pub sources: Vec<JsMergeSource>,
+    pub overlaps: Vec<JsMergeOverlap>,
+}
+
+/// An applied or undone edit, named for the history list
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsHistoryEntry {
+    pub label: String,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsEditHistory {
+    pub entries: Vec<JsHistoryEntry>,
+    /// Number of entries currently applied; the rest can be redone
+    pub position: usize,
+}
+
+/// One activity of a file that holds several, for choosing which to edit
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsActivitySummary {
+    pub sport: String,
+    /// The activity `Id`, which is its start time
+    pub start_time: String,
+    pub notes: Option<String>,
+    pub total_time_seconds: f64,
+    pub distance_meters: f64,
+    pub lap_count: u32,
+    pub trackpoint_count: u32,
+}
+
+/// The recording device from an activity's `Creator` block
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsCreator {
+    pub name: String,
+    pub unit_id: Option<u32>,
+    pub product_id: Option<u32>,
+    pub version_major: Option<u32>,
+    pub version_minor: Option<u32>,
+}
+
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsLapMetadata {
+    pub start_time: String,
+    pub intensity: String,
+    pub trigger_method: String,
+    pub calories: u32,
+    pub notes: Option<String>,
+}
+
+// Only ever handed to JavaScript through serde, like `JsMergeInfo`
+#[derive(Debug, Clone, Serialize, Deserialize)]
+pub struct JsActivityMetadata {
+    pub sport: String,
+    pub notes: Option<String>,
+    pub creator: Option<JsCreator>,
+    /// Every lap, indexed like `JsTrackpoint::lap_index`
+    pub laps: Vec<JsLapMetadata>,
+}
+
+/// A trackpoint that is implausibly far from its neighbours
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[wasm_bindgen(getter_with_clone)]
+pub struct JsGlitch {
+    /// Index in the flattened list of all trackpoints
+    pub index: u32,
+    pub time: String,
+    /// Speed in m/s needed to reach the point from the last good one
+    pub implied_speed: f64,
+    /// Distance in metres from the last good point
+    pub offset_meters: f64,
+}
+
+/// A stretch where the activity stood still
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[wasm_bindgen(getter_with_clone)]
+pub struct JsStop {
+    /// Flattened index of the last point before the stop
+    pub start_index: u32,
+    /// Flattened index of the point where moving resumes
+    pub end_index: u32,
+    pub start_time: String,
+    pub duration_seconds: f64,
+}
+
+/// A stretch of heart rate readings that can't be real
+#[derive(Debug, Clone, Serialize, Deserialize)]
+#[wasm_bindgen(getter_with_clone)]
+pub struct JsHrArtifact {
+    /// "dropout", "jump", "flatline" or "cadence_lock"
+    pub kind: String,
+    /// Flattened index of the first affected trackpoint
+    pub start_index: u32,
+    /// Flattened index of the last affected trackpoint
+    pub end_index: u32,
+    pub start_time: String,
+}
+
+// ============================================================================
+// Elevation Model
+// ============================================================================
+
+/// Elevation tiles loaded from disk (SRTM `.hgt` or GeoTIFF), used to
+/// replace recorded altitudes
+#[wasm_bindgen]
+pub struct ElevationModel {
+    tiles: Vec<dem::DemTile>,
+}
+
+#[wasm_bindgen]
+impl ElevationModel {
+    #[wasm_bindgen(constructor)]
+    pub fn new() -> ElevationModel {
+        ElevationModel { tiles: Vec::new() }
+    }
+
+    /// Add an SRTM tile; its position comes from the file name (`N46E008.hgt`)
+    #[wasm_bindgen(js_name = addHgt)]
+    pub fn add_hgt(&mut self, file_name: &str, data: &[u8]) -> Result<(), JsValue> {
+        let tile = dem::parse_hgt(file_name, data)
+            .map_err(|e| JsValue::from_str(&format!("Failed to read HGT: {}", e)))?;
+        self.tiles.push(tile);
+        Ok(())
+    }
+
+    /// Add a single-band GeoTIFF in latitude/longitude
+    #[wasm_bindgen(js_name = addGeoTiff)]
+    pub fn add_geotiff(&mut self, data: &[u8]) -> Result<(), JsValue> {
+        let tile = dem::parse_geotiff(data)
+            .map_err(|e| JsValue::from_str(&format!("Failed to read GeoTIFF: {}", e)))?;
+        self.tiles.push(tile);
+        Ok(())
+    }
+
+    #[wasm_bindgen(js_name = tileCount)]
+    pub fn tile_count(&self) -> usize {
+        self.tiles.len()
+    }
+
+    /// Elevation at each position, NaN where no tile covers it
+    #[wasm_bindgen(js_name = sampleMany)]
+    pub fn sample_many(&self, latitudes: &[f64], longitudes: &[f64]) -> Vec<f64> {
+        latitudes
+            .iter()
+            .zip(longitudes)
+            .map(|(&lat, &lon)| self.sample(lat, lon).unwrap_or(f64::NAN))
+            .collect()
+    }
+}
+
+impl ElevationModel {
+    /// The first tile covering a position wins
+    fn sample(&self, lat: f64, lon: f64) -> Option<f64> {
+        self.tiles.iter().find_map(|tile| tile.sample(lat, lon))
+    }
+}
+
+impl Default for ElevationModel {
+    fn default() -> Self {
+        Self::new()
+    }
 }
 
 // ============================================================================
@@ -143,7 +542,16 @@ pub struct JsActivityStats {
 #[wasm_bindgen]
 pub struct TcxEditor {
     database: TrainingCenterDatabase,
-    original_xml: String,
+    original: TrainingCenterDatabase,
+    history: history::History,
+    /// Set when the editor was created by merging several files
+    merge_info: Option<JsMergeInfo>,
+    /// How the stats add up elevation gain and loss
+    gain_method: elevation::GainMethod,
+    /// What counts as a stop for moving time and stop removal
+    stop_detection: stops::StopDetection,
+    /// What counts as a heart rate artifact
+    hr_detection: heart_rate::ArtifactDetection,
 }
 
 #[wasm_bindgen]
@@ -151,15 +559,153 @@ impl TcxEditor {
     /// Parse a TCX file from XML string
     #[wasm_bindgen(constructor)]
     pub fn new(xml_content: &str) -> Result<TcxEditor, JsValue> {
-        let database: TrainingCenterDatabase = from_str(xml_content)
-            .map_err(|e| JsValue::from_str(&format!("Failed to parse TCX: {}", e)))?;
+        let database = parse_database(xml_content)?;
+        Ok(TcxEditor::from_database(database))
+    }
 
-        Ok(TcxEditor {
-            database,
-            original_xml: xml_content.to_string(),
+    /// Parse a GPX 1.1 file from XML string
+    #[wasm_bindgen(js_name = fromGpx)]
+    pub fn from_gpx(xml_content: &str) -> Result<TcxEditor, JsValue> {
+        let database = gpx::parse_gpx(xml_content)
+            .map_err(|e| JsValue::from_str(&format!("Failed to parse GPX: {}", e)))?;
+
+        let mut editor = TcxEditor::from_database(database);
+        editor.recalculate_lap_stats();
+        editor.original = editor.database.clone();
+        Ok(editor)
+    }
+
+    /// Decode a binary FIT activity file
+    #[wasm_bindgen(js_name = fromFit)]
+    pub fn from_fit(data: &[u8]) -> Result<TcxEditor, JsValue> {
+        let database = fit::parse_fit(data)
+            .map_err(|e| JsValue::from_str(&format!("Failed to parse FIT: {}", e)))?;
+        Ok(TcxEditor::from_database(database))
+    }
+
+    /// Merge several editors into one continuous activity. The editors are
+    /// consumed; the result starts with an empty history.
+    #[wasm_bindgen]
+    pub fn merge(editors: Vec<TcxEditor>) -> Result<TcxEditor, JsValue> {
+        let databases = editors.into_iter().map(|e| e.database).collect();
+        let (database, info) = merge::merge_databases(databases)
+            .map_err(|e| JsValue::from_str(&format!("Failed to merge: {}", e)))?;
+
+        let mut editor = TcxEditor::from_database(database);
+        editor.merge_info = Some(info);
+        Ok(editor)
+    }
+
+    /// Get the file boundaries and overlap warnings of a merged editor, or
+    /// null if it wasn't created by merging
+    #[wasm_bindgen(js_name = getMergeInfo)]
+    pub fn get_merge_info(&self) -> Result<JsValue, JsValue> {
+        serde_wasm_bindgen::to_value(&self.merge_info)
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
+    }
+
+    /// Summarize every activity in the file, in document order
+    #[wasm_bindgen(js_name = getActivities)]
+    pub fn get_activities(&self) -> Result<JsValue, JsValue> {
+        let summaries = self.summarize_activities();
+        serde_wasm_bindgen::to_value(&summaries)
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
+    }
+
+    /// Split a multi-activity file into one editor per activity, each holding
+    /// that activity alone under the file's root attributes and `Author`.
+    /// Every editor starts with an empty history and the activity as it is
+    /// now as its original.
+    #[wasm_bindgen(js_name = splitActivities)]
+    pub fn split_activities(&self) -> Vec<TcxEditor> {
+        self.database
+            .activities
+            .activity
+            .iter()
+            .map(|activity| {
+                // Folders, workouts and courses belong with the whole file
+                let mut part = TcxEditor::from_database(TrainingCenterDatabase {
+                    attributes: self.database.attributes.clone(),
+                    calorie_method: self.database.calorie_method,
+                    folders: None,
+                    activities: Activities {
+                        activity: vec![activity.clone()],
+                    },
+                    workouts: None,
+                    courses: None,
+                    author: self.database.author.clone(),
+                    extensions: self.database.extensions.clone(),
+                });
+                part.gain_method = self.gain_method;
+                part.stop_detection = self.stop_detection;
+                part.hr_detection = self.hr_detection;
+                part
+            })
+            .collect()
+    }
+
+    /// Put the activity held by `part`, one of the editors from
+    /// `splitActivities`, back in place of activity `index`. This isn't an
+    /// edit: it isn't recorded and can't be undone, so it's meant for a
+    /// `copy` that is about to be exported.
+    #[wasm_bindgen(js_name = replaceActivity)]
+    pub fn replace_activity(&mut self, index: usize, part: &TcxEditor) -> Result<(), JsValue> {
+        let activity = part
+            .database
+            .activities
+            .activity
+            .first()
+            .ok_or_else(|| JsValue::from_str("The editor holds no activity"))?;
+
+        let activities = &mut self.database.activities.activity;
+        if index >= activities.len() {
+            return Err(JsValue::from_str(&format!(
+                "Invalid activity: {} >= total ({})",
+                index,
+                activities.len()
+            )));
+        }
+
+        activities[index] = activity.clone();
+        Ok(())
+    }
+
+    /// Remove activity `index` from the file, as an edit that undo brings
+    /// back. The last one can't be removed.
+    #[wasm_bindgen(js_name = deleteActivity)]
+    pub fn delete_activity(&mut self, index: usize) -> Result<(), JsValue> {
+        let total = self.database.activities.activity.len();
+        if index >= total {
+            return Err(JsValue::from_str(&format!(
+                "Invalid activity: {} >= total ({})",
+                index, total
+            )));
+        }
+        if total == 1 {
+            return Err(JsValue::from_str("Cannot delete the only activity"));
+        }
+
+        self.apply_edit(format!("Delete activity {}", index + 1), |editor| {
+            editor.database.activities.activity.remove(index);
+            Ok(())
         })
     }
 
+    /// The file as it is now in a new editor with an empty history, to put
+    /// edited activities into for an export without touching this one
+    #[wasm_bindgen]
+    pub fn copy(&self) -> TcxEditor {
+        TcxEditor {
+            database: self.database.clone(),
+            original: self.original.clone(),
+            history: history::History::default(),
+            merge_info: self.merge_info.clone(),
+            gain_method: self.gain_method,
+            stop_detection: self.stop_detection,
+            hr_detection: self.hr_detection,
+        }
+    }
+
     /// Get all trackpoints as JSON array
     #[wasm_bindgen(js_name = getTrackpoints)]
     pub fn get_trackpoints(&self) -> Result<JsValue, JsValue> {
@@ -168,6 +714,20 @@ impl TcxEditor {
             .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
     }
 
+    /// Get all trackpoints as typed arrays, one per field. Far quicker than
+    /// `getTrackpoints` on large files, as no object is built per point.
+    #[wasm_bindgen(js_name = getTrackpointColumns)]
+    pub fn get_trackpoint_columns(&self) -> TrackpointColumns {
+        let mut columns = TrackpointColumns::with_capacity(self.get_trackpoint_count());
+        let laps = self.database.activities.activity.iter().flat_map(|a| &a.laps);
+        for (lap_index, lap) in laps.enumerate() {
+            for tp in lap.track.iter().flat_map(|t| &t.trackpoints) {
+                columns.push(lap_index as u32, tp);
+            }
+        }
+        columns
+    }
+
     /// Get activity statistics
     #[wasm_bindgen(js_name = getStats)]
     pub fn get_stats(&self) -> Result<JsValue, JsValue> {
@@ -176,122 +736,862 @@ impl TcxEditor {
             .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
     }
 
+    /// Choose how `getStats` adds up elevation gain and loss: "raw",
+    /// "hysteresis" (ignoring changes under `threshold` metres) or "smoothed"
+    /// (a moving average over `window` trackpoints first). This is a view
+    /// setting and doesn't touch the edit history.
+    #[wasm_bindgen(js_name = setElevationMethod)]
+    pub fn set_elevation_method(
+        &mut self,
+        method: &str,
+        threshold: f64,
+        window: u32,
+    ) -> Result<(), JsValue> {
+        self.gain_method = elevation::GainMethod::parse(method, threshold, window as usize)
+            .map_err(|e| JsValue::from_str(&e))?;
+        Ok(())
+    }
+
     /// Trim the track to a specific range of trackpoint indices (inclusive)
     /// Indices are for the flattened list of all trackpoints across all laps
     #[wasm_bindgen(js_name = trimByIndices)]
     pub fn trim_by_indices(&mut self, start_idx: usize, end_idx: usize) -> Result<(), JsValue> {
-        let total_count = self.get_trackpoint_count();
+        let label = format!("Trim to points {}–{}", start_idx, end_idx);
+        self.apply_edit(label, |editor| editor.trim_range(start_idx, end_idx))
+    }
 
-        if start_idx > end_idx {
-            return Err(JsValue::from_str(&format!(
-                "Invalid indices: start ({}) > end ({})",
-                start_idx, end_idx
-            )));
-        }
+    /// Remove a range of trackpoint indices (inclusive), keeping both ends.
+    /// With `shift_time` the following timestamps are moved back to close the
+    /// gap; with `rebase_distance` the following `DistanceMeters` are lowered
+    /// so the cumulative distance has no jump.
+    #[wasm_bindgen(js_name = cutRange)]
+    pub fn cut_range(
+        &mut self,
+        start_idx: usize,
+        end_idx: usize,
+        shift_time: bool,
+        rebase_distance: bool,
+    ) -> Result<(), JsValue> {
+        let label = format!("Cut points {}–{}", start_idx, end_idx);
+        self.apply_edit(label, |editor| editor.cut(start_idx, end_idx, shift_time, rebase_distance))
+    }
 
-        if end_idx >= total_count {
-            return Err(JsValue::from_str(&format!(
-                "Invalid indices: end ({}) >= total ({})",
-                end_idx, total_count
-            )));
-        }
+    /// Rebuild `DistanceMeters` from the GPS positions using geodesic
+    /// distance. `smoothing` is a moving average window in trackpoints (0 to
+    /// use the raw positions); `use_elevation` adds the climb between points.
+    #[wasm_bindgen(js_name = recomputeDistance)]
+    pub fn recompute_distance(&mut self, smoothing: u32, use_elevation: bool) -> Result<(), JsValue> {
+        let label = if use_elevation { "Recompute 3D distance" } else { "Recompute distance" };
+        self.apply_edit(label, |editor| {
+            if !distance::recompute_distance(&mut editor.database, smoothing as usize, use_elevation) {
+                return Err(JsValue::from_str("No GPS positions to compute distance from"));
+            }
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
 
-        // Collect all trackpoints into a flat list
-        let all_trackpoints: Vec<Trackpoint> = self.database
-            .activities
-            .activity
-            .iter()
-            .flat_map(|a| &a.laps)
-            .filter_map(|l| l.track.as_ref())
-            .flat_map(|t| t.trackpoints.clone())
-            .collect();
+    /// Total distance `recomputeDistance` would produce, leaving the activity
+    /// untouched. Undefined if there are no positions.
+    #[wasm_bindgen(js_name = previewRecomputedDistance)]
+    pub fn preview_recomputed_distance(&self, smoothing: u32, use_elevation: bool) -> Option<f64> {
+        let mut database = self.database.clone();
+        distance::recompute_distance(&mut database, smoothing as usize, use_elevation)
+            .then(|| distance::total_lap_distance(&database))
+    }
 
-        // Get the trimmed slice
-        let trimmed: Vec<Trackpoint> = all_trackpoints[start_idx..=end_idx].to_vec();
+    /// Split the activity into independent editors, one per part. Each index
+    /// is the first trackpoint of a new part; every part gets its own `Id`,
+    /// lap stats and `DistanceMeters` starting at zero.
+    #[wasm_bindgen(js_name = splitAt)]
+    pub fn split_at(&self, indices: Vec<u32>) -> Result<Vec<TcxEditor>, JsValue> {
+        let total_count = self.get_trackpoint_count();
 
-        // For simplicity, put all trimmed trackpoints into the first lap's track
-        // and remove other laps (this is a reasonable simplification for trimming)
-        if let Some(activity) = self.database.activities.activity.first_mut() {
-            // Keep only the first lap
-            activity.laps.truncate(1);
+        let mut bounds: Vec<usize> = indices
+            .into_iter()
+            .map(|idx| idx as usize)
+            .filter(|&idx| idx > 0 && idx < total_count)
+            .collect();
+        bounds.sort_unstable();
+        bounds.dedup();
 
-            if let Some(lap) = activity.laps.first_mut() {
-                if let Some(ref mut track) = lap.track {
-                    track.trackpoints = trimmed;
-                } else {
-                    lap.track = Some(Track { trackpoints: trimmed });
-                }
-            }
+        if bounds.is_empty() {
+            return Err(JsValue::from_str("No split points inside the track"));
         }
 
-        self.recalculate_lap_stats();
-        Ok(())
+        bounds.insert(0, 0);
+        bounds.push(total_count);
+
+        bounds
+            .windows(2)
+            .map(|pair| {
+                let mut part = TcxEditor::from_database(self.database.clone());
+                part.trim_range(pair[0], pair[1] - 1)?;
+                part.rebase_distance();
+                part.original = part.database.clone();
+                part.gain_method = self.gain_method;
+                part.stop_detection = self.stop_detection;
+                part.hr_detection = self.hr_detection;
+                Ok(part)
+            })
+            .collect()
     }
 
-    /// Export the (possibly modified) TCX as XML string
-    #[wasm_bindgen(js_name = toXml)]
-    pub fn to_xml(&self) -> Result<String, JsValue> {
-        let xml = to_xml_string(&self.database)
-            .map_err(|e| JsValue::from_str(&format!("Failed to serialize TCX: {}", e)))?;
+    /// Replace `AltitudeMeters` with elevations from `model` at each position.
+    /// Points outside the loaded tiles keep their recorded altitude. Returns
+    /// the number of corrected points.
+    #[wasm_bindgen(js_name = correctElevation)]
+    pub fn correct_elevation(&mut self, model: &ElevationModel) -> Result<u32, JsValue> {
+        let mut corrected = 0;
+        self.apply_edit("Correct elevation from DEM", |editor| {
+            for activity in &mut editor.database.activities.activity {
+                for lap in &mut activity.laps {
+                    if let Some(ref mut track) = lap.track {
+                        for tp in &mut track.trackpoints {
+                            let Some(ref position) = tp.position else { continue };
+                            let elevation =
+                                model.sample(position.latitude_degrees, position.longitude_degrees);
+                            if let Some(elevation) = elevation {
+                                tp.altitude_meters = Some((elevation * 10.0).round() / 10.0);
+                                corrected += 1;
+                            }
+                        }
+                    }
+                }
+            }
 
-        // Add XML declaration
-        let full_xml = format!(
-            "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>\n{}",
-            xml
-        );
-        Ok(full_xml)
+            if corrected == 0 {
+                return Err(JsValue::from_str(
+                    "No trackpoints fall inside the loaded elevation tiles",
+                ));
+            }
+            Ok(())
+        })?;
+        Ok(corrected)
     }
 
-    /// Get the number of trackpoints
-    #[wasm_bindgen(js_name = getTrackpointCount)]
-    pub fn get_trackpoint_count(&self) -> usize {
-        self.database
-            .activities
-            .activity
-            .iter()
-            .flat_map(|a| &a.laps)
-            .filter_map(|l| l.track.as_ref())
-            .map(|t| t.trackpoints.len())
-            .sum()
+    /// Find GPS spikes: points whose implied speed from their neighbours is
+    /// impossible for the activity's sport
+    #[wasm_bindgen(js_name = findGlitches)]
+    pub fn find_glitches(&self) -> Result<JsValue, JsValue> {
+        let glitches = glitch::find_glitches(&self.database);
+        serde_wasm_bindgen::to_value(&glitches)
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
     }
 
-    /// Reset to original state
-    #[wasm_bindgen]
-    pub fn reset(&mut self) -> Result<(), JsValue> {
-        self.database = from_str(&self.original_xml)
-            .map_err(|e| JsValue::from_str(&format!("Failed to parse TCX: {}", e)))?;
+    /// Set what counts as a stop: moving slower than `max_speed` m/s for at
+    /// least `min_seconds`. Like the elevation method, this only changes how
+    /// the track is read.
+    #[wasm_bindgen(js_name = setStopDetection)]
+    pub fn set_stop_detection(&mut self, max_speed: f64, min_seconds: f64) -> Result<(), JsValue> {
+        let positive = |value: f64| value.is_finite() && value > 0.0;
+        if !positive(max_speed) || !positive(min_seconds) {
+            return Err(JsValue::from_str("Stop speed and duration must be positive"));
+        }
+        self.stop_detection = stops::StopDetection { max_speed, min_seconds };
         Ok(())
     }
-}
 
-impl TcxEditor {
-    fn collect_trackpoints(&self) -> Vec<JsTrackpoint> {
-        self.database
-            .activities
-            .activity
-            .iter()
-            .flat_map(|a| &a.laps)
-            .filter_map(|l| l.track.as_ref())
-            .flat_map(|t| &t.trackpoints)
-            .map(|tp| {
-                let timestamp_ms = parse_timestamp(&tp.time)
-                    .map(|dt| dt.timestamp_millis() as f64)
-                    .unwrap_or(0.0);
+    /// Find the stationary stretches, including paused recordings
+    #[wasm_bindgen(js_name = findStops)]
+    pub fn find_stops(&self) -> Result<JsValue, JsValue> {
+        let stops = stops::find_stops(&self.database, self.stop_detection);
+        serde_wasm_bindgen::to_value(&stops)
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
+    }
 
-                JsTrackpoint {
-                    time: tp.time.clone(),
-                    timestamp_ms,
+    /// Cut every stop out of the track, shifting the following timestamps
+    /// and distances back so the remaining data is continuous. Returns the
+    /// number of stops removed.
+    #[wasm_bindgen(js_name = removeStops)]
+    pub fn remove_stops(&mut self) -> Result<u32, JsValue> {
+        let found = stops::find_stops(&self.database, self.stop_detection);
+        if found.is_empty() {
+            return Err(JsValue::from_str("No stops to remove"));
+        }
+
+        let label = format!("Remove {}", count_of(found.len(), "stop", "stops"));
+        self.apply_edit(label, |editor| {
+            stops::remove_stops(&mut editor.database, &found);
+
+            for activity in &mut editor.database.activities.activity {
+                activity
+                    .laps
+                    .retain(|l| l.track.as_ref().map_or(false, |t| !t.trackpoints.is_empty()));
+            }
+
+            editor.recalculate_lap_stats();
+            Ok(())
+        })?;
+        Ok(found.len() as u32)
+    }
+
+    /// Set one value of the trackpoints at `indices`, or remove it when
+    /// `value` is undefined. `field` is named like the `JsTrackpoint` field:
+    /// latitude, longitude, altitude_meters, distance_meters, heart_rate or
+    /// cadence. Other values, such as the distance after a moved position,
+    /// are left as they are.
+    #[wasm_bindgen(js_name = updateTrackpoints)]
+    pub fn update_trackpoints(
+        &mut self,
+        indices: Vec<u32>,
+        field: &str,
+        value: Option<f64>,
+    ) -> Result<(), JsValue> {
+        let total_count = self.get_trackpoint_count();
+        if indices.is_empty() {
+            return Err(JsValue::from_str("No trackpoints to update"));
+        }
+        if let Some(&idx) = indices.iter().find(|&&idx| idx as usize >= total_count) {
+            return Err(JsValue::from_str(&format!(
+                "Invalid index: {} >= total ({})",
+                idx, total_count
+            )));
+        }
+        let field = update::Field::parse(field).map_err(|e| JsValue::from_str(&e))?;
+        let target = match indices[..] {
+            [idx] => format!("point {}", idx + 1),
+            _ => format!("{} points", indices.len()),
+        };
+        let action = if value.is_some() { "Edit" } else { "Clear" };
+        let label = format!("{} {} of {}", action, field.label(), target);
+
+        self.apply_edit(label, |editor| {
+            update::update_trackpoints(&mut editor.database, &indices, field, value)
+                .map_err(|e| JsValue::from_str(&e))?;
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Move the trackpoint at `index` to a new position, as when dragging it
+    /// on the map. The distance to its positioned neighbours is recomputed and
+    /// the following `DistanceMeters` shifted to match.
+    #[wasm_bindgen(js_name = moveTrackpoint)]
+    pub fn move_trackpoint(&mut self, index: usize, latitude: f64, longitude: f64) -> Result<(), JsValue> {
+        let total_count = self.get_trackpoint_count();
+        if index >= total_count {
+            return Err(JsValue::from_str(&format!(
+                "Invalid index: {} >= total ({})",
+                index, total_count
+            )));
+        }
+        if !(-90.0..=90.0).contains(&latitude) || !(-180.0..=180.0).contains(&longitude) {
+            return Err(JsValue::from_str(&format!(
+                "Invalid position: {}, {}",
+                latitude, longitude
+            )));
+        }
+
+        self.apply_edit(format!("Move point {}", index + 1), |editor| {
+            route::move_trackpoint(&mut editor.database, index, latitude, longitude)
+                .map_err(|e| JsValue::from_str(&e))?;
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Choose how lap calories follow edits that remove trackpoints:
+    /// "recorded" keeps them, "time" and "distance" scale them by what's
+    /// left of each lap, and "heart_rate" estimates them from heart rate for
+    /// an athlete of `weight_kg`, `age` and `sex` ("male" or "female"). The
+    /// laps are recalculated straight away, as an edit.
+    #[wasm_bindgen(js_name = setCalorieMethod)]
+    pub fn set_calorie_method(&mut self, method: &str, weight_kg: f64, age: f64, sex: &str) -> Result<(), JsValue> {
+        let method = calories::CalorieMethod::parse(method, weight_kg, age, sex)
+            .map_err(|e| JsValue::from_str(&e))?;
+
+        self.apply_edit(method.label(), |editor| {
+            editor.database.calorie_method = method;
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Sport, notes, device and lap settings, for the metadata editor
+    #[wasm_bindgen(js_name = getMetadata)]
+    pub fn get_metadata(&self) -> Result<JsValue, JsValue> {
+        serde_wasm_bindgen::to_value(&metadata::read(&self.database))
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
+    }
+
+    /// Set the sport of the first activity: Running, Biking or Other
+    #[wasm_bindgen(js_name = setSport)]
+    pub fn set_sport(&mut self, sport: &str) -> Result<(), JsValue> {
+        metadata::check_enum("sport", sport, &metadata::SPORTS).map_err(|e| JsValue::from_str(&e))?;
+
+        self.apply_edit(format!("Set sport to {}", sport), |editor| {
+            let activity = editor.database.activities.activity.first_mut()
+                .ok_or_else(|| JsValue::from_str("No activity to set the sport of"))?;
+            activity.sport = sport.to_string();
+            Ok(())
+        })
+    }
+
+    /// Set or, when empty, remove the notes of the first activity
+    #[wasm_bindgen(js_name = setActivityNotes)]
+    pub fn set_activity_notes(&mut self, notes: Option<String>) -> Result<(), JsValue> {
+        self.apply_edit("Edit activity notes", |editor| {
+            let activity = editor.database.activities.activity.first_mut()
+                .ok_or_else(|| JsValue::from_str("No activity to set the notes of"))?;
+            activity.notes = metadata::notes(notes);
+            Ok(())
+        })
+    }
+
+    /// Write the device in the first activity's `Creator` block, adding one
+    /// if there is none. Missing numbers are written as 0, since the schema
+    /// requires them.
+    #[wasm_bindgen(js_name = setCreator)]
+    pub fn set_creator(
+        &mut self,
+        name: &str,
+        unit_id: Option<u32>,
+        product_id: Option<u32>,
+        version_major: Option<u32>,
+        version_minor: Option<u32>,
+    ) -> Result<(), JsValue> {
+        let creator = JsCreator {
+            name: name.to_string(),
+            unit_id,
+            product_id,
+            version_major,
+            version_minor,
+        };
+
+        self.apply_edit(format!("Set device to {}", name.trim()), |editor| {
+            metadata::set_creator(&mut editor.database, &creator).map_err(|e| JsValue::from_str(&e))
+        })
+    }
+
+    /// Remove the first activity's `Creator` block
+    #[wasm_bindgen(js_name = removeCreator)]
+    pub fn remove_creator(&mut self) -> Result<(), JsValue> {
+        self.apply_edit("Remove device", |editor| {
+            let activity = editor.database.activities.activity.first_mut()
+                .ok_or_else(|| JsValue::from_str("No activity to remove the creator of"))?;
+            if activity.creator.take().is_none() {
+                return Err(JsValue::from_str("No creator to remove"));
+            }
+            Ok(())
+        })
+    }
+
+    /// Set the intensity of the lap at `lap_index`: Active or Resting
+    #[wasm_bindgen(js_name = setLapIntensity)]
+    pub fn set_lap_intensity(&mut self, lap_index: usize, intensity: &str) -> Result<(), JsValue> {
+        metadata::check_enum("intensity", intensity, &metadata::INTENSITIES)
+            .map_err(|e| JsValue::from_str(&e))?;
+
+        let label = format!("Set lap {} intensity to {}", lap_index + 1, intensity);
+        self.apply_edit(label, |editor| {
+            let lap = metadata::lap_mut(&mut editor.database, lap_index).map_err(|e| JsValue::from_str(&e))?;
+            lap.intensity = intensity.to_string();
+            Ok(())
+        })
+    }
+
+    /// Set what ended the lap at `lap_index`: Manual, Distance, Location,
+    /// Time or HeartRate
+    #[wasm_bindgen(js_name = setLapTriggerMethod)]
+    pub fn set_lap_trigger_method(&mut self, lap_index: usize, trigger_method: &str) -> Result<(), JsValue> {
+        metadata::check_enum("trigger method", trigger_method, &metadata::TRIGGER_METHODS)
+            .map_err(|e| JsValue::from_str(&e))?;
+
+        let label = format!("Set lap {} trigger to {}", lap_index + 1, trigger_method);
+        self.apply_edit(label, |editor| {
+            let lap = metadata::lap_mut(&mut editor.database, lap_index).map_err(|e| JsValue::from_str(&e))?;
+            lap.trigger_method = trigger_method.to_string();
+            Ok(())
+        })
+    }
+
+    #[wasm_bindgen(js_name = setLapCalories)]
+    pub fn set_lap_calories(&mut self, lap_index: usize, calories: u32) -> Result<(), JsValue> {
+        let label = format!("Set lap {} calories to {}", lap_index + 1, calories);
+        self.apply_edit(label, |editor| {
+            let lap = metadata::lap_mut(&mut editor.database, lap_index).map_err(|e| JsValue::from_str(&e))?;
+            lap.calories = calories;
+            // Later edits scale from the corrected value
+            calories::set_baseline(lap);
+            Ok(())
+        })
+    }
+
+    /// Set or, when empty, remove the notes of the lap at `lap_index`
+    #[wasm_bindgen(js_name = setLapNotes)]
+    pub fn set_lap_notes(&mut self, lap_index: usize, notes: Option<String>) -> Result<(), JsValue> {
+        self.apply_edit(format!("Edit lap {} notes", lap_index + 1), |editor| {
+            let lap = metadata::lap_mut(&mut editor.database, lap_index).map_err(|e| JsValue::from_str(&e))?;
+            lap.notes = metadata::notes(notes);
+            Ok(())
+        })
+    }
+
+    /// Move the whole activity in time by `offset_ms`, for a device clock or
+    /// time zone that was off. Trackpoint times, lap starts and the activity
+    /// Id keep their formatting.
+    #[wasm_bindgen(js_name = shiftTime)]
+    pub fn shift_time(&mut self, offset_ms: f64) -> Result<(), JsValue> {
+        if !offset_ms.is_finite() {
+            return Err(JsValue::from_str(&format!("Invalid time offset: {}", offset_ms)));
+        }
+
+        let offset = Duration::milliseconds(offset_ms.round() as i64);
+        self.apply_edit(format!("Shift time by {}", clock::format_offset(offset)), |editor| {
+            clock::shift_time(&mut editor.database, offset).map_err(|e| JsValue::from_str(&e))?;
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Set what counts as a heart rate artifact: changes faster than
+    /// `max_rate` bpm per second, or flatlines and cadence lock lasting at
+    /// least `min_seconds`
+    #[wasm_bindgen(js_name = setHrArtifactDetection)]
+    pub fn set_hr_artifact_detection(&mut self, max_rate: f64, min_seconds: f64) -> Result<(), JsValue> {
+        let positive = |value: f64| value.is_finite() && value > 0.0;
+        if !positive(max_rate) || !positive(min_seconds) {
+            return Err(JsValue::from_str("Heart rate limit and duration must be positive"));
+        }
+        self.hr_detection = heart_rate::ArtifactDetection { max_rate, min_seconds };
+        Ok(())
+    }
+
+    /// Find heart rate dropouts, jumps, flatlines and cadence lock
+    #[wasm_bindgen(js_name = findHrArtifacts)]
+    pub fn find_hr_artifacts(&self) -> Result<JsValue, JsValue> {
+        let artifacts = heart_rate::find_artifacts(&self.database, self.hr_detection);
+        serde_wasm_bindgen::to_value(&artifacts)
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
+    }
+
+    /// Replace the heart rate of a range of trackpoint indices (inclusive)
+    /// with a line between the readings on either side
+    #[wasm_bindgen(js_name = interpolateHeartRate)]
+    pub fn interpolate_heart_rate(&mut self, start_idx: usize, end_idx: usize) -> Result<(), JsValue> {
+        self.check_range(start_idx, end_idx)?;
+        let points = count_of(end_idx - start_idx + 1, "point", "points");
+        self.apply_edit(format!("Interpolate heart rate over {}", points), |editor| {
+            heart_rate::interpolate_heart_rate(&mut editor.database, start_idx, end_idx)
+                .map_err(|e| JsValue::from_str(&e))?;
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Remove the heart rate from a range of trackpoint indices (inclusive)
+    #[wasm_bindgen(js_name = clearHeartRate)]
+    pub fn clear_heart_rate(&mut self, start_idx: usize, end_idx: usize) -> Result<(), JsValue> {
+        self.check_range(start_idx, end_idx)?;
+        let points = count_of(end_idx - start_idx + 1, "point", "points");
+        self.apply_edit(format!("Clear heart rate of {}", points), |editor| {
+            heart_rate::set_heart_rate(&mut editor.database, start_idx, end_idx, None);
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Set the heart rate of a range of trackpoint indices (inclusive) to `bpm`
+    #[wasm_bindgen(js_name = setHeartRate)]
+    pub fn set_heart_rate(&mut self, start_idx: usize, end_idx: usize, bpm: u32) -> Result<(), JsValue> {
+        self.check_range(start_idx, end_idx)?;
+        if bpm == 0 {
+            return Err(JsValue::from_str("Heart rate must be positive"));
+        }
+        let points = count_of(end_idx - start_idx + 1, "point", "points");
+        self.apply_edit(format!("Set heart rate of {} to {} bpm", points, bpm), |editor| {
+            heart_rate::set_heart_rate(&mut editor.database, start_idx, end_idx, Some(bpm));
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Repair trackpoints by index, either deleting them or interpolating
+    /// their position between the neighbouring good points. `DistanceMeters`
+    /// is recomputed around the repaired points.
+    #[wasm_bindgen(js_name = repairGlitches)]
+    pub fn repair_glitches(&mut self, indices: Vec<u32>, interpolate: bool) -> Result<(), JsValue> {
+        let total_count = self.get_trackpoint_count();
+        if indices.is_empty() {
+            return Err(JsValue::from_str("No trackpoints to repair"));
+        }
+        if let Some(&idx) = indices.iter().find(|&&idx| idx as usize >= total_count) {
+            return Err(JsValue::from_str(&format!(
+                "Invalid index: {} >= total ({})",
+                idx, total_count
+            )));
+        }
+        if !interpolate && indices.len() >= total_count {
+            return Err(JsValue::from_str("Cannot delete every trackpoint"));
+        }
+
+        let action = if interpolate { "Interpolate" } else { "Delete" };
+        let glitches = count_of(indices.len(), "GPS glitch", "GPS glitches");
+        self.apply_edit(format!("{} {}", action, glitches), |editor| {
+            glitch::repair_glitches(&mut editor.database, &indices, interpolate);
+
+            for activity in &mut editor.database.activities.activity {
+                activity
+                    .laps
+                    .retain(|l| l.track.as_ref().map_or(false, |t| !t.trackpoints.is_empty()));
+            }
+            editor.database.activities.activity.retain(|a| !a.laps.is_empty());
+
+            editor.recalculate_lap_stats();
+            Ok(())
+        })
+    }
+
+    /// Export the (possibly modified) TCX as XML string
+    #[wasm_bindgen(js_name = toXml)]
+    pub fn to_xml(&self) -> Result<String, JsValue> {
+        let xml = to_string_with_root("TrainingCenterDatabase", &self.database)
+            .map_err(|e| JsValue::from_str(&format!("Failed to serialize TCX: {}", e)))?;
+
+        // Add XML declaration
+        let full_xml = format!(
+            "<?xml version=\"1.0\" encoding=\"UTF-8\" standalone=\"yes\"?>\n{}",
+            xml
+        );
+        Ok(full_xml)
+    }
+
+    /// Export the (possibly modified) activity as a GPX 1.1 string
+    #[wasm_bindgen(js_name = toGpx)]
+    pub fn to_gpx(&self) -> Result<String, JsValue> {
+        gpx::to_gpx(&self.database)
+            .map_err(|e| JsValue::from_str(&format!("Failed to serialize GPX: {}", e)))
+    }
+
+    /// Export the (possibly modified) activity as a binary FIT file
+    #[wasm_bindgen(js_name = toFit)]
+    pub fn to_fit(&self) -> Result<Vec<u8>, JsValue> {
+        fit::to_fit(&self.database)
+            .map_err(|e| JsValue::from_str(&format!("Failed to serialize FIT: {}", e)))
+    }
+
+    /// Get the number of trackpoints
+    #[wasm_bindgen(js_name = getTrackpointCount)]
+    pub fn get_trackpoint_count(&self) -> usize {
+        self.database
+            .activities
+            .activity
+            .iter()
+            .flat_map(|a| &a.laps)
+            .filter_map(|l| l.track.as_ref())
+            .map(|t| t.trackpoints.len())
+            .sum()
+    }
+
+    /// Reset to original state. The reset itself can be undone.
+    #[wasm_bindgen]
+    pub fn reset(&mut self) -> Result<(), JsValue> {
+        self.apply_edit("Reset to original", |editor| {
+            editor.database = editor.original.clone();
+            Ok(())
+        })
+    }
+
+    /// Restore the state before the last edit. Returns false if there is
+    /// nothing to undo.
+    #[wasm_bindgen]
+    pub fn undo(&mut self) -> bool {
+        self.history.undo(&mut self.database)
+    }
+
+    /// Re-apply the last undone edit. Returns false if there is nothing to redo.
+    #[wasm_bindgen]
+    pub fn redo(&mut self) -> bool {
+        self.history.redo(&mut self.database)
+    }
+
+    /// The edits that can be undone and redone, for the history list
+    #[wasm_bindgen(js_name = getHistory)]
+    pub fn get_history(&self) -> Result<JsValue, JsValue> {
+        serde_wasm_bindgen::to_value(&self.history.entries())
+            .map_err(|e| JsValue::from_str(&format!("Serialization error: {}", e)))
+    }
+}
+
+impl TcxEditor {
+    fn from_database(mut database: TrainingCenterDatabase) -> TcxEditor {
+        calories::set_baselines(&mut database);
+        TcxEditor {
+            original: database.clone(),
+            database,
+            history: history::History::default(),
+            merge_info: None,
+            gain_method: elevation::GainMethod::default(),
+            stop_detection: stops::StopDetection::default(),
+            hr_detection: heart_rate::ArtifactDetection::default(),
+        }
+    }
+
+    /// Check that `start_idx..=end_idx` is a range of existing trackpoints
+    fn check_range(&self, start_idx: usize, end_idx: usize) -> Result<(), JsValue> {
+        if start_idx > end_idx {
+            return Err(JsValue::from_str(&format!(
+                "Invalid indices: start ({}) > end ({})",
+                start_idx, end_idx
+            )));
+        }
+
+        let total_count = self.get_trackpoint_count();
+        if end_idx >= total_count {
+            return Err(JsValue::from_str(&format!(
+                "Invalid indices: end ({}) >= total ({})",
+                end_idx, total_count
+            )));
+        }
+        Ok(())
+    }
+
+    /// Run an edit, recording the previous state for undo under `label`. A
+    /// failed edit leaves the database untouched.
+    fn apply_edit(
+        &mut self,
+        label: impl Into<String>,
+        edit: impl FnOnce(&mut Self) -> Result<(), JsValue>,
+    ) -> Result<(), JsValue> {
+        let before = self.database.clone();
+
+        match edit(self) {
+            Ok(()) => {
+                self.history.record(label.into(), before);
+                Ok(())
+            }
+            Err(e) => {
+                self.database = before;
+                Err(e)
+            }
+        }
+    }
+
+    fn trim_range(&mut self, start_idx: usize, end_idx: usize) -> Result<(), JsValue> {
+        let total_count = self.get_trackpoint_count();
+
+        if start_idx > end_idx {
+            return Err(JsValue::from_str(&format!(
+                "Invalid indices: start ({}) > end ({})",
+                start_idx, end_idx
+            )));
+        }
+
+        if end_idx >= total_count {
+            return Err(JsValue::from_str(&format!(
+                "Invalid indices: end ({}) >= total ({})",
+                end_idx, total_count
+            )));
+        }
+
+        // Walk the laps in order, keeping every lap that overlaps the selected
+        // range and clipping the trackpoints of the first and last ones
+        let mut offset = 0;
+        for activity in &mut self.database.activities.activity {
+            let laps = std::mem::take(&mut activity.laps);
+
+            for mut lap in laps {
+                let count = lap.track.as_ref().map_or(0, |t| t.trackpoints.len());
+                let lap_start = offset;
+                offset += count;
+
+                // Drop laps that fall fully outside the range
+                if count == 0 || lap_start + count <= start_idx || lap_start > end_idx {
+                    continue;
+                }
+
+                let from = start_idx.saturating_sub(lap_start);
+                let to = (end_idx - lap_start).min(count - 1);
+
+                if let Some(ref mut track) = lap.track {
+                    track.trackpoints.truncate(to + 1);
+                    track.trackpoints.drain(..from);
+                }
+
+                activity.laps.push(lap);
+            }
+        }
+
+        // An activity needs at least one lap to be valid TCX
+        self.database.activities.activity.retain(|a| !a.laps.is_empty());
+
+        self.recalculate_lap_stats();
+        Ok(())
+    }
+
+    fn cut(
+        &mut self,
+        start_idx: usize,
+        end_idx: usize,
+        shift_time: bool,
+        rebase_distance: bool,
+    ) -> Result<(), JsValue> {
+        let total_count = self.get_trackpoint_count();
+
+        if start_idx > end_idx {
+            return Err(JsValue::from_str(&format!(
+                "Invalid indices: start ({}) > end ({})",
+                start_idx, end_idx
+            )));
+        }
+
+        if end_idx >= total_count {
+            return Err(JsValue::from_str(&format!(
+                "Invalid indices: end ({}) >= total ({})",
+                end_idx, total_count
+            )));
+        }
+
+        if start_idx == 0 && end_idx == total_count - 1 {
+            return Err(JsValue::from_str("Cannot cut every trackpoint"));
+        }
+
+        // The first point after the cut takes over the time and distance of
+        // the first removed point, so the gap shrinks to a single sample
+        let (time_offset, distance_offset) = {
+            let points: Vec<&Trackpoint> = self.trackpoints().collect();
+            match points.get(end_idx + 1) {
+                Some(next) => {
+                    let first = points[start_idx];
+                    let time_offset = match (parse_timestamp(&first.time), parse_timestamp(&next.time)) {
+                        (Some(start), Some(end)) => end.signed_duration_since(start),
+                        _ => Duration::zero(),
+                    };
+                    let distance_offset = match (first.distance_meters, next.distance_meters) {
+                        (Some(start), Some(end)) => end - start,
+                        _ => 0.0,
+                    };
+                    (time_offset, distance_offset)
+                }
+                None => (Duration::zero(), 0.0),
+            }
+        };
+
+        let mut idx = 0;
+        for activity in &mut self.database.activities.activity {
+            for lap in &mut activity.laps {
+                if let Some(ref mut track) = lap.track {
+                    let points = std::mem::take(&mut track.trackpoints);
+                    for mut tp in points {
+                        let current = idx;
+                        idx += 1;
+
+                        if current >= start_idx && current <= end_idx {
+                            continue;
+                        }
+
+                        if current > end_idx {
+                            if shift_time {
+                                if let Some(shifted) = shift_timestamp(&tp.time, -time_offset) {
+                                    tp.time = shifted;
+                                }
+                            }
+                            if rebase_distance {
+                                if let Some(ref mut distance) = tp.distance_meters {
+                                    *distance -= distance_offset;
+                                }
+                            }
+                        }
+
+                        track.trackpoints.push(tp);
+                    }
+                }
+            }
+
+            activity
+                .laps
+                .retain(|l| l.track.as_ref().map_or(false, |t| !t.trackpoints.is_empty()));
+        }
+
+        self.database.activities.activity.retain(|a| !a.laps.is_empty());
+
+        self.recalculate_lap_stats();
+        Ok(())
+    }
+
+    /// Shift `DistanceMeters` so the first trackpoint with a distance is at zero
+    fn rebase_distance(&mut self) {
+        let Some(start) = self.trackpoints().find_map(|tp| tp.distance_meters) else {
+            return;
+        };
+
+        for activity in &mut self.database.activities.activity {
+            for lap in &mut activity.laps {
+                if let Some(ref mut track) = lap.track {
+                    for tp in &mut track.trackpoints {
+                        if let Some(ref mut distance) = tp.distance_meters {
+                            *distance -= start;
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    fn trackpoints(&self) -> impl Iterator<Item = &Trackpoint> {
+        self.database
+            .activities
+            .activity
+            .iter()
+            .flat_map(|a| &a.laps)
+            .filter_map(|l| l.track.as_ref())
+            .flat_map(|t| &t.trackpoints)
+    }
+
+    fn collect_trackpoints(&self) -> Vec<JsTrackpoint> {
+        self.database
+            .activities
+            .activity
+            .iter()
+            .flat_map(|a| &a.laps)
+            .enumerate()
+            .filter_map(|(lap_index, l)| l.track.as_ref().map(|t| (lap_index, t)))
+            .flat_map(|(lap_index, t)| t.trackpoints.iter().map(move |tp| (lap_index, tp)))
+            .map(|(lap_index, tp)| {
+                let timestamp_ms = parse_timestamp(&tp.time)
+                    .map(|dt| dt.timestamp_millis() as f64)
+                    .unwrap_or(0.0);
+
+                JsTrackpoint {
+                    time: tp.time.clone(),
+                    timestamp_ms,
                     latitude: tp.position.as_ref().map(|p| p.latitude_degrees),
                     longitude: tp.position.as_ref().map(|p| p.longitude_degrees),
                     altitude_meters: tp.altitude_meters,
                     distance_meters: tp.distance_meters,
                     heart_rate: tp.heart_rate_bpm.as_ref().map(|h| h.value),
                     cadence: tp.cadence,
+                    speed: tp.tpx_value("Speed").and_then(|v| v.trim().parse().ok()),
+                    power: tp.tpx_value("Watts").and_then(|v| v.trim().parse().ok()),
+                    lap_index: lap_index as u32,
                 }
             })
             .collect()
     }
 
+    fn summarize_activities(&self) -> Vec<JsActivitySummary> {
+        self.database
+            .activities
+            .activity
+            .iter()
+            .map(|activity| JsActivitySummary {
+                sport: activity.sport.clone(),
+                start_time: activity.id.clone(),
+                notes: activity.notes.clone(),
+                total_time_seconds: activity.laps.iter().map(|l| l.total_time_seconds).sum(),
+                distance_meters: activity.laps.iter().map(|l| l.distance_meters).sum(),
+                lap_count: activity.laps.len() as u32,
+                trackpoint_count: activity
+                    .laps
+                    .iter()
+                    .filter_map(|l| l.track.as_ref())
+                    .map(|t| t.trackpoints.len() as u32)
+                    .sum(),
+            })
+            .collect()
+    }
+
     fn calculate_stats(&self) -> JsActivityStats {
         let activity = self.database.activities.activity.first();
 
@@ -304,6 +1604,8 @@ impl TcxEditor {
             .map(|l| l.total_time_seconds)
             .sum();
 
+        let moving_time_seconds = stops::moving_time(&self.database, self.stop_detection);
+
         let total_distance_meters: f64 = self.database.activities.activity
             .iter()
             .flat_map(|a| &a.laps)
@@ -341,21 +1643,18 @@ impl TcxEditor {
             .collect();
 
         let (elevation_gain, elevation_loss) = if altitudes.len() > 1 {
-            let mut gain = 0.0;
-            let mut loss = 0.0;
-            for i in 1..altitudes.len() {
-                let diff = altitudes[i] - altitudes[i - 1];
-                if diff > 0.0 {
-                    gain += diff;
-                } else {
-                    loss += diff.abs();
-                }
-            }
+            let (gain, loss) = elevation::gain_and_loss(&altitudes, self.gain_method);
             (Some(gain), Some(loss))
         } else {
             (None, None)
         };
 
+        let (elevation_threshold, elevation_window) = match self.gain_method {
+            elevation::GainMethod::Raw => (None, None),
+            elevation::GainMethod::Hysteresis { threshold } => (Some(threshold), None),
+            elevation::GainMethod::Smoothed { window } => (None, Some(window as u32)),
+        };
+
         let max_altitude = altitudes.iter().cloned().reduce(f64::max);
         let min_altitude = altitudes.iter().cloned().reduce(f64::min);
 
@@ -363,20 +1662,27 @@ impl TcxEditor {
             sport,
             start_time,
             total_time_seconds,
+            moving_time_seconds,
             total_distance_meters,
             total_calories,
+            calorie_method: self.database.calorie_method.name().to_string(),
             trackpoint_count,
             avg_heart_rate,
             max_heart_rate,
             min_heart_rate,
             elevation_gain,
             elevation_loss,
+            elevation_method: self.gain_method.name().to_string(),
+            elevation_threshold,
+            elevation_window,
             max_altitude,
             min_altitude,
+            pause_seconds: calories::pause_seconds(&self.database),
         }
     }
 
     fn recalculate_lap_stats(&mut self) {
+        let calorie_method = self.database.calorie_method;
         for activity in &mut self.database.activities.activity {
             for lap in &mut activity.laps {
                 if let Some(ref track) = lap.track {
@@ -388,9 +1694,10 @@ impl TcxEditor {
                         continue;
                     }
 
-                    // Update start time
+                    // Update start time, written the way the lap's own was
                     if let Some(first) = trackpoints.first() {
-                        lap.start_time = first.time.clone();
+                        lap.start_time = clock::restyle_timestamp(&first.time, &lap.start_time)
+                            .unwrap_or_else(|| first.time.clone());
                     }
 
                     // Calculate total time from first to last trackpoint
@@ -411,21 +1718,51 @@ impl TcxEditor {
                         lap.distance_meters = end_dist - start_dist;
                     }
 
-                    // Recalculate calories proportionally (rough estimate)
-                    // This is a simplification - real calorie calculation is complex
+                    // Refresh the heart rate summary, if the lap has one
+                    let heart_rates: Vec<u32> = trackpoints
+                        .iter()
+                        .filter_map(|tp| tp.heart_rate_bpm.as_ref().map(|h| h.value))
+                        .collect();
+                    if !heart_rates.is_empty() {
+                        if let Some(ref mut average) = lap.average_heart_rate_bpm {
+                            let sum: u32 = heart_rates.iter().sum();
+                            average.value = (sum as f64 / heart_rates.len() as f64).round() as u32;
+                        }
+                        if let Some(ref mut maximum) = lap.maximum_heart_rate_bpm {
+                            maximum.value = heart_rates.iter().copied().max().unwrap_or(maximum.value);
+                        }
+                    }
+
+                    lap.calories = calories::lap_calories(lap, calorie_method);
                 }
             }
 
             // Update activity ID to match new start time
             if let Some(first_lap) = activity.laps.first() {
-                activity.id = first_lap.start_time.clone();
+                activity.id = clock::restyle_timestamp(&first_lap.start_time, &activity.id)
+                    .unwrap_or_else(|| first_lap.start_time.clone());
             }
         }
     }
 }
 
-fn parse_timestamp(time_str: &str) -> Option<DateTime<FixedOffset>> {
-    DateTime::parse_from_rfc3339(time_str).ok()
+/// `count` with the noun that goes with it, for history labels
+fn count_of(count: usize, singular: &str, plural: &str) -> String {
+    format!("{} {}", count, if count == 1 { singular } else { plural })
+}
+
+/// Parse a TCX document, keeping the namespace prefixes of content the
+/// editor doesn't model
+fn parse_database(xml_content: &str) -> Result<TrainingCenterDatabase, JsValue> {
+    let info = xml::scan_document(xml_content)
+        .map_err(|e| JsValue::from_str(&format!("Failed to parse TCX: {}", e)))?;
+
+    let mut database: TrainingCenterDatabase =
+        xml::with_document_info(&info, || from_str(xml_content))
+            .map_err(|e| JsValue::from_str(&format!("Failed to parse TCX: {}", e)))?;
+    database.attributes = info.root_attributes;
+
+    Ok(database)
 }
 
 #[cfg(test)]
@@ -474,9 +1811,1124 @@ mod tests {
     </Activities>
 </TrainingCenterDatabase>"#;
 
+    const GARMIN_TCX: &str = r#"<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd" xmlns:ns5="http://www.garmin.com/xmlschemas/ActivityGoals/v1" xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2" xmlns:ns2="http://www.garmin.com/xmlschemas/UserProfile/v2" xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:ns4="http://www.garmin.com/xmlschemas/ProfileExtension/v1">
+  <Activities>
+    <Activity Sport="Biking">
+      <Id>2025-06-01T07:00:00.000Z</Id>
+      <Lap StartTime="2025-06-01T07:00:00.000Z">
+        <TotalTimeSeconds>3.0</TotalTimeSeconds>
+        <DistanceMeters>24.0</DistanceMeters>
+        <MaximumSpeed>8.5</MaximumSpeed>
+        <Calories>12</Calories>
+        <AverageHeartRateBpm>
+          <Value>121</Value>
+        </AverageHeartRateBpm>
+        <MaximumHeartRateBpm>
+          <Value>124</Value>
+        </MaximumHeartRateBpm>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>Manual</TriggerMethod>
+        <Track>
+          <Trackpoint>
+            <Time>2025-06-01T07:00:00.000Z</Time>
+            <DistanceMeters>0.0</DistanceMeters>
+            <HeartRateBpm>
+              <Value>118</Value>
+            </HeartRateBpm>
+            <Extensions>
+              <ns3:TPX>
+                <ns3:Speed>7.5</ns3:Speed>
+                <ns3:Watts>180</ns3:Watts>
+              </ns3:TPX>
+            </Extensions>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2025-06-01T07:00:01.000Z</Time>
+            <DistanceMeters>8.0</DistanceMeters>
+            <HeartRateBpm>
+              <Value>120</Value>
+            </HeartRateBpm>
+            <Extensions>
+              <ns3:TPX>
+                <ns3:Speed>8.0</ns3:Speed>
+                <ns3:Watts>210</ns3:Watts>
+              </ns3:TPX>
+            </Extensions>
+          </Trackpoint>
+          <Trackpoint>
+            <Time>2025-06-01T07:00:02.000Z</Time>
+            <DistanceMeters>16.0</DistanceMeters>
+            <HeartRateBpm>
+              <Value>124</Value>
+            </HeartRateBpm>
+            <Extensions>
+              <ns3:TPX>
+                <ns3:Speed>8.5</ns3:Speed>
+                <ns3:Watts>230</ns3:Watts>
+              </ns3:TPX>
+            </Extensions>
+          </Trackpoint>
+        </Track>
+        <Extensions>
+          <ns3:LX>
+            <ns3:AvgSpeed>8.0</ns3:AvgSpeed>
+            <ns3:AvgWatts>206</ns3:AvgWatts>
+          </ns3:LX>
+        </Extensions>
+      </Lap>
+      <Creator xsi:type="Device_t">
+        <Name>Edge 530</Name>
+        <UnitId>3312345678</UnitId>
+        <ProductID>3121</ProductID>
+        <Version>
+          <VersionMajor>9</VersionMajor>
+          <VersionMinor>75</VersionMinor>
+        </Version>
+      </Creator>
+    </Activity>
+  </Activities>
+  <Author xsi:type="Application_t">
+    <Name>Connect Api</Name>
+    <Build>
+      <Version>
+        <VersionMajor>0</VersionMajor>
+        <VersionMinor>0</VersionMinor>
+      </Version>
+    </Build>
+    <LangID>en</LangID>
+    <PartNumber>006-D2449-00</PartNumber>
+  </Author>
+</TrainingCenterDatabase>"#;
+
+    /// Build a single-activity TCX with one lap per entry in `laps`, each
+    /// holding that many trackpoints spaced one second and five metres apart
+    fn build_tcx(laps: &[usize]) -> String {
+        let mut body = String::new();
+        let mut n = 0;
+        for &count in laps {
+            body.push_str(&format!(
+                "<Lap StartTime=\"2025-12-07T08:00:{:02}Z\"><TotalTimeSeconds>0</TotalTimeSeconds>\
+                 <DistanceMeters>0</DistanceMeters><Calories>10</Calories><Intensity>Active</Intensity>\
+                 <TriggerMethod>Manual</TriggerMethod><Track>",
+                n
+            ));
+            for _ in 0..count {
+                body.push_str(&format!(
+                    "<Trackpoint><Time>2025-12-07T08:00:{:02}Z</Time>\
+                     <DistanceMeters>{}</DistanceMeters></Trackpoint>",
+                    n,
+                    n * 5
+                ));
+                n += 1;
+            }
+            body.push_str("</Track></Lap>");
+        }
+        format!(
+            "<TrainingCenterDatabase><Activities><Activity Sport=\"Running\">\
+             <Id>2025-12-07T08:00:00Z</Id>{}</Activity></Activities></TrainingCenterDatabase>",
+            body
+        )
+    }
+
     #[test]
     fn test_parse_tcx() {
         let editor = TcxEditor::new(SAMPLE_TCX).unwrap();
         assert_eq!(editor.get_trackpoint_count(), 2);
     }
+
+    #[test]
+    fn test_trim_keeps_overlapping_laps() {
+        let mut editor = TcxEditor::new(&build_tcx(&[4, 4, 4, 4])).unwrap();
+        editor.trim_by_indices(6, 9).unwrap();
+
+        let laps = &editor.database.activities.activity[0].laps;
+        assert_eq!(laps.len(), 2);
+        assert_eq!(laps[0].start_time, "2025-12-07T08:00:06Z");
+        assert_eq!(laps[0].total_time_seconds, 1.0);
+        assert_eq!(laps[0].distance_meters, 5.0);
+        assert_eq!(laps[1].start_time, "2025-12-07T08:00:08Z");
+        assert_eq!(laps[1].distance_meters, 5.0);
+
+        let lap_indices: Vec<u32> = editor.collect_trackpoints().iter().map(|tp| tp.lap_index).collect();
+        assert_eq!(lap_indices, vec![0, 0, 1, 1]);
+    }
+
+    #[test]
+    fn test_cut_range_closes_gap() {
+        let mut editor = TcxEditor::new(&build_tcx(&[4, 4])).unwrap();
+        editor.cut_range(2, 5, true, true).unwrap();
+
+        let points = editor.collect_trackpoints();
+        assert_eq!(points.len(), 4);
+        assert_eq!(points[2].time, "2025-12-07T08:00:02Z");
+        assert_eq!(points[2].distance_meters, Some(10.0));
+        assert_eq!(points[3].distance_meters, Some(15.0));
+        assert_eq!(editor.database.activities.activity[0].laps.len(), 2);
+    }
+
+    #[test]
+    fn test_cut_range_without_shift_keeps_values() {
+        let mut editor = TcxEditor::new(&build_tcx(&[8])).unwrap();
+        editor.cut_range(2, 5, false, false).unwrap();
+
+        let points = editor.collect_trackpoints();
+        assert_eq!(points[2].time, "2025-12-07T08:00:06Z");
+        assert_eq!(points[2].distance_meters, Some(30.0));
+        assert!(editor.cut_range(0, 3, false, false).is_err());
+    }
+
+    #[test]
+    fn test_extensions_survive_round_trip() {
+        let mut editor = TcxEditor::new(GARMIN_TCX).unwrap();
+        let points = editor.collect_trackpoints();
+        assert_eq!(points[1].speed, Some(8.0));
+        assert_eq!(points[1].power, Some(210));
+
+        editor.trim_by_indices(1, 2).unwrap();
+        let xml = editor.to_xml().unwrap();
+
+        assert!(xml.contains(r#"xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2""#));
+        assert!(xml.contains(r#"xsi:schemaLocation="#));
+        assert!(xml.contains("<ns3:TPX><ns3:Speed>8.0</ns3:Speed><ns3:Watts>210</ns3:Watts></ns3:TPX>"));
+        assert!(xml.contains("<ns3:LX><ns3:AvgSpeed>8.0</ns3:AvgSpeed>"));
+        assert!(xml.contains("<MaximumSpeed>8.5</MaximumSpeed>"));
+        assert!(xml.contains("<AverageHeartRateBpm><Value>122</Value></AverageHeartRateBpm>"));
+        assert!(xml.contains(r#"<Creator xsi:type="Device_t"><Name>Edge 530</Name>"#));
+        assert!(xml.contains(r#"<Author xsi:type="Application_t"><Name>Connect Api</Name>"#));
+        assert!(!xml.contains("<Position/>"));
+
+        // The exported document parses back to the same data
+        let reparsed = TcxEditor::new(&xml).unwrap();
+        let points = reparsed.collect_trackpoints();
+        assert_eq!(points.len(), 2);
+        assert_eq!(points[1].speed, Some(8.5));
+        assert_eq!(points[1].power, Some(230));
+        assert_eq!(reparsed.to_xml().unwrap(), xml);
+    }
+
+    #[test]
+    fn test_prefixes_stay_with_their_element() {
+        // An extension in another namespace that reuses the Creator's names
+        let device = "<Extensions><ns5:Device><ns5:Name>Sensor</ns5:Name>\
+            <ns5:Version>2</ns5:Version></ns5:Device></Extensions>";
+        let tcx = GARMIN_TCX.replace("      </Creator>\n", &format!("      </Creator>\n{}\n", device));
+        let editor = TcxEditor::new(&tcx).unwrap();
+        let xml = editor.to_xml().unwrap();
+
+        assert!(xml.contains(r#"<Creator xsi:type="Device_t"><Name>Edge 530</Name>"#));
+        assert!(xml.contains("<Version><VersionMajor>9</VersionMajor>"));
+        assert!(xml.contains(r#"<Author xsi:type="Application_t"><Name>Connect Api</Name>"#));
+        assert!(xml.contains(
+            "<ns5:Device><ns5:Name>Sensor</ns5:Name><ns5:Version>2</ns5:Version></ns5:Device>"
+        ));
+        assert_eq!(TcxEditor::new(&xml).unwrap().to_xml().unwrap(), xml);
+    }
+
+    #[test]
+    fn test_trackpoint_columns_match_trackpoints() {
+        let editor = TcxEditor::new(GARMIN_TCX).unwrap();
+        let columns = editor.get_trackpoint_columns();
+
+        assert_eq!(columns.timestamp_ms[1], 1748761201000.0);
+        assert_eq!(columns.distance_meters, vec![0.0, 8.0, 16.0]);
+        assert_eq!(columns.heart_rate, vec![118.0, 120.0, 124.0]);
+        assert_eq!(columns.speed[2], 8.5);
+        assert_eq!(columns.power[0], 180.0);
+        assert_eq!(columns.lap_index.len(), 3);
+        // No positions or altitudes were recorded
+        assert!(columns.latitude.iter().all(|value| value.is_nan()));
+        assert!(columns.altitude_meters.iter().all(|value| value.is_nan()));
+
+        let editor = TcxEditor::new(SAMPLE_TCX).unwrap();
+        let columns = editor.get_trackpoint_columns();
+        for (idx, tp) in editor.collect_trackpoints().iter().enumerate() {
+            assert_eq!(columns.timestamp_ms[idx], tp.timestamp_ms);
+            assert_eq!(Some(columns.latitude[idx]), tp.latitude);
+            assert_eq!(Some(columns.altitude_meters[idx]), tp.altitude_meters);
+            assert_eq!(Some(columns.heart_rate[idx] as u32), tp.heart_rate);
+        }
+    }
+
+    #[test]
+    fn test_large_activity_loads_and_trims() {
+        let start = parse_timestamp("2025-06-01T05:00:00Z").unwrap();
+        let mut body = String::new();
+        for n in 0..100_000 {
+            let time = (start + Duration::seconds(n)).format("%Y-%m-%dT%H:%M:%SZ");
+            body.push_str(&format!(
+                "<Trackpoint><Time>{}</Time><Position><LatitudeDegrees>{}</LatitudeDegrees>\
+                 <LongitudeDegrees>9.0</LongitudeDegrees></Position><DistanceMeters>{}</DistanceMeters>\
+                 <HeartRateBpm><Value>140</Value></HeartRateBpm></Trackpoint>",
+                time,
+                45.0 + n as f64 * 0.00003,
+                n * 3
+            ));
+        }
+        let xml = format!(
+            "<TrainingCenterDatabase><Activities><Activity Sport=\"Running\">\
+             <Id>2025-06-01T05:00:00Z</Id><Lap StartTime=\"2025-06-01T05:00:00Z\">\
+             <TotalTimeSeconds>0</TotalTimeSeconds><DistanceMeters>0</DistanceMeters>\
+             <Calories>0</Calories><Intensity>Active</Intensity><TriggerMethod>Manual</TriggerMethod>\
+             <Track>{}</Track></Lap></Activity></Activities></TrainingCenterDatabase>",
+            body
+        );
+
+        let mut editor = TcxEditor::new(&xml).unwrap();
+        assert_eq!(editor.get_trackpoint_columns().timestamp_ms.len(), 100_000);
+
+        editor.trim_by_indices(25_000, 74_999).unwrap();
+        let columns = editor.get_trackpoint_columns();
+        assert_eq!(columns.timestamp_ms.len(), 50_000);
+        assert_eq!(columns.distance_meters[0], 75_000.0);
+        assert_eq!(editor.calculate_stats().total_time_seconds, 49_999.0);
+    }
+
+    #[test]
+    fn test_gpx_import_and_export() {
+        let gpx = r#"<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="StravaGPX" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">
+  <trk>
+    <name>Morning Run</name>
+    <type>running</type>
+    <trkseg>
+      <trkpt lat="45.0" lon="9.0">
+        <ele>200.0</ele>
+        <time>2025-06-01T07:00:00Z</time>
+        <extensions>
+          <gpxtpx:TrackPointExtension>
+            <gpxtpx:hr>130</gpxtpx:hr>
+            <gpxtpx:cad>85</gpxtpx:cad>
+          </gpxtpx:TrackPointExtension>
+        </extensions>
+      </trkpt>
+      <trkpt lat="45.001" lon="9.0">
+        <ele>201.0</ele>
+        <time>2025-06-01T07:00:30Z</time>
+      </trkpt>
+    </trkseg>
+  </trk>
+</gpx>"#;
+
+        let editor = TcxEditor::from_gpx(gpx).unwrap();
+        let points = editor.collect_trackpoints();
+        assert_eq!(points.len(), 2);
+        assert_eq!(points[0].heart_rate, Some(130));
+        assert_eq!(points[0].cadence, Some(85));
+        assert!((points[1].distance_meters.unwrap() - 111.2).abs() < 0.1);
+
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.sport, "Running");
+        assert_eq!(stats.total_time_seconds, 30.0);
+
+        let exported = editor.to_gpx().unwrap();
+        assert!(exported.contains(r#"<trkpt lat="45" lon="9">"#));
+        assert!(exported.contains("<gpxtpx:TrackPointExtension><gpxtpx:hr>130</gpxtpx:hr><gpxtpx:cad>85</gpxtpx:cad>"));
+        assert_eq!(TcxEditor::from_gpx(&exported).unwrap().get_trackpoint_count(), 2);
+    }
+
+    #[test]
+    fn test_fit_round_trip() {
+        let editor = TcxEditor::new(GARMIN_TCX).unwrap();
+        let data = editor.to_fit().unwrap();
+        assert_eq!(&data[8..12], b".FIT");
+
+        let decoded = TcxEditor::from_fit(&data).unwrap();
+        let original = editor.collect_trackpoints();
+        let points = decoded.collect_trackpoints();
+        assert_eq!(points.len(), original.len());
+        assert_eq!(points[1].time, "2025-06-01T07:00:01Z");
+        assert_eq!(points[1].heart_rate, Some(120));
+        assert_eq!(points[1].distance_meters, Some(8.0));
+        assert_eq!(points[1].speed, Some(8.0));
+        assert_eq!(points[1].power, Some(210));
+
+        let stats = decoded.calculate_stats();
+        assert_eq!(stats.sport, "Biking");
+        assert_eq!(stats.total_calories, 12);
+        assert!(decoded.to_xml().unwrap().contains("<ns3:TPX><ns3:Speed>8</ns3:Speed>"));
+    }
+
+    #[test]
+    fn test_undo_redo_history() {
+        let mut editor = TcxEditor::new(&build_tcx(&[10])).unwrap();
+        editor.trim_by_indices(2, 9).unwrap();
+        editor.cut_range(0, 1, true, true).unwrap();
+        assert_eq!(editor.get_trackpoint_count(), 6);
+
+        // A failed edit is not recorded and changes nothing
+        assert!(editor.trim_by_indices(3, 20).is_err());
+        assert_eq!(editor.get_trackpoint_count(), 6);
+
+        assert!(editor.undo());
+        assert_eq!(editor.get_trackpoint_count(), 8);
+        assert!(editor.undo());
+        assert_eq!(editor.get_trackpoint_count(), 10);
+        assert!(!editor.undo());
+
+        assert!(editor.redo());
+        assert_eq!(editor.get_trackpoint_count(), 8);
+
+        // A new edit drops the undone future
+        editor.reset().unwrap();
+        assert_eq!(editor.get_trackpoint_count(), 10);
+        assert!(!editor.redo());
+        assert!(editor.undo());
+        assert_eq!(editor.get_trackpoint_count(), 8);
+
+        let history = editor.history.entries();
+        let labels: Vec<&str> = history.entries.iter().map(|e| e.label.as_str()).collect();
+        assert_eq!(labels, ["Trim to points 2–9", "Reset to original"]);
+        assert_eq!(history.position, 1);
+    }
+
+    #[test]
+    fn test_history_drops_oldest_edits() {
+        let mut editor = TcxEditor::new(&build_tcx(&[10])).unwrap();
+        for bpm in 100..160 {
+            editor.set_heart_rate(0, 0, bpm).unwrap();
+        }
+
+        let history = editor.history.entries();
+        assert_eq!(history.position, 50);
+        assert_eq!(history.entries[0].label, "Set heart rate of 1 point to 110 bpm");
+        while editor.undo() {}
+        assert_eq!(editor.collect_trackpoints()[0].heart_rate, Some(109));
+    }
+
+    #[test]
+    fn test_merge_orders_files_and_rebases_distance() {
+        let early = TcxEditor::new(&build_tcx(&[3])).unwrap();
+        let late = TcxEditor::new(&build_tcx(&[2, 2]).replace("T08:", "T09:")).unwrap();
+        let overlapping = TcxEditor::new(&build_tcx(&[2]).replace("T08:", "T09:")).unwrap();
+
+        let merged = TcxEditor::merge(vec![late, early]).unwrap();
+        let laps = &merged.database.activities.activity[0].laps;
+        assert_eq!(laps.len(), 3);
+        assert_eq!(merged.database.activities.activity[0].id, "2025-12-07T08:00:00Z");
+
+        let distances: Vec<Option<f64>> =
+            merged.collect_trackpoints().iter().map(|tp| tp.distance_meters).collect();
+        let expected = [0.0, 5.0, 10.0, 10.0, 15.0, 20.0, 25.0];
+        assert_eq!(distances, expected.iter().map(|d| Some(*d)).collect::<Vec<_>>());
+
+        let info = merged.merge_info.as_ref().unwrap();
+        let order: Vec<u32> = info.sources.iter().map(|s| s.index).collect();
+        assert_eq!(order, vec![1, 0]);
+        assert!(info.overlaps.is_empty());
+
+        let late = TcxEditor::new(&build_tcx(&[4]).replace("T08:", "T09:")).unwrap();
+        let merged = TcxEditor::merge(vec![late, overlapping]).unwrap();
+        let overlaps = &merged.merge_info.as_ref().unwrap().overlaps;
+        assert_eq!(overlaps.len(), 1);
+        assert_eq!(overlaps[0].overlap_seconds, 1.0);
+    }
+
+    #[test]
+    fn test_merge_reports_files_inside_an_earlier_one() {
+        // A runs 08:00 to 08:10 and holds both B and C, which don't overlap
+        let a = TcxEditor::new(&build_tcx(&[2]).replace("T08:00:01Z", "T08:10:00Z")).unwrap();
+        let b = TcxEditor::new(&build_tcx(&[2]).replace("T08:00:", "T08:01:")).unwrap();
+        let c = TcxEditor::new(&build_tcx(&[2]).replace("T08:00:", "T08:05:")).unwrap();
+
+        let merged = TcxEditor::merge(vec![c, a, b]).unwrap();
+        let overlaps: Vec<(u32, u32, f64)> = merged
+            .merge_info
+            .as_ref()
+            .unwrap()
+            .overlaps
+            .iter()
+            .map(|o| (o.first, o.second, o.overlap_seconds))
+            .collect();
+        assert_eq!(overlaps, vec![(1, 2, 1.0), (1, 0, 1.0)]);
+    }
+
+    #[test]
+    fn test_split_at_creates_independent_parts() {
+        let editor = TcxEditor::new(&build_tcx(&[3, 3])).unwrap();
+
+        let parts = editor.split_at(vec![4, 2, 2, 0, 99]).unwrap();
+        assert_eq!(parts.len(), 3);
+
+        let counts: Vec<usize> = parts.iter().map(|p| p.get_trackpoint_count()).collect();
+        assert_eq!(counts, vec![2, 2, 2]);
+
+        // The middle part spans the lap boundary
+        let middle = &parts[1].database.activities.activity[0];
+        assert_eq!(middle.id, "2025-12-07T08:00:02Z");
+        assert_eq!(middle.laps.len(), 2);
+
+        for part in &parts {
+            let first = part.collect_trackpoints()[0].distance_meters;
+            assert_eq!(first, Some(0.0));
+            assert_eq!(part.history.position(), 0);
+        }
+        assert_eq!(parts[2].collect_trackpoints()[1].distance_meters, Some(5.0));
+
+        assert!(editor.split_at(vec![0]).is_err());
+    }
+
+    #[test]
+    fn test_activities_are_edited_separately() {
+        // A history export: a run followed by a ride
+        let run = build_tcx(&[3, 3]);
+        let ride = build_tcx(&[4]).replace("Running", "Biking");
+        let activity = |xml: &str| {
+            let start = xml.find("<Activity ").unwrap();
+            let end = xml.find("</Activities>").unwrap();
+            xml[start..end].to_string()
+        };
+        let xml = run.replace("</Activities>", &format!("{}</Activities>", activity(&ride)));
+
+        let mut editor = TcxEditor::new(&xml).unwrap();
+        let summaries = editor.summarize_activities();
+        assert_eq!(summaries.len(), 2);
+        assert_eq!(summaries[0].sport, "Running");
+        assert_eq!(summaries[0].trackpoint_count, 6);
+        assert_eq!(summaries[1].sport, "Biking");
+        assert_eq!(summaries[1].lap_count, 1);
+
+        let mut parts = editor.split_activities();
+        assert_eq!(parts.len(), 2);
+        assert_eq!(parts[1].get_trackpoint_count(), 4);
+
+        // Trimming the ride leaves the run alone until it's put back
+        parts[1].trim_by_indices(1, 2).unwrap();
+        assert_eq!(parts[1].history.position(), 1);
+        assert_eq!(editor.get_trackpoint_count(), 10);
+        editor.replace_activity(1, &parts[1]).unwrap();
+        assert_eq!(editor.summarize_activities()[1].trackpoint_count, 2);
+        assert_eq!(editor.summarize_activities()[0].trackpoint_count, 6);
+        assert!(editor.replace_activity(2, &parts[0]).is_err());
+
+        editor.delete_activity(0).unwrap();
+        assert_eq!(editor.summarize_activities()[0].sport, "Biking");
+        assert!(editor.delete_activity(0).is_err());
+        assert!(editor.to_xml().unwrap().contains("Sport=\"Biking\""));
+
+        assert!(editor.undo());
+        assert_eq!(editor.summarize_activities()[0].sport, "Running");
+        assert_eq!(editor.summarize_activities().len(), 2);
+    }
+
+    #[test]
+    fn test_whole_file_export_after_delete() {
+        // A run, a ride and a swim, edited apart as the page does
+        let activity = |sport: &str, laps: &[usize]| {
+            let xml = build_tcx(laps).replace("Running", sport);
+            let start = xml.find("<Activity ").unwrap();
+            let end = xml.find("</Activities>").unwrap();
+            xml[start..end].to_string()
+        };
+        let xml = build_tcx(&[3]).replace(
+            "</Activities>",
+            &format!("{}{}</Activities>", activity("Biking", &[4]), activity("Other", &[5])),
+        );
+        let mut file = TcxEditor::new(&xml).unwrap();
+        let mut parts = file.split_activities();
+        parts[2].trim_by_indices(0, 1).unwrap();
+
+        // Deleting the ride removes it from both, so the indices still line up
+        file.delete_activity(1).unwrap();
+        parts.remove(1);
+        let before = file.to_xml().unwrap();
+
+        let mut whole = file.copy();
+        for (index, part) in parts.iter().enumerate() {
+            whole.replace_activity(index, part).unwrap();
+        }
+        let summaries = whole.summarize_activities();
+        assert_eq!(summaries.len(), 2);
+        assert_eq!(summaries[0].sport, "Running");
+        assert_eq!(summaries[1].sport, "Other");
+        assert_eq!(summaries[1].trackpoint_count, 2);
+
+        // The file itself is left as it was, so the delete can still be undone
+        assert_eq!(file.to_xml().unwrap(), before);
+        assert!(file.undo());
+        assert_eq!(file.summarize_activities()[1].sport, "Biking");
+        assert_eq!(file.summarize_activities()[2].trackpoint_count, 5);
+    }
+
+    #[test]
+    fn test_glitches_are_found_and_repaired() {
+        let mut editor = TcxEditor::new(&build_tcx(&[3, 3])).unwrap();
+
+        // Running north at ~5.5 m/s, with point 3 teleported a degree away
+        let mut n = 0;
+        for lap in &mut editor.database.activities.activity[0].laps {
+            for tp in &mut lap.track.as_mut().unwrap().trackpoints {
+                let lat = if n == 3 { 47.0 } else { 46.0 + n as f64 * 0.00005 };
+                tp.position = Some(Position {
+                    latitude_degrees: lat,
+                    longitude_degrees: 8.0,
+                });
+                n += 1;
+            }
+        }
+
+        let glitches = glitch::find_glitches(&editor.database);
+        assert_eq!(glitches.len(), 1);
+        assert_eq!(glitches[0].index, 3);
+        assert!(glitches[0].implied_speed > 100_000.0);
+
+        let mut interpolated = TcxEditor::from_database(editor.database.clone());
+        interpolated.repair_glitches(vec![3], true).unwrap();
+        let points = interpolated.collect_trackpoints();
+        assert!((points[3].latitude.unwrap() - 46.00015).abs() < 1e-9);
+        let step = points[3].distance_meters.unwrap() - points[2].distance_meters.unwrap();
+        assert!((step - 5.56).abs() < 0.01);
+        // Increments away from the spike keep their recorded value
+        assert_eq!(points[5].distance_meters.unwrap() - points[4].distance_meters.unwrap(), 5.0);
+        assert!(glitch::find_glitches(&interpolated.database).is_empty());
+
+        editor.repair_glitches(vec![3], false).unwrap();
+        let points = editor.collect_trackpoints();
+        assert_eq!(points.len(), 5);
+        let step = points[3].distance_meters.unwrap() - points[2].distance_meters.unwrap();
+        assert!((step - 11.12).abs() < 0.01);
+        assert!(editor.undo());
+        assert_eq!(editor.get_trackpoint_count(), 6);
+    }
+
+    #[test]
+    fn test_recompute_distance_from_positions() {
+        let mut editor = TcxEditor::new(&build_tcx(&[3, 3])).unwrap();
+
+        // ~5.56 m between points, climbing 3 m each, with one point missing
+        // its position and distance
+        let mut n = 0;
+        for lap in &mut editor.database.activities.activity[0].laps {
+            for tp in &mut lap.track.as_mut().unwrap().trackpoints {
+                if n == 4 {
+                    tp.distance_meters = None;
+                } else {
+                    tp.position = Some(Position {
+                        latitude_degrees: 46.0 + n as f64 * 0.00005,
+                        longitude_degrees: 8.0,
+                    });
+                    tp.altitude_meters = Some(n as f64 * 3.0);
+                }
+                n += 1;
+            }
+        }
+
+        let preview = editor.preview_recomputed_distance(0, false).unwrap();
+        assert_eq!(editor.history.position(), 0);
+
+        editor.recompute_distance(0, false).unwrap();
+        let flat: Vec<f64> = editor
+            .collect_trackpoints()
+            .iter()
+            .map(|tp| tp.distance_meters.unwrap())
+            .collect();
+        assert_eq!(flat[0], 0.0);
+        assert!((flat[1] - 5.56).abs() < 0.01);
+        assert_eq!(flat[4], flat[3]);
+        assert!((flat[5] - 27.80).abs() < 0.01);
+        assert!((editor.calculate_stats().total_distance_meters - preview).abs() < 1e-9);
+
+        assert!(editor.undo());
+        editor.recompute_distance(0, true).unwrap();
+        let climbing = editor.collect_trackpoints()[1].distance_meters.unwrap();
+        assert!((climbing - 5.56f64.hypot(3.0)).abs() < 0.01);
+
+        // A straight line at constant speed is unchanged by smoothing
+        assert!(editor.undo());
+        editor.recompute_distance(3, false).unwrap();
+        let smoothed = editor.collect_trackpoints()[5].distance_meters.unwrap();
+        assert!((smoothed - flat[5]).abs() < 0.01);
+    }
+
+    #[test]
+    fn test_stops_are_found_and_removed() {
+        let mut editor = TcxEditor::new(&build_tcx(&[6, 6])).unwrap();
+
+        // Standing still from 3 to 8, then a 31 s pause between 9 and 10
+        let distances = [0.0, 5.0, 10.0, 15.0, 15.0, 15.0, 15.0, 15.0, 15.0, 20.0, 25.0, 30.0];
+        let seconds = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 40, 41];
+        let mut n = 0;
+        for lap in &mut editor.database.activities.activity[0].laps {
+            for tp in &mut lap.track.as_mut().unwrap().trackpoints {
+                tp.distance_meters = Some(distances[n]);
+                tp.time = format!("2025-12-07T08:00:{:02}Z", seconds[n]);
+                n += 1;
+            }
+        }
+
+        editor.set_stop_detection(0.5, 4.0).unwrap();
+        let stops = stops::find_stops(&editor.database, editor.stop_detection);
+        assert_eq!(stops.len(), 2);
+        assert_eq!((stops[0].start_index, stops[0].end_index), (3, 8));
+        assert_eq!(stops[0].duration_seconds, 5.0);
+        assert_eq!((stops[1].start_index, stops[1].end_index), (9, 10));
+        assert_eq!(editor.calculate_stats().moving_time_seconds, 5.0);
+
+        assert_eq!(editor.remove_stops().unwrap(), 2);
+        let points = editor.collect_trackpoints();
+        let times: Vec<f64> = points.iter().map(|tp| tp.timestamp_ms / 1000.0 % 60.0).collect();
+        let distances: Vec<f64> = points.iter().map(|tp| tp.distance_meters.unwrap()).collect();
+        assert_eq!(times, vec![0.0, 1.0, 2.0, 3.0, 4.0, 5.0, 6.0, 7.0]);
+        assert_eq!(distances, vec![0.0, 5.0, 10.0, 15.0, 15.0, 20.0, 20.0, 25.0]);
+
+        assert_eq!(editor.calculate_stats().moving_time_seconds, 7.0);
+        assert!(editor.remove_stops().is_err());
+
+        assert!(editor.undo());
+        assert_eq!(editor.get_trackpoint_count(), 12);
+    }
+
+    #[test]
+    fn test_hr_artifacts_are_found_and_fixed() {
+        let mut editor = TcxEditor::new(&build_tcx(&[40])).unwrap();
+
+        // A dropout at 5, a spike at 7, stuck at 150 from 9 to 15 and locked
+        // onto the cadence from 30
+        let track = editor.database.activities.activity[0].laps[0].track.as_mut().unwrap();
+        for (i, tp) in track.trackpoints.iter_mut().enumerate() {
+            let bpm = match i {
+                0..=4 => 140 + i as u32,
+                5 => 0,
+                6 => 145,
+                7 => 200,
+                8 => 146,
+                9..=15 => 150,
+                _ => 150 + (i % 3) as u32,
+            };
+            tp.heart_rate_bpm = Some(HeartRateBpm { xsi_type: None, value: bpm });
+            if i >= 30 {
+                tp.cadence = Some(bpm);
+            }
+        }
+
+        editor.set_hr_artifact_detection(8.0, 5.0).unwrap();
+        let found: Vec<(String, u32, u32)> =
+            heart_rate::find_artifacts(&editor.database, editor.hr_detection)
+                .into_iter()
+                .map(|a| (a.kind, a.start_index, a.end_index))
+                .collect();
+        assert_eq!(
+            found,
+            vec![
+                ("dropout".to_string(), 5, 5),
+                ("jump".to_string(), 7, 7),
+                ("flatline".to_string(), 9, 15),
+                ("cadence_lock".to_string(), 30, 39),
+            ]
+        );
+        assert_eq!(editor.calculate_stats().max_heart_rate, Some(200));
+
+        editor.interpolate_heart_rate(7, 7).unwrap();
+        editor.clear_heart_rate(5, 5).unwrap();
+        editor.set_heart_rate(9, 15, 148).unwrap();
+
+        let points = editor.collect_trackpoints();
+        assert_eq!(points[7].heart_rate, Some(146));
+        assert_eq!(points[5].heart_rate, None);
+        assert!(points[9..=15].iter().all(|tp| tp.heart_rate == Some(148)));
+
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.max_heart_rate, Some(152));
+        assert_eq!(stats.min_heart_rate, Some(140));
+
+        assert!(editor.set_heart_rate(3, 2, 150).is_err());
+        assert!(editor.undo());
+        assert_eq!(editor.collect_trackpoints()[9].heart_rate, Some(150));
+    }
+
+    #[test]
+    fn test_update_trackpoints_round_trips() {
+        let mut editor = TcxEditor::new(SAMPLE_TCX).unwrap();
+
+        editor.update_trackpoints(vec![0, 1], "heart_rate", Some(151.6)).unwrap();
+        editor.update_trackpoints(vec![1], "altitude_meters", Some(432.1)).unwrap();
+        editor.update_trackpoints(vec![0], "cadence", Some(88.0)).unwrap();
+        editor.update_trackpoints(vec![1], "latitude", Some(46.5)).unwrap();
+
+        let reparsed = TcxEditor::new(&editor.to_xml().unwrap()).unwrap();
+        let points = reparsed.collect_trackpoints();
+        assert!(points.iter().all(|tp| tp.heart_rate == Some(152)));
+        assert_eq!(points[1].altitude_meters, Some(432.1));
+        assert_eq!(points[0].cadence, Some(88));
+        assert_eq!(points[1].latitude, Some(46.5));
+
+        assert!(editor.update_trackpoints(vec![0], "latitude", Some(91.0)).is_err());
+        assert!(editor.update_trackpoints(vec![0], "power", Some(200.0)).is_err());
+        assert!(editor.update_trackpoints(vec![2], "heart_rate", Some(150.0)).is_err());
+        assert_eq!(editor.history.position(), 4);
+
+        // Removing the position drops both coordinates
+        editor.update_trackpoints(vec![0], "longitude", None).unwrap();
+        assert_eq!(editor.collect_trackpoints()[0].latitude, None);
+        assert!(editor.update_trackpoints(vec![0], "latitude", Some(46.0)).is_err());
+    }
+
+    #[test]
+    fn test_move_trackpoint_recomputes_distance() {
+        let mut editor = TcxEditor::new(&build_tcx(&[2, 2])).unwrap();
+        let mut recorded = 0.0;
+        let laps = &mut editor.database.activities.activity[0].laps;
+        let points = laps.iter_mut().flat_map(|l| &mut l.track.as_mut().unwrap().trackpoints);
+        for (i, tp) in points.enumerate() {
+            tp.position = Some(Position { latitude_degrees: 0.0, longitude_degrees: i as f64 * 0.001 });
+            tp.distance_meters = Some(recorded);
+            recorded += 100.0;
+        }
+
+        editor.move_trackpoint(1, 0.001, 0.001).unwrap();
+        let points = editor.collect_trackpoints();
+        let into = geo::haversine_distance(0.0, 0.0, 0.001, 0.001);
+        let out_of = geo::haversine_distance(0.001, 0.001, 0.0, 0.002);
+        assert_eq!(points[1].latitude, Some(0.001));
+        assert!((points[1].distance_meters.unwrap() - into).abs() < 1e-6);
+        assert!((points[2].distance_meters.unwrap() - (into + out_of)).abs() < 1e-6);
+        // Increments past the moved point are kept as recorded
+        assert!((points[3].distance_meters.unwrap() - (into + out_of + 100.0)).abs() < 1e-6);
+
+        assert!(editor.move_trackpoint(4, 0.0, 0.0).is_err());
+        assert!(editor.move_trackpoint(0, 95.0, 0.0).is_err());
+        editor.update_trackpoints(vec![0], "latitude", None).unwrap();
+        assert!(editor.move_trackpoint(0, 0.0, 0.0).is_err());
+        assert_eq!(editor.history.position(), 2);
+    }
+
+    #[test]
+    fn test_timestamp_variants() {
+        let utc = parse_timestamp("2025-12-07T07:48:35Z").unwrap();
+        for variant in [
+            "2025-12-07T08:48:35+0100",
+            "2025-12-07 08:48:35+01:00",
+            "2025-12-07T07:48:35",
+            "2025-12-07 07:48:35.000Z",
+        ] {
+            assert_eq!(parse_timestamp(variant), Some(utc), "{}", variant);
+        }
+        assert_eq!(parse_timestamp("yesterday"), None);
+
+        let hour = Duration::hours(1);
+        assert_eq!(shift_timestamp("2025-12-07T23:48:35.5Z", hour).unwrap(), "2025-12-08T00:48:35.5Z");
+        assert_eq!(shift_timestamp("2025-12-07 08:48:35+0100", hour).unwrap(), "2025-12-07 09:48:35+0100");
+        assert_eq!(shift_timestamp("2025-12-07T08:48:35", -hour).unwrap(), "2025-12-07T07:48:35");
+        assert_eq!(
+            clock::restyle_timestamp("2025-12-07T07:48:35.250Z", "2025-01-01T00:00:00+01:00").unwrap(),
+            "2025-12-07T08:48:35+01:00"
+        );
+    }
+
+    #[test]
+    fn test_shift_time_keeps_formatting() {
+        let tcx = SAMPLE_TCX.replace("<Id>2025-12-07T08:48:35.000+01:00</Id>", "<Id>2025-12-07T07:48:35Z</Id>");
+        let mut editor = TcxEditor::new(&tcx).unwrap();
+
+        editor.shift_time(-3_600_000.0).unwrap();
+        let activity = &editor.database.activities.activity[0];
+        assert_eq!(activity.id, "2025-12-07T06:48:35Z");
+        assert_eq!(activity.laps[0].start_time, "2025-12-07T07:48:35.000+01:00");
+        let points = editor.collect_trackpoints();
+        assert_eq!(points[1].time, "2025-12-07T07:48:38.000+01:00");
+
+        // Trimming copies the first point's time in the lap's own format
+        editor.trim_by_indices(1, 1).unwrap();
+        assert_eq!(editor.database.activities.activity[0].id, "2025-12-07T06:48:38Z");
+
+        // A half-second shift of a time without a fraction keeps the half,
+        // so two of them add up to a whole second
+        editor.shift_time(500.0).unwrap();
+        assert_eq!(editor.database.activities.activity[0].id, "2025-12-07T06:48:38.5Z");
+        editor.shift_time(500.0).unwrap();
+        assert_eq!(editor.database.activities.activity[0].id, "2025-12-07T06:48:39.0Z");
+        assert_eq!(editor.collect_trackpoints()[0].time, "2025-12-07T07:48:39.000+01:00");
+
+        assert!(editor.shift_time(f64::NAN).is_err());
+        assert_eq!(editor.history.position(), 4);
+        let history = editor.history.entries();
+        let labels: Vec<&str> = history.entries.iter().map(|e| e.label.as_str()).collect();
+        assert_eq!(labels[0], "Shift time by −1:00:00");
+        assert_eq!(labels[2..], ["Shift time by +0:00.500", "Shift time by +0:00.500"]);
+    }
+
+    #[test]
+    fn test_metadata_setters_survive_export() {
+        let mut editor = TcxEditor::new(GARMIN_TCX).unwrap();
+        editor.set_sport("Other").unwrap();
+        editor.set_activity_notes(Some(" Commute ".to_string())).unwrap();
+        editor.set_lap_intensity(0, "Resting").unwrap();
+        editor.set_lap_trigger_method(0, "Distance").unwrap();
+        editor.set_lap_calories(0, 321).unwrap();
+        editor.set_lap_notes(0, Some("Warm-up".to_string())).unwrap();
+        editor.set_creator("Edge 540", Some(3312345678), Some(3570), Some(10), None).unwrap();
+
+        assert!(editor.set_sport("Swimming").is_err());
+        assert!(editor.set_lap_intensity(0, "Easy").is_err());
+        assert!(editor.set_lap_calories(5, 10).is_err());
+        assert!(editor.set_creator(" ", None, None, None, None).is_err());
+        assert_eq!(editor.history.position(), 7);
+
+        let xml = editor.to_xml().unwrap();
+        assert!(xml.contains(r#"<Creator xsi:type="Device_t"><Name>Edge 540</Name><UnitId>3312345678</UnitId><ProductID>3570</ProductID><Version><VersionMajor>10</VersionMajor><VersionMinor>0</VersionMinor></Version></Creator>"#));
+
+        let metadata = metadata::read(&TcxEditor::new(&xml).unwrap().database);
+        assert_eq!(metadata.sport, "Other");
+        assert_eq!(metadata.notes.as_deref(), Some("Commute"));
+        assert_eq!(metadata.laps[0].intensity, "Resting");
+        assert_eq!(metadata.laps[0].trigger_method, "Distance");
+        assert_eq!(metadata.laps[0].calories, 321);
+        assert_eq!(metadata.laps[0].notes.as_deref(), Some("Warm-up"));
+        assert_eq!(metadata.creator.unwrap().product_id, Some(3570));
+
+        // A new Creator block needs the xsi namespace on the root
+        let mut editor = TcxEditor::new(&build_tcx(&[2])).unwrap();
+        editor.set_creator("Phone", None, None, None, None).unwrap();
+        let xml = editor.to_xml().unwrap();
+        assert!(xml.contains(r#"xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance""#));
+        assert!(xml.contains(&format!(r#"xmlns="{}""#, TCX_NAMESPACE)));
+        assert_eq!(metadata::read(&TcxEditor::new(&xml).unwrap().database).creator.unwrap().name, "Phone");
+    }
+
+    #[test]
+    fn test_creator_children_keep_schema_order() {
+        // A device without UnitId, ProductID or VersionMinor, but with a build
+        let tcx = GARMIN_TCX
+            .replace("        <UnitId>3312345678</UnitId>\n        <ProductID>3121</ProductID>\n", "")
+            .replace(
+                "          <VersionMinor>75</VersionMinor>\n",
+                "          <BuildMajor>2</BuildMajor>\n",
+            );
+        let mut editor = TcxEditor::new(&tcx).unwrap();
+        editor.set_creator("Edge 530", Some(42), Some(3121), Some(9), Some(80)).unwrap();
+
+        let xml = editor.to_xml().unwrap();
+        assert!(xml.contains(r#"<Creator xsi:type="Device_t"><Name>Edge 530</Name><UnitId>42</UnitId><ProductID>3121</ProductID><Version><VersionMajor>9</VersionMajor><VersionMinor>80</VersionMinor><BuildMajor>2</BuildMajor></Version></Creator>"#));
+    }
+
+    #[test]
+    fn test_calories_follow_trim() {
+        let mut editor = TcxEditor::new(&build_tcx(&[30, 30])).unwrap();
+        editor.trim_by_indices(15, 59).unwrap();
+
+        // The first lap keeps 14 of its 29 seconds
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.calorie_method, "time");
+        assert_eq!(stats.total_calories, 5 + 10);
+
+        editor.set_calorie_method("recorded", 0.0, 0.0, "").unwrap();
+        assert_eq!(editor.calculate_stats().total_calories, 20);
+
+        let laps = &mut editor.database.activities.activity[0].laps;
+        for tp in laps.iter_mut().flat_map(|l| &mut l.track.as_mut().unwrap().trackpoints) {
+            tp.heart_rate_bpm = Some(HeartRateBpm { xsi_type: None, value: 150 });
+        }
+        // 14.2 kcal/min over 14 and 29 seconds
+        editor.set_calorie_method("heart_rate", 70.0, 30.0, "male").unwrap();
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.calorie_method, "heart_rate");
+        assert_eq!(stats.total_calories, 3 + 7);
+
+        assert!(editor.set_calorie_method("heart_rate", 70.0, 5.0, "male").is_err());
+        assert!(editor.set_calorie_method("met", 0.0, 0.0, "").is_err());
+
+        // Undo brings back the method along with its values
+        editor.undo();
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.calorie_method, "recorded");
+        assert_eq!(stats.total_calories, 20);
+    }
+
+    #[test]
+    fn test_heart_rate_calories_skip_pauses_only() {
+        let mut editor = TcxEditor::new(&build_tcx(&[12])).unwrap();
+
+        // Smart recording every 15 seconds, then a ten minute pause
+        let track = editor.database.activities.activity[0].laps[0].track.as_mut().unwrap();
+        for (idx, tp) in track.trackpoints.iter_mut().enumerate() {
+            let seconds = if idx < 11 { idx * 15 } else { 150 + 600 };
+            tp.time = format!("2025-12-07T08:{:02}:{:02}Z", seconds / 60, seconds % 60);
+            tp.heart_rate_bpm = Some(HeartRateBpm { xsi_type: None, value: 150 });
+        }
+
+        // 14.2 kcal/min over the 150 recorded seconds
+        editor.set_calorie_method("heart_rate", 70.0, 30.0, "male").unwrap();
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.total_calories, 36);
+        assert_eq!(stats.pause_seconds, 150.0);
+    }
+
+    #[test]
+    fn test_elevation_gain_methods() {
+        let mut editor = TcxEditor::new(&build_tcx(&[8])).unwrap();
+
+        // A 10 m climb with 1 m of noise on the way up
+        let altitudes = [100.0, 101.0, 100.0, 101.0, 105.0, 104.0, 110.0, 110.0];
+        let track = editor.database.activities.activity[0].laps[0].track.as_mut().unwrap();
+        for (tp, &alt) in track.trackpoints.iter_mut().zip(&altitudes) {
+            tp.altitude_meters = Some(alt);
+        }
+
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.elevation_method, "raw");
+        assert_eq!(stats.elevation_gain, Some(12.0));
+        assert_eq!(stats.elevation_loss, Some(2.0));
+
+        editor.set_elevation_method("hysteresis", 3.0, 0).unwrap();
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.elevation_method, "hysteresis");
+        assert_eq!(stats.elevation_threshold, Some(3.0));
+        assert_eq!(stats.elevation_gain, Some(10.0));
+        assert_eq!(stats.elevation_loss, Some(0.0));
+
+        editor.set_elevation_method("smoothed", 0.0, 3).unwrap();
+        let stats = editor.calculate_stats();
+        assert_eq!(stats.elevation_window, Some(3));
+        assert!(stats.elevation_gain.unwrap() < 12.0);
+        assert!((stats.elevation_gain.unwrap() - stats.elevation_loss.unwrap() - 10.0).abs() < 1e-9);
+
+        assert!(editor.set_elevation_method("hysteresis", 0.0, 0).is_err());
+        assert!(editor.set_elevation_method("garmin", 3.0, 0).is_err());
+        assert_eq!(editor.calculate_stats().elevation_method, "smoothed");
+    }
+
+    /// Little-endian 16-bit GeoTIFF in one strip, georeferenced at 0.5°
+    /// pixels from 47°N 8°E, with PixelIsArea and a -9999 nodata value
+    fn build_geotiff(values: &[i16], width: u16, height: u16, deflate: bool) -> Vec<u8> {
+        let mut pixels: Vec<u8> = Vec::new();
+        for row in values.chunks(width as usize) {
+            // Deflate files use horizontal differencing
+            let mut previous = 0i16;
+            for &value in row {
+                let stored = if deflate { value.wrapping_sub(previous) } else { value };
+                pixels.extend_from_slice(&stored.to_le_bytes());
+                previous = value;
+            }
+        }
+        if deflate {
+            pixels = miniz_oxide::deflate::compress_to_vec_zlib(&pixels, 6);
+        }
+
+        let mut extra: Vec<u8> = Vec::new();
+        let ifd_offset = 8 + pixels.len() as u32;
+        let entry_count = 14u16;
+        let extra_offset = ifd_offset + 2 + entry_count as u32 * 12 + 4;
+        let mut entries: Vec<(u16, u16, u32, u32)> = Vec::new();
+        let mut push_extra = |bytes: &[u8]| {
+            let offset = extra_offset + extra.len() as u32;
+            extra.extend_from_slice(bytes);
+            offset
+        };
+        let doubles = |values: &[f64]| values.iter().flat_map(|v| v.to_le_bytes()).collect::<Vec<u8>>();
+
+        let scale = push_extra(&doubles(&[0.5, 0.5, 0.0]));
+        let tiepoint = push_extra(&doubles(&[0.0, 0.0, 0.0, 8.0, 47.0, 0.0]));
+        let keys: Vec<u8> = [1u16, 1, 0, 1, 1025, 0, 1, 1].iter().flat_map(|v| v.to_le_bytes()).collect();
+        let keys = push_extra(&keys);
+        let nodata = push_extra(b"-9999\0");
+
+        entries.push((256, 3, 1, width as u32));
+        entries.push((257, 3, 1, height as u32));
+        entries.push((258, 3, 1, 16));
+        entries.push((259, 3, 1, if deflate { 8 } else { 1 }));
+        entries.push((273, 4, 1, 8));
+        entries.push((277, 3, 1, 1));
+        entries.push((278, 3, 1, height as u32));
+        entries.push((279, 4, 1, pixels.len() as u32));
+        entries.push((317, 3, 1, if deflate { 2 } else { 1 }));
+        entries.push((339, 3, 1, 2));
+        entries.push((33550, 12, 3, scale));
+        entries.push((33922, 12, 6, tiepoint));
+        entries.push((34735, 3, 8, keys));
+        entries.push((42113, 2, 6, nodata));
+        assert_eq!(entries.len(), entry_count as usize);
+
+        let mut tiff = b"II".to_vec();
+        tiff.extend_from_slice(&42u16.to_le_bytes());
+        tiff.extend_from_slice(&ifd_offset.to_le_bytes());
+        tiff.extend_from_slice(&pixels);
+        tiff.extend_from_slice(&entry_count.to_le_bytes());
+        for (tag, kind, count, value) in entries {
+            tiff.extend_from_slice(&tag.to_le_bytes());
+            tiff.extend_from_slice(&kind.to_le_bytes());
+            tiff.extend_from_slice(&count.to_le_bytes());
+            tiff.extend_from_slice(&value.to_le_bytes());
+        }
+        tiff.extend_from_slice(&0u32.to_le_bytes());
+        tiff.extend_from_slice(&extra);
+        tiff
+    }
+
+    #[test]
+    fn test_dem_tiles_interpolate_bilinearly() {
+        let grid: [i16; 9] = [100, 110, 120, 200, 210, 220, 300, 310, -32768];
+        let hgt: Vec<u8> = grid.iter().flat_map(|v| v.to_be_bytes()).collect();
+        let tile = dem::parse_hgt("srtm/N46E008.hgt", &hgt).unwrap();
+        assert_eq!(tile.sample(47.0, 8.0), Some(100.0));
+        assert_eq!(tile.sample(46.75, 8.25), Some(155.0));
+        // The void corner is left out
+        assert_eq!(tile.sample(46.0, 9.0), None);
+        assert!((tile.sample(46.25, 8.75).unwrap() - (210.0 + 220.0 + 310.0) / 3.0).abs() < 1e-9);
+        assert_eq!(tile.sample(45.9, 8.5), None);
+        assert!(dem::parse_hgt("tile.hgt", &hgt).is_err());
+
+        let values: [i16; 6] = [100, 110, 120, 200, -9999, 220];
+        for deflate in [false, true] {
+            let tile = dem::parse_geotiff(&build_geotiff(&values, 3, 2, deflate)).unwrap();
+            assert_eq!(tile.sample(46.75, 8.25), Some(100.0));
+            assert_eq!(tile.sample(46.75, 8.5), Some(105.0));
+            assert_eq!(tile.sample(46.25, 9.25), Some(220.0));
+            assert!((tile.sample(46.5, 8.5).unwrap() - (100.0 + 110.0 + 200.0) / 3.0).abs() < 1e-9);
+            assert_eq!(tile.sample(47.0, 8.0), None);
+        }
+
+        let mut model = ElevationModel::new();
+        model.add_hgt("N46E008.hgt", &hgt).unwrap();
+        let mut editor = TcxEditor::new(&build_tcx(&[2])).unwrap();
+        editor.database.activities.activity[0].laps[0].track.as_mut().unwrap().trackpoints[0]
+            .position = Some(Position {
+            latitude_degrees: 46.75,
+            longitude_degrees: 8.25,
+        });
+        assert_eq!(editor.correct_elevation(&model).unwrap(), 1);
+        let points = editor.collect_trackpoints();
+        assert_eq!(points[0].altitude_meters, Some(155.0));
+        assert_eq!(points[1].altitude_meters, None);
+    }
+
+    #[test]
+    fn test_geotiff_rejects_empty_fields_and_skips_extra_strips() {
+        let values: [i16; 6] = [100, 110, 120, 200, 210, 220];
+        let tiff = build_geotiff(&values, 3, 2, false);
+        let ifd = u32::from_le_bytes(tiff[4..8].try_into().unwrap()) as usize + 2;
+        let patch = |tiff: &mut Vec<u8>, entry: usize, kind: u16, count: u32, value: [u8; 4]| {
+            let at = ifd + entry * 12;
+            tiff[at + 2..at + 4].copy_from_slice(&kind.to_le_bytes());
+            tiff[at + 4..at + 8].copy_from_slice(&count.to_le_bytes());
+            tiff[at + 8..at + 12].copy_from_slice(&value);
+        };
+
+        let mut empty = tiff.clone();
+        patch(&mut empty, 0, 3, 0, [0; 4]);
+        assert_eq!(dem::parse_geotiff(&empty).err().as_deref(), Some("GeoTIFF has no image width"));
+
+        // A second strip of the same pixels, below the bottom of the image
+        let mut extra = tiff.clone();
+        patch(&mut extra, 4, 3, 2, [8, 0, 8, 0]);
+        patch(&mut extra, 7, 3, 2, [12, 0, 12, 0]);
+        let tile = dem::parse_geotiff(&extra).unwrap();
+        assert_eq!(tile.sample(46.75, 8.25), Some(100.0));
+        assert_eq!(tile.sample(46.25, 9.25), Some(220.0));
+    }
+
+    #[test]
+    fn test_lzw_decode() {
+        // Clear, 'A', 'B', "AB", "ABA" (defined by its own use), end
+        let codes = [256u16, 65, 66, 258, 260, 257];
+        let mut bytes = vec![0u8; (codes.len() * 9).div_ceil(8)];
+        for (i, code) in codes.iter().enumerate() {
+            for b in 0..9 {
+                if code & (1 << (8 - b)) != 0 {
+                    let bit = i * 9 + b;
+                    bytes[bit / 8] |= 0x80 >> (bit % 8);
+                }
+            }
+        }
+        assert_eq!(dem::lzw_decode(&bytes).unwrap(), b"ABABABA");
+    }
 }
@@ -0,0 +1,153 @@
+use crate::{
+    parse_timestamp, Activities, Activity, JsMergeInfo, JsMergeOverlap, JsMergeSource, Lap,
+    TrainingCenterDatabase,
+};
+
+/// One input file with the time span of its trackpoints
+struct Source {
+    index: usize,
+    database: TrainingCenterDatabase,
+    start_ms: Option<f64>,
+    end_ms: Option<f64>,
+}
+
+fn time_span(database: &TrainingCenterDatabase) -> (Option<f64>, Option<f64>) {
+    let times: Vec<f64> = database
+        .activities
+        .activity
+        .iter()
+        .flat_map(|a| &a.laps)
+        .filter_map(|l| l.track.as_ref())
+        .flat_map(|t| &t.trackpoints)
+        .filter_map(|tp| parse_timestamp(&tp.time))
+        .map(|dt| dt.timestamp_millis() as f64)
+        .collect();
+
+    (
+        times.iter().cloned().reduce(f64::min),
+        times.iter().cloned().reduce(f64::max),
+    )
+}
+
+/// Merge several files into one activity. The files are ordered by their
+/// first timestamp, their laps are kept as separate laps and `DistanceMeters`
+/// is re-based so it keeps increasing across the seams.
+pub fn merge_databases(
+    databases: Vec<TrainingCenterDatabase>,
+) -> Result<(TrainingCenterDatabase, JsMergeInfo), String> {
+    let mut sources: Vec<Source> = databases
+        .into_iter()
+        .enumerate()
+        .map(|(index, database)| {
+            let (start_ms, end_ms) = time_span(&database);
+            Source { index, database, start_ms, end_ms }
+        })
+        .collect();
+
+    if sources.is_empty() {
+        return Err("No files to merge".to_string());
+    }
+
+    // Files without timestamps go last
+    sources.sort_by(|a, b| match (a.start_ms, b.start_ms) {
+        (Some(a), Some(b)) => a.total_cmp(&b),
+        (Some(_), None) => std::cmp::Ordering::Less,
+        (None, Some(_)) => std::cmp::Ordering::Greater,
+        (None, None) => std::cmp::Ordering::Equal,
+    });
+
+    // Compare each file with the one that runs latest among those before it,
+    // not just its neighbour, which a long file can reach past
+    let mut overlaps = Vec::new();
+    let mut latest: Option<(f64, usize)> = None;
+    for source in &sources {
+        let (Some(start), Some(end)) = (source.start_ms, source.end_ms) else { continue };
+        if let Some((latest_end, latest_index)) = latest {
+            if start < latest_end {
+                overlaps.push(JsMergeOverlap {
+                    first: latest_index as u32,
+                    second: source.index as u32,
+                    overlap_seconds: (latest_end.min(end) - start) / 1000.0,
+                });
+            }
+        }
+        if latest.is_none_or(|(latest_end, _)| end > latest_end) {
+            latest = Some((end, source.index));
+        }
+    }
+
+    let merged_sources = sources
+        .iter()
+        .map(|s| JsMergeSource {
+            index: s.index as u32,
+            start_ms: s.start_ms,
+        })
+        .collect();
+
+    let mut attributes: Vec<(String, String)> = Vec::new();
+    let mut laps: Vec<Lap> = Vec::new();
+    let mut template: Option<Activity> = None;
+    let mut author = None;
+    let mut distance_offset = 0.0;
+
+    for source in sources {
+        let database = source.database;
+
+        // Keep every namespace binding, the first file winning on conflicts
+        for (name, value) in database.attributes {
+            if !attributes.iter().any(|(existing, _)| *existing == name) {
+                attributes.push((name, value));
+            }
+        }
+        author = author.or(database.author);
+
+        let mut source_start: Option<f64> = None;
+        let mut source_end = distance_offset;
+
+        for mut activity in database.activities.activity {
+            for lap in &mut activity.laps {
+                if let Some(ref mut track) = lap.track {
+                    for tp in &mut track.trackpoints {
+                        if let Some(ref mut distance) = tp.distance_meters {
+                            let start = *source_start.get_or_insert(*distance);
+                            *distance = *distance - start + distance_offset;
+                            source_end = source_end.max(*distance);
+                        }
+                    }
+                }
+            }
+
+            laps.append(&mut activity.laps);
+            template.get_or_insert(activity);
+        }
+
+        distance_offset = source_end;
+    }
+
+    let mut activity = template.ok_or_else(|| "No activities to merge".to_string())?;
+    if let Some(first) = laps.first() {
+        activity.id = first.start_time.clone();
+    }
+    activity.laps = laps;
+
+    let database = TrainingCenterDatabase {
+        attributes,
+        calorie_method: Default::default(),
+        folders: None,
+        activities: Activities {
+            activity: vec![activity],
+        },
+        workouts: None,
+        courses: None,
+        author,
+        extensions: None,
+    };
+
+    Ok((
+        database,
+        JsMergeInfo {
+            sources: merged_sources,
+            overlaps,
+        },
+    ))
+}
@@ -0,0 +1,174 @@
+use crate::xml::XmlNode;
+use crate::{JsActivityMetadata, JsCreator, JsLapMetadata, Lap, TrainingCenterDatabase, TCX_NAMESPACE};
+
+/// Values the TCX schema allows for `Activity@Sport`
+pub const SPORTS: [&str; 3] = ["Running", "Biking", "Other"];
+/// Values the TCX schema allows for `Lap/Intensity`
+pub const INTENSITIES: [&str; 2] = ["Active", "Resting"];
+/// Values the TCX schema allows for `Lap/TriggerMethod`
+pub const TRIGGER_METHODS: [&str; 5] = ["Manual", "Distance", "Location", "Time", "HeartRate"];
+
+const XSI_NAMESPACE: &str = "http://www.w3.org/2001/XMLSchema-instance";
+
+/// Check `value` against one of the schema enums above
+pub fn check_enum(what: &str, value: &str, allowed: &[&str]) -> Result<(), String> {
+    if allowed.contains(&value) {
+        Ok(())
+    } else {
+        Err(format!("Invalid {} {}: expected one of {}", what, value, allowed.join(", ")))
+    }
+}
+
+/// Notes are removed rather than written as an empty element
+pub fn notes(text: Option<String>) -> Option<String> {
+    text.map(|t| t.trim().to_string()).filter(|t| !t.is_empty())
+}
+
+fn text_of(node: &XmlNode, path: &[&str]) -> Option<String> {
+    path.iter()
+        .try_fold(node, |node, name| node.child(name))?
+        .text()
+        .map(|t| t.trim().to_string())
+}
+
+/// The editable metadata of the first activity, with the laps of all of them
+/// in the same order as `JsTrackpoint::lap_index`
+pub fn read(database: &TrainingCenterDatabase) -> JsActivityMetadata {
+    let activity = database.activities.activity.first();
+
+    let creator = activity.and_then(|a| a.creator.as_ref()).map(|creator| JsCreator {
+        name: text_of(creator, &["Name"]).unwrap_or_default(),
+        unit_id: text_of(creator, &["UnitId"]).and_then(|t| t.parse().ok()),
+        product_id: text_of(creator, &["ProductID"]).and_then(|t| t.parse().ok()),
+        version_major: text_of(creator, &["Version", "VersionMajor"]).and_then(|t| t.parse().ok()),
+        version_minor: text_of(creator, &["Version", "VersionMinor"]).and_then(|t| t.parse().ok()),
+    });
+
+    let laps = database
+        .activities
+        .activity
+        .iter()
+        .flat_map(|a| &a.laps)
+        .map(|lap| JsLapMetadata {
+            start_time: lap.start_time.clone(),
+            intensity: lap.intensity.clone(),
+            trigger_method: lap.trigger_method.clone(),
+            calories: lap.calories,
+            notes: lap.notes.clone(),
+        })
+        .collect();
+
+    JsActivityMetadata {
+        sport: activity.map(|a| a.sport.clone()).unwrap_or_default(),
+        notes: activity.and_then(|a| a.notes.clone()),
+        creator,
+        laps,
+    }
+}
+
+/// The lap at `index` in the flattened list of all laps
+pub fn lap_mut(database: &mut TrainingCenterDatabase, index: usize) -> Result<&mut Lap, String> {
+    let count = database.activities.activity.iter().map(|a| a.laps.len()).sum::<usize>();
+    database
+        .activities
+        .activity
+        .iter_mut()
+        .flat_map(|a| &mut a.laps)
+        .nth(index)
+        .ok_or_else(|| format!("Invalid lap index: {} >= total ({})", index, count))
+}
+
+fn text_element(value: String) -> XmlNode {
+    XmlNode::Element(vec![("$text".to_string(), XmlNode::Text(value))])
+}
+
+/// Children of `Device_t`, in schema order
+const DEVICE_CHILDREN: [&str; 4] = ["Name", "UnitId", "ProductID", "Version"];
+
+/// Children of `Version_t`, in schema order
+const VERSION_CHILDREN: [&str; 4] = ["VersionMajor", "VersionMinor", "BuildMajor", "BuildMinor"];
+
+/// Replace the child element named `local_name`, keeping its prefix and
+/// place, or insert it where `schema_order` puts it if there is none
+fn set_child(entries: &mut Vec<(String, XmlNode)>, schema_order: &[&str], local_name: &str, node: XmlNode) {
+    let local = |key: &str| key.rsplit(':').next().unwrap_or(key).to_string();
+    if let Some((_, child)) = entries.iter_mut().find(|(key, _)| local(key) == local_name) {
+        *child = node;
+        return;
+    }
+
+    let rank = |name: &str| schema_order.iter().position(|&n| n == name);
+    let own_rank = rank(local_name);
+    let before = entries
+        .iter()
+        .position(|(key, _)| matches!((rank(&local(key)), own_rank), (Some(r), Some(own)) if r > own));
+    let index = before.unwrap_or(entries.len());
+    entries.insert(index, (local_name.to_string(), node));
+}
+
+/// The prefix bound to the XML Schema instance namespace, binding `xsi` on
+/// the root if the document doesn't have one yet
+fn xsi_prefix(database: &mut TrainingCenterDatabase) -> String {
+    let bound = database.attributes.iter().find_map(|(name, value)| {
+        (value == XSI_NAMESPACE).then(|| name.strip_prefix("xmlns:")).flatten()
+    });
+    if let Some(prefix) = bound {
+        return prefix.to_string();
+    }
+
+    // Without attributes the default namespace is written implicitly, so it
+    // has to be spelled out once there are others
+    if database.attributes.is_empty() {
+        database.attributes.push(("xmlns".to_string(), TCX_NAMESPACE.to_string()));
+    }
+    database.attributes.push(("xmlns:xsi".to_string(), XSI_NAMESPACE.to_string()));
+    "xsi".to_string()
+}
+
+/// Write the `Creator` device block of the first activity. Values in the
+/// existing block are replaced in place, so build numbers and anything else
+/// the editor doesn't show are kept.
+pub fn set_creator(database: &mut TrainingCenterDatabase, creator: &JsCreator) -> Result<(), String> {
+    if creator.name.trim().is_empty() {
+        return Err("Creator name can't be empty".to_string());
+    }
+    let Some(activity) = database.activities.activity.first() else {
+        return Err("No activity to set the creator of".to_string());
+    };
+    let type_attribute = match activity.creator {
+        Some(XmlNode::Element(_)) => None,
+        _ => Some(format!("@{}:type", xsi_prefix(database))),
+    };
+
+    let activity = &mut database.activities.activity[0];
+    if let Some(name) = type_attribute {
+        activity.creator = Some(XmlNode::Element(vec![(name, XmlNode::Text("Device_t".to_string()))]));
+    }
+    let Some(XmlNode::Element(entries)) = activity.creator.as_mut() else {
+        unreachable!()
+    };
+
+    // Device_t requires all four
+    let name = text_element(creator.name.trim().to_string());
+    set_child(entries, &DEVICE_CHILDREN, "Name", name);
+    let unit_id = text_element(creator.unit_id.unwrap_or(0).to_string());
+    set_child(entries, &DEVICE_CHILDREN, "UnitId", unit_id);
+    let product_id = text_element(creator.product_id.unwrap_or(0).to_string());
+    set_child(entries, &DEVICE_CHILDREN, "ProductID", product_id);
+
+    let version = entries
+        .iter_mut()
+        .find(|(key, _)| key.rsplit(':').next() == Some("Version"))
+        .map(|(_, node)| node);
+    let mut version_entries = match version {
+        Some(XmlNode::Element(existing)) => std::mem::take(existing),
+        _ => Vec::new(),
+    };
+    let major = text_element(creator.version_major.unwrap_or(0).to_string());
+    set_child(&mut version_entries, &VERSION_CHILDREN, "VersionMajor", major);
+    let minor = text_element(creator.version_minor.unwrap_or(0).to_string());
+    set_child(&mut version_entries, &VERSION_CHILDREN, "VersionMinor", minor);
+    set_child(entries, &DEVICE_CHILDREN, "Version", XmlNode::Element(version_entries));
+
+    Ok(())
+}
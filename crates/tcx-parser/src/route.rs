@@ -0,0 +1,76 @@
+use crate::geo::haversine_distance;
+use crate::{Position, TrainingCenterDatabase};
+
+/// Move the trackpoint at flattened `index` to a new position. The distance
+/// increments to the positioned points before and after it, within the same
+/// activity, are replaced with straight-line distances and the rest of the
+/// activity's `DistanceMeters` shift by the difference.
+pub fn move_trackpoint(
+    database: &mut TrainingCenterDatabase,
+    index: usize,
+    latitude: f64,
+    longitude: f64,
+) -> Result<(), String> {
+    let mut offset = 0;
+
+    for activity in &mut database.activities.activity {
+        let mut points: Vec<_> = activity
+            .laps
+            .iter_mut()
+            .filter_map(|l| l.track.as_mut())
+            .flat_map(|t| &mut t.trackpoints)
+            .collect();
+
+        if index >= offset + points.len() {
+            offset += points.len();
+            continue;
+        }
+        let local = index - offset;
+
+        let Some(ref old) = points[local].position else {
+            return Err(format!("Trackpoint {} has no position to move", index));
+        };
+        let old = (old.latitude_degrees, old.longitude_degrees);
+        let moved = (latitude, longitude);
+
+        let position = |i: usize| {
+            points[i]
+                .position
+                .as_ref()
+                .map(|p| (p.latitude_degrees, p.longitude_degrees))
+        };
+        let before = (0..local).rev().find(|&i| position(i).is_some());
+        let after = (local + 1..points.len()).find(|&i| position(i).is_some());
+
+        // How much longer the legs into and out of the point get. Without
+        // recorded distances at both ends, the old leg is taken as straight.
+        let leg = |neighbour: Option<usize>| -> f64 {
+            let Some(n) = neighbour else { return 0.0 };
+            let (lat, lon) = position(n).unwrap();
+            let recorded = match (points[n].distance_meters, points[local].distance_meters) {
+                (Some(a), Some(b)) => (a - b).abs(),
+                _ => haversine_distance(lat, lon, old.0, old.1),
+            };
+            haversine_distance(lat, lon, moved.0, moved.1) - recorded
+        };
+        let into = leg(before);
+        let out_of = leg(after);
+
+        points[local].position = Some(Position {
+            latitude_degrees: latitude,
+            longitude_degrees: longitude,
+        });
+
+        for (i, tp) in points.iter_mut().enumerate().skip(local) {
+            if let Some(ref mut distance) = tp.distance_meters {
+                *distance += into;
+                if after.is_some_and(|a| i >= a) {
+                    *distance += out_of;
+                }
+            }
+        }
+        return Ok(());
+    }
+
+    Err(format!("Invalid index: {}", index))
+}
@@ -0,0 +1,200 @@
+use chrono::Duration;
+
+use crate::geo::haversine_distance;
+use crate::{parse_timestamp, shift_timestamp, JsStop, Trackpoint, TrainingCenterDatabase};
+
+/// When the activity counts as stopped
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub struct StopDetection {
+    /// Below this speed in m/s the athlete is standing still
+    pub max_speed: f64,
+    /// Stationary stretches shorter than this many seconds are kept as moving
+    pub min_seconds: f64,
+}
+
+impl Default for StopDetection {
+    fn default() -> Self {
+        StopDetection { max_speed: 0.5, min_seconds: 10.0 }
+    }
+}
+
+/// Metres covered between two trackpoints, from the recorded distance if
+/// both have one and from the positions otherwise
+fn moved(a: &Trackpoint, b: &Trackpoint) -> Option<f64> {
+    match (a.distance_meters, b.distance_meters, &a.position, &b.position) {
+        (Some(da), Some(db), _, _) => Some((db - da).abs()),
+        (_, _, Some(pa), Some(pb)) => Some(haversine_distance(
+            pa.latitude_degrees,
+            pa.longitude_degrees,
+            pb.latitude_degrees,
+            pb.longitude_degrees,
+        )),
+        _ => None,
+    }
+}
+
+/// Stationary stretches of one activity's trackpoints as (first, last,
+/// seconds), plus the time spent moving. An interval is stationary if its
+/// average speed is below the limit; an interval with nothing to tell the
+/// distance by counts as stationary when it is at least `min_seconds` long,
+/// which catches recordings that were paused.
+fn scan(points: &[&Trackpoint], detection: StopDetection) -> (Vec<(usize, usize, f64)>, f64) {
+    let times: Vec<Option<f64>> = points
+        .iter()
+        .map(|tp| parse_timestamp(&tp.time).map(|dt| dt.timestamp_millis() as f64 / 1000.0))
+        .collect();
+
+    let mut stops = Vec::new();
+    let mut moving = 0.0;
+    // First point, last point and duration of the stationary run in progress
+    let mut run: Option<(usize, usize, f64)> = None;
+
+    let mut close = |run: &mut Option<(usize, usize, f64)>, moving: &mut f64| {
+        if let Some((first, last, seconds)) = run.take() {
+            if seconds >= detection.min_seconds {
+                stops.push((first, last, seconds));
+            } else {
+                *moving += seconds;
+            }
+        }
+    };
+
+    for i in 1..points.len() {
+        let (Some(t0), Some(t1)) = (times[i - 1], times[i]) else {
+            close(&mut run, &mut moving);
+            continue;
+        };
+        let seconds = t1 - t0;
+        // Duplicated timestamps neither move nor break a stop
+        if seconds <= 0.0 {
+            continue;
+        }
+
+        let stationary = match moved(points[i - 1], points[i]) {
+            Some(meters) => meters / seconds < detection.max_speed,
+            None => seconds >= detection.min_seconds,
+        };
+
+        if stationary {
+            run = Some(match run {
+                Some((first, _, so_far)) => (first, i, so_far + seconds),
+                None => (i - 1, i, seconds),
+            });
+        } else {
+            close(&mut run, &mut moving);
+            moving += seconds;
+        }
+    }
+    close(&mut run, &mut moving);
+
+    (stops, moving)
+}
+
+fn activity_points(database: &TrainingCenterDatabase) -> Vec<Vec<&Trackpoint>> {
+    database
+        .activities
+        .activity
+        .iter()
+        .map(|a| {
+            a.laps
+                .iter()
+                .filter_map(|l| l.track.as_ref())
+                .flat_map(|t| &t.trackpoints)
+                .collect()
+        })
+        .collect()
+}
+
+/// Find the stops of every activity, in track order
+pub fn find_stops(database: &TrainingCenterDatabase, detection: StopDetection) -> Vec<JsStop> {
+    let mut found = Vec::new();
+    let mut offset = 0;
+
+    for points in activity_points(database) {
+        let (stops, _) = scan(&points, detection);
+        found.extend(stops.into_iter().map(|(first, last, seconds)| JsStop {
+            start_index: (offset + first) as u32,
+            end_index: (offset + last) as u32,
+            start_time: points[first].time.clone(),
+            duration_seconds: seconds,
+        }));
+        offset += points.len();
+    }
+
+    found
+}
+
+/// Seconds spent moving, summed over the activities
+pub fn moving_time(database: &TrainingCenterDatabase, detection: StopDetection) -> f64 {
+    activity_points(database)
+        .iter()
+        .map(|points| scan(points, detection).1)
+        .sum()
+}
+
+/// Compress `stops` out of the track. The points inside a stop are dropped
+/// and the point where it ends follows the one where it started one second
+/// later, at the same distance; everything after is shifted back to match.
+/// Laps left without trackpoints are not removed here.
+pub fn remove_stops(database: &mut TrainingCenterDatabase, stops: &[JsStop]) {
+    let offsets: Vec<(Duration, f64)> = {
+        let points: Vec<&Trackpoint> = activity_points(database).into_iter().flatten().collect();
+        stops
+            .iter()
+            .map(|stop| {
+                let first = points[stop.start_index as usize];
+                let last = points[stop.end_index as usize];
+                let time = match (parse_timestamp(&first.time), parse_timestamp(&last.time)) {
+                    (Some(start), Some(end)) => {
+                        (end.signed_duration_since(start) - Duration::seconds(1)).max(Duration::zero())
+                    }
+                    _ => Duration::zero(),
+                };
+                let distance = match (first.distance_meters, last.distance_meters) {
+                    (Some(start), Some(end)) => end - start,
+                    _ => 0.0,
+                };
+                (time, distance)
+            })
+            .collect()
+    };
+
+    let mut time_shift = Duration::zero();
+    let mut distance_shift = 0.0;
+    let mut next_stop = 0;
+    let mut idx = 0;
+
+    for activity in &mut database.activities.activity {
+        for lap in &mut activity.laps {
+            let Some(ref mut track) = lap.track else { continue };
+
+            let points = std::mem::take(&mut track.trackpoints);
+            for mut tp in points {
+                let current = idx as u32;
+                idx += 1;
+
+                if let Some(stop) = stops.get(next_stop) {
+                    if current > stop.start_index && current < stop.end_index {
+                        continue;
+                    }
+                    if current == stop.end_index {
+                        time_shift = time_shift + offsets[next_stop].0;
+                        distance_shift += offsets[next_stop].1;
+                        next_stop += 1;
+                    }
+                }
+
+                if time_shift > Duration::zero() {
+                    if let Some(shifted) = shift_timestamp(&tp.time, -time_shift) {
+                        tp.time = shifted;
+                    }
+                }
+                if let Some(ref mut distance) = tp.distance_meters {
+                    *distance -= distance_shift;
+                }
+
+                track.trackpoints.push(tp);
+            }
+        }
+    }
+}
@@ -0,0 +1,109 @@
+use std::collections::HashSet;
+
+use crate::{HeartRateBpm, TrainingCenterDatabase};
+
+/// A trackpoint value that can be edited directly, named like the
+/// `JsTrackpoint` field it shows up in
+#[derive(Debug, Clone, Copy, PartialEq)]
+pub enum Field {
+    Latitude,
+    Longitude,
+    Altitude,
+    Distance,
+    HeartRate,
+    Cadence,
+}
+
+impl Field {
+    pub fn parse(name: &str) -> Result<Field, String> {
+        match name {
+            "latitude" => Ok(Field::Latitude),
+            "longitude" => Ok(Field::Longitude),
+            "altitude_meters" => Ok(Field::Altitude),
+            "distance_meters" => Ok(Field::Distance),
+            "heart_rate" => Ok(Field::HeartRate),
+            "cadence" => Ok(Field::Cadence),
+            other => Err(format!("Unknown trackpoint field {}", other)),
+        }
+    }
+
+    /// The field as it reads in the edit history
+    pub fn label(&self) -> &'static str {
+        match self {
+            Field::Latitude => "latitude",
+            Field::Longitude => "longitude",
+            Field::Altitude => "altitude",
+            Field::Distance => "distance",
+            Field::HeartRate => "heart rate",
+            Field::Cadence => "cadence",
+        }
+    }
+
+    fn check(&self, value: f64) -> Result<(), String> {
+        let valid = match self {
+            Field::Latitude => (-90.0..=90.0).contains(&value),
+            Field::Longitude => (-180.0..=180.0).contains(&value),
+            Field::Altitude => value.is_finite(),
+            Field::Distance => value.is_finite() && value >= 0.0,
+            Field::HeartRate | Field::Cadence => (0.0..=255.0).contains(&value),
+        };
+        if valid {
+            Ok(())
+        } else {
+            Err(format!("{} is out of range for {:?}", value, self))
+        }
+    }
+}
+
+/// Set `field` of the trackpoints at `indices` to `value`, or remove it with
+/// None. Latitude and longitude can only be changed on points that have a
+/// position; removing either one removes the position. Heart rate and
+/// cadence are rounded to whole numbers.
+pub fn update_trackpoints(
+    database: &mut TrainingCenterDatabase,
+    indices: &[u32],
+    field: Field,
+    value: Option<f64>,
+) -> Result<(), String> {
+    if let Some(value) = value {
+        field.check(value)?;
+    }
+    let wanted: HashSet<usize> = indices.iter().map(|&idx| idx as usize).collect();
+
+    let points = database
+        .activities
+        .activity
+        .iter_mut()
+        .flat_map(|a| &mut a.laps)
+        .filter_map(|l| l.track.as_mut())
+        .flat_map(|t| &mut t.trackpoints)
+        .enumerate()
+        .filter(|(idx, _)| wanted.contains(idx));
+
+    for (idx, tp) in points {
+        match (field, value) {
+            (Field::Latitude | Field::Longitude, None) => tp.position = None,
+            (Field::Latitude | Field::Longitude, Some(degrees)) => {
+                let Some(ref mut position) = tp.position else {
+                    return Err(format!("Trackpoint {} has no position to move", idx));
+                };
+                if field == Field::Latitude {
+                    position.latitude_degrees = degrees;
+                } else {
+                    position.longitude_degrees = degrees;
+                }
+            }
+            (Field::Altitude, _) => tp.altitude_meters = value,
+            (Field::Distance, _) => tp.distance_meters = value,
+            (Field::HeartRate, _) => {
+                tp.heart_rate_bpm = value.map(|bpm| HeartRateBpm {
+                    xsi_type: tp.heart_rate_bpm.as_ref().and_then(|h| h.xsi_type.clone()),
+                    value: bpm.round() as u32,
+                })
+            }
+            (Field::Cadence, _) => tp.cadence = value.map(|rpm| rpm.round() as u32),
+        }
+    }
+
+    Ok(())
+}
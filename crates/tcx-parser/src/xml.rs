@@ -0,0 +1,243 @@
+use std::cell::RefCell;
+use std::collections::HashMap;
+use std::fmt;
+
+use quick_xml::events::Event;
+use quick_xml::Reader;
+use serde::de::{Deserialize, Deserializer, MapAccess, Visitor};
+use serde::ser::{Serialize, SerializeMap, Serializer};
+
+// ============================================================================
+// Generic XML content
+// ============================================================================
+
+/// Verbatim XML content for the parts of a file the editor doesn't model,
+/// such as `Extensions` or the `Creator` block. Elements keep their
+/// attributes (`@name`), text (`$text`) and children in document order.
+#[derive(Debug, Clone, PartialEq)]
+pub enum XmlNode {
+    Text(String),
+    Element(Vec<(String, XmlNode)>),
+}
+
+impl XmlNode {
+    /// Find the first child element by its local name, ignoring the prefix
+    pub fn child(&self, local_name: &str) -> Option<&XmlNode> {
+        match self {
+            XmlNode::Element(entries) => entries
+                .iter()
+                .find(|(key, _)| local_part(key) == local_name)
+                .map(|(_, node)| node),
+            XmlNode::Text(_) => None,
+        }
+    }
+
+    /// Text content of a text-only element
+    pub fn text(&self) -> Option<&str> {
+        match self {
+            XmlNode::Text(text) => Some(text),
+            XmlNode::Element(entries) => entries
+                .iter()
+                .find(|(key, _)| key == "$text")
+                .and_then(|(_, node)| node.text()),
+        }
+    }
+}
+
+fn local_part(name: &str) -> &str {
+    name.rsplit_once(':').map_or(name, |(_, local)| local)
+}
+
+impl Serialize for XmlNode {
+    fn serialize<S: Serializer>(&self, serializer: S) -> Result<S::Ok, S::Error> {
+        match self {
+            XmlNode::Text(text) => serializer.serialize_str(text),
+            XmlNode::Element(entries) => {
+                let mut map = serializer.serialize_map(Some(entries.len()))?;
+                for (key, node) in entries {
+                    map.serialize_entry(key, node)?;
+                }
+                map.end()
+            }
+        }
+    }
+}
+
+impl<'de> Deserialize<'de> for XmlNode {
+    fn deserialize<D: Deserializer<'de>>(deserializer: D) -> Result<Self, D::Error> {
+        struct XmlNodeVisitor;
+
+        impl<'de> Visitor<'de> for XmlNodeVisitor {
+            type Value = XmlNode;
+
+            fn expecting(&self, f: &mut fmt::Formatter) -> fmt::Result {
+                f.write_str("an XML element or text")
+            }
+
+            fn visit_str<E>(self, value: &str) -> Result<XmlNode, E> {
+                Ok(XmlNode::Text(value.to_string()))
+            }
+
+            fn visit_string<E>(self, value: String) -> Result<XmlNode, E> {
+                Ok(XmlNode::Text(value))
+            }
+
+            fn visit_unit<E>(self) -> Result<XmlNode, E> {
+                Ok(XmlNode::Element(Vec::new()))
+            }
+
+            fn visit_map<A: MapAccess<'de>>(self, mut map: A) -> Result<XmlNode, A::Error> {
+                let mut entries = Vec::new();
+                while let Some(key) = map.next_key::<String>()? {
+                    let name = qualify_name(key.clone());
+                    let node = within(key, || map.next_value::<XmlNode>())?;
+                    entries.push((name, node));
+                }
+                Ok(XmlNode::Element(entries))
+            }
+        }
+
+        deserializer.deserialize_any(XmlNodeVisitor)
+    }
+}
+
+// ============================================================================
+// Namespace prefixes
+// ============================================================================
+
+// The serde deserializer only reports local names, so the prefixes seen in the
+// document (`ns3:TPX`, `xsi:type`) are collected up front and put back onto
+// generic content while it is being deserialized. They are looked up under the
+// parent element, as the same local name can be prefixed in one place and not
+// in another (an extension's `ns5:Name` and the `Creator`'s `Name`).
+thread_local! {
+    static QUALIFIED_NAMES: RefCell<QualifiedNames> = RefCell::new(HashMap::new());
+    /// Local names of the elements being deserialized, innermost last
+    static OPEN_ELEMENTS: RefCell<Vec<String>> = RefCell::new(Vec::new());
+}
+
+/// Parent local name to child local name (`TPX`, `@type`) to qualified name
+/// (`ns3:TPX`, `@xsi:type`)
+type QualifiedNames = HashMap<String, HashMap<String, String>>;
+
+fn qualify_name(key: String) -> String {
+    let qualified = OPEN_ELEMENTS.with(|open| {
+        let open = open.borrow();
+        let parent = open.last().map_or("", String::as_str);
+        QUALIFIED_NAMES.with(|names| names.borrow().get(parent)?.get(&key).cloned())
+    });
+    qualified.unwrap_or(key)
+}
+
+/// Run `f` with `name` as the innermost open element
+fn within<T>(name: String, f: impl FnOnce() -> T) -> T {
+    OPEN_ELEMENTS.with(|open| open.borrow_mut().push(name));
+    let result = f();
+    OPEN_ELEMENTS.with(|open| open.borrow_mut().pop());
+    result
+}
+
+/// Deserialize the generic content of the element `name`. The typed structs
+/// read their fields through this, since nothing else tells the content which
+/// element it sits in.
+fn content_of<'de, D: Deserializer<'de>>(name: &str, deserializer: D) -> Result<Option<XmlNode>, D::Error> {
+    within(name.to_string(), || Option::<XmlNode>::deserialize(deserializer))
+}
+
+macro_rules! content_deserializers {
+    ($($function:ident => $name:literal),* $(,)?) => {
+        $(
+            pub fn $function<'de, D: Deserializer<'de>>(deserializer: D) -> Result<Option<XmlNode>, D::Error> {
+                content_of($name, deserializer)
+            }
+        )*
+    };
+}
+
+content_deserializers! {
+    author_content => "Author",
+    courses_content => "Courses",
+    creator_content => "Creator",
+    extensions_content => "Extensions",
+    folders_content => "Folders",
+    training_content => "Training",
+    workouts_content => "Workouts",
+}
+
+/// Prefix and attribute information that serde can't see
+#[derive(Debug, Clone, Default)]
+pub struct DocumentInfo {
+    /// Attributes of the root element with their original qualified names,
+    /// including every namespace binding
+    pub root_attributes: Vec<(String, String)>,
+    qualified_names: QualifiedNames,
+}
+
+/// Collect the root attributes and all prefixed names used in a document
+pub fn scan_document(xml: &str) -> Result<DocumentInfo, String> {
+    let mut reader = Reader::from_str(xml);
+    let mut info = DocumentInfo::default();
+    let mut seen_root = false;
+    // Local names of the elements the reader is in, innermost last
+    let mut open: Vec<String> = Vec::new();
+
+    loop {
+        let event = reader.read_event().map_err(|e| e.to_string())?;
+        let start = match event {
+            Event::Start(ref e) | Event::Empty(ref e) => e,
+            Event::End(_) => {
+                open.pop();
+                continue;
+            }
+            Event::Eof => break,
+            _ => continue,
+        };
+
+        let name = start.name();
+        let local = String::from_utf8_lossy(name.local_name().as_ref()).into_owned();
+        if name.prefix().is_some() {
+            let qualified = String::from_utf8_lossy(name.as_ref()).into_owned();
+            let parent = open.last().cloned().unwrap_or_default();
+            info.qualified_names
+                .entry(parent)
+                .or_default()
+                .entry(local.clone())
+                .or_insert(qualified);
+        }
+
+        for attr in start.attributes() {
+            let attr = attr.map_err(|e| e.to_string())?;
+            let key = String::from_utf8_lossy(attr.key.as_ref()).into_owned();
+
+            if !seen_root {
+                let value = attr.unescape_value().map_err(|e| e.to_string())?;
+                info.root_attributes.push((key.clone(), value.into_owned()));
+            }
+
+            if attr.key.prefix().is_some() && attr.key.as_namespace_binding().is_none() {
+                let attr_local = String::from_utf8_lossy(attr.key.local_name().as_ref()).into_owned();
+                info.qualified_names
+                    .entry(local.clone())
+                    .or_default()
+                    .entry(format!("@{}", attr_local))
+                    .or_insert(format!("@{}", key));
+            }
+        }
+
+        if matches!(event, Event::Start(_)) {
+            open.push(local);
+        }
+        seen_root = true;
+    }
+
+    Ok(info)
+}
+
+/// Run a deserialization with the prefixes of `info` applied to generic content
+pub fn with_document_info<T>(info: &DocumentInfo, f: impl FnOnce() -> T) -> T {
+    QUALIFIED_NAMES.with(|names| *names.borrow_mut() = info.qualified_names.clone());
+    let result = f();
+    QUALIFIED_NAMES.with(|names| names.borrow_mut().clear());
+    OPEN_ELEMENTS.with(|open| open.borrow_mut().clear());
+    result
+}
@@ -0,0 +1,74 @@
+// Writes a 100,000-point TCX file, a day-long ultra recorded every second,
+// for checking that large files load, draw and trim without freezing the page.
+//
+//   node scripts/benchmark-fixture.mjs [output.tcx] [points]
+
+import { writeFileSync } from 'node:fs';
+
+const output = process.argv[2] ?? 'benchmark-100k.tcx';
+const count = Number(process.argv[3] ?? 100_000);
+const lapMeters = 10_000;
+const start = Date.parse('2025-06-21T04:00:00Z');
+
+// A fixed seed, so every run writes the same file
+let seed = 42;
+function random() {
+  seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+  return seed / 2 ** 31;
+}
+
+const laps = [];
+let lap = null;
+let latitude = 46.0;
+let longitude = 8.9;
+let heading = 0;
+let distance = 0;
+
+for (let n = 0; n < count; n++) {
+  const time = new Date(start + n * 1000).toISOString().replace('.000Z', 'Z');
+  const climb = Math.sin(n / 1800);
+  const speed = 2.8 - climb * 0.8 + (random() - 0.5) * 0.4;
+  if (n > 0) distance += speed;
+
+  heading += (random() - 0.5) * 0.2;
+  const meters = n > 0 ? speed : 0;
+  latitude += (Math.cos(heading) * meters) / 111_320;
+  longitude += (Math.sin(heading) * meters) / (111_320 * Math.cos((latitude * Math.PI) / 180));
+
+  if (!lap || distance >= laps.length * lapMeters) {
+    lap = { startTime: time, startMs: start + n * 1000, startDistance: distance, points: [] };
+    laps.push(lap);
+  }
+
+  const altitude = 800 + climb * 600 + Math.sin(n / 97) * 8;
+  const heartRate = Math.round(135 + climb * 20 + (random() - 0.5) * 6);
+  const cadence = Math.round(84 + (random() - 0.5) * 6);
+  lap.points.push(
+    `<Trackpoint><Time>${time}</Time><Position><LatitudeDegrees>${latitude.toFixed(7)}</LatitudeDegrees>` +
+      `<LongitudeDegrees>${longitude.toFixed(7)}</LongitudeDegrees></Position>` +
+      `<AltitudeMeters>${altitude.toFixed(1)}</AltitudeMeters><DistanceMeters>${distance.toFixed(1)}</DistanceMeters>` +
+      `<HeartRateBpm><Value>${heartRate}</Value></HeartRateBpm><Cadence>${cadence}</Cadence></Trackpoint>`
+  );
+  lap.endMs = start + n * 1000;
+  lap.endDistance = distance;
+}
+
+const lapXml = laps.map(
+  (lap) =>
+    `<Lap StartTime="${lap.startTime}"><TotalTimeSeconds>${(lap.endMs - lap.startMs) / 1000}</TotalTimeSeconds>` +
+    `<DistanceMeters>${(lap.endDistance - lap.startDistance).toFixed(1)}</DistanceMeters>` +
+    `<Calories>${Math.round((lap.endDistance - lap.startDistance) / 15)}</Calories>` +
+    `<Intensity>Active</Intensity><TriggerMethod>Distance</TriggerMethod>` +
+    `<Track>\n${lap.points.join('\n')}\n</Track></Lap>`
+);
+
+const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+<Activities><Activity Sport="Running"><Id>${laps[0].startTime}</Id>
+${lapXml.join('\n')}
+</Activity></Activities>
+</TrainingCenterDatabase>
+`;
+
+writeFileSync(output, xml);
+console.log(`Wrote ${count} trackpoints in ${laps.length} laps to ${output}`);
@@ -1,19 +1,31 @@
-import { useState } from 'react';
-import { MapPin, Activity, Heart, Mountain } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MapPin, Move } from 'lucide-react';
 import { FileUpload } from './components/FileUpload';
 import { ActivityStats } from './components/ActivityStats';
 import { TrackMap } from './components/TrackMap';
-import { TimelineChart } from './components/TimelineChart';
+import { TimelineStack } from './components/TimelineStack';
 import { TrimControls } from './components/TrimControls';
+import { EditHistory } from './components/EditHistory';
+import { SplitControls } from './components/SplitControls';
+import { GlitchPanel } from './components/GlitchPanel';
+import { DistancePanel } from './components/DistancePanel';
+import { ElevationPanel } from './components/ElevationPanel';
+import { ElevationGainPanel } from './components/ElevationGainPanel';
+import { StopsPanel } from './components/StopsPanel';
+import { HrZonesPanel } from './components/HrZonesPanel';
+import { HrArtifactPanel } from './components/HrArtifactPanel';
+import { TrackpointTable } from './components/TrackpointTable';
+import { StartTimeDialog } from './components/StartTimeDialog';
+import { MetadataPanel } from './components/MetadataPanel';
+import { CaloriesPanel } from './components/CaloriesPanel';
+import { FocusReadout } from './components/FocusReadout';
+import { ActivityList } from './components/ActivityList';
 import { useTcxEditor } from './hooks/useTcxEditor';
-
-type ChartType = 'heart_rate' | 'altitude' | 'pace';
-
-const chartTabs: { id: ChartType; label: string; icon: React.ReactNode }[] = [
-  { id: 'heart_rate', label: 'Heart Rate', icon: <Heart className="w-4 h-4" /> },
-  { id: 'altitude', label: 'Altitude', icon: <Mountain className="w-4 h-4" /> },
-  { id: 'pace', label: 'Pace', icon: <Activity className="w-4 h-4" /> },
-];
+import { useHrZones } from './hooks/useHrZones';
+import { useProfile } from './hooks/useProfile';
+import { hasValues, pointCount } from './lib/columns';
+import { withBoundary } from './lib/trim';
+import type { TrimBoundary } from './types/tcx';
 
 export default function App() {
   const {
@@ -23,18 +35,113 @@ export default function App() {
     stats,
     trackpoints,
     trimRange,
+    trimMode,
     originalTrackpointCount,
-    loadFile,
+    warnings,
+    sourceMarkers,
+    loadFiles,
     setTrimRange,
+    setTrimMode,
     applyTrim,
+    applyCut,
     resetTrim,
-    exportTcx,
+    glitches,
+    repairGlitches,
+    distancePreview,
+    previewDistance,
+    recomputeDistance,
+    elevationTiles,
+    correctedAltitudes,
+    loadElevationTiles,
+    clearElevationTiles,
+    applyElevationCorrection,
+    elevationGain,
+    setElevationGain,
+    stops,
+    stopDetection,
+    setStopDetection,
+    removeStops,
+    hrArtifacts,
+    metadata,
+    hrArtifactDetection,
+    setHrArtifactDetection,
+    fixHeartRate,
+    selectedPoints,
+    selectPoints,
+    updateTrackpoints,
+    moveTrackpoint,
+    shiftTime,
+    editMetadata,
+    setCalorieMethod,
+    focusedIndex,
+    setFocusedIndex,
+    history,
+    undo,
+    redo,
+    goToHistory,
+    activities,
+    selectedActivity,
+    selectActivity,
+    deleteActivity,
+    restoreActivity,
+    canRestoreActivity,
+    exportFile,
+    splitPoints,
+    toggleSplitPoint,
+    clearSplitPoints,
+    exportSplit,
     clearFile,
   } = useTcxEditor();
+  const hrZones = useHrZones();
+  const { profile, setProfile } = useProfile();
+
+  const [isPlacingSplits, setIsPlacingSplits] = useState(false);
+  const [isEditingRoute, setIsEditingRoute] = useState(false);
+  const [isEditingStartTime, setIsEditingStartTime] = useState(false);
+  const [trimPick, setTrimPick] = useState<TrimBoundary | null>(null);
+  // Kept stable, so hovering doesn't redraw the chart
+  const handlePointClick = useCallback(
+    (index: number) => {
+      if (trimPick) {
+        setTrimRange(withBoundary(trimRange, trimPick, index));
+        setTrimPick(null);
+      } else if (isPlacingSplits) {
+        toggleSplitPoint(index);
+      } else {
+        selectPoints([index]);
+      }
+    },
+    [trimPick, trimRange, isPlacingSplits, setTrimRange, toggleSplitPoint, selectPoints]
+  );
+  const glitchIndices = useMemo(() => glitches.map((g) => g.index), [glitches]);
+  const hasPositions = useMemo(() => hasValues(trackpoints.latitude), [trackpoints]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && !['range', 'checkbox'].includes(target.type))
+      ) {
+        return;
+      }
 
-  const [activeChart, setActiveChart] = useState<ChartType>('heart_rate');
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
 
-  const hasData = stats !== null && trackpoints.length > 0;
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const hasData = stats !== null && pointCount(trackpoints) > 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
@@ -51,7 +158,7 @@ export default function App() {
                   Track Editor
                 </h1>
                 <p className="text-xs text-slate-500 dark:text-slate-400">
-                  Edit and trim your TCX activities
+                  Edit and trim your TCX, GPX and FIT activities
                 </p>
               </div>
             </div>
@@ -67,6 +174,17 @@ export default function App() {
           </div>
         )}
 
+        {/* Merge Warnings */}
+        {warnings.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl">
+            {warnings.map((warning) => (
+              <p key={warning} className="text-sm text-amber-800 dark:text-amber-200">
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
         {!hasData ? (
           /* Upload Section */
           <div className="max-w-xl mx-auto">
@@ -75,11 +193,12 @@ export default function App() {
                 Upload Your Activity
               </h2>
               <p className="text-slate-600 dark:text-slate-400">
-                Load a TCX file to view, analyze, and trim your recorded activity
+                Load a TCX, GPX or FIT file to view, analyze, and trim your recorded activity, or
+                several files to merge them
               </p>
             </div>
             <FileUpload
-              onFileSelect={loadFile}
+              onFilesSelect={loadFiles}
               isLoading={isLoading}
               currentFileName={fileName}
               onClear={clearFile}
@@ -92,17 +211,98 @@ export default function App() {
             <div className="space-y-6">
               {/* File Info */}
               <FileUpload
-                onFileSelect={loadFile}
+                onFilesSelect={loadFiles}
                 isLoading={isLoading}
                 currentFileName={fileName}
                 onClear={clearFile}
               />
 
+              {/* Activities, for files holding several */}
+              {(activities.length > 1 || canRestoreActivity) && (
+                <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                    Activities
+                  </h3>
+                  <ActivityList
+                    activities={activities}
+                    selected={selectedActivity}
+                    onSelect={selectActivity}
+                    onDelete={deleteActivity}
+                    canRestore={canRestoreActivity}
+                    onRestore={restoreActivity}
+                  />
+                </div>
+              )}
+
               {/* Activity Stats */}
               <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
-                <ActivityStats stats={stats} />
+                <ActivityStats
+                  stats={stats}
+                  distancePreview={distancePreview}
+                  onEditStartTime={() => setIsEditingStartTime(true)}
+                />
               </div>
 
+              {/* Activity Details */}
+              {metadata && (
+                <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                    Activity Details
+                  </h3>
+                  <MetadataPanel metadata={metadata} onEdit={editMetadata} />
+                </div>
+              )}
+
+              {/* Calories */}
+              {stats && (
+                <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                    Calories
+                  </h3>
+                  <CaloriesPanel
+                    method={stats.calorie_method}
+                    profile={profile}
+                    onProfileChange={setProfile}
+                    onApply={setCalorieMethod}
+                  />
+                </div>
+              )}
+
+              {/* Heart Rate Zones */}
+              {stats.avg_heart_rate !== null && (
+                <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                    Heart Rate Zones
+                  </h3>
+                  <HrZonesPanel
+                    trackpoints={trackpoints}
+                    trimRange={trimRange}
+                    trimMode={trimMode}
+                    pauseSeconds={stats.pause_seconds}
+                    settings={hrZones.settings}
+                    zones={hrZones.zones}
+                    onSettingsChange={hrZones.setSettings}
+                  />
+                </div>
+              )}
+
+              {/* Heart Rate Artifacts */}
+              {stats.avg_heart_rate !== null && (
+                <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                    Heart Rate Cleanup
+                  </h3>
+                  <HrArtifactPanel
+                    artifacts={hrArtifacts}
+                    trackpoints={trackpoints}
+                    trimRange={trimRange}
+                    detection={hrArtifactDetection}
+                    onDetectionChange={setHrArtifactDetection}
+                    onFix={fixHeartRate}
+                  />
+                </div>
+              )}
+
               {/* Trim Controls */}
               <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
@@ -111,11 +311,110 @@ export default function App() {
                 <TrimControls
                   trackpoints={trackpoints}
                   trimRange={trimRange}
+                  trimMode={trimMode}
                   originalCount={originalTrackpointCount}
                   onTrimRangeChange={setTrimRange}
+                  onTrimModeChange={setTrimMode}
+                  pickTarget={trimPick}
+                  onPickTargetChange={hasPositions ? setTrimPick : undefined}
                   onApplyTrim={applyTrim}
+                  onApplyCut={applyCut}
                   onReset={resetTrim}
-                  onExport={exportTcx}
+                  onExport={exportFile}
+                  activityCount={activities.length}
+                />
+              </div>
+
+              {/* GPS Glitches */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  GPS Glitches
+                </h3>
+                <GlitchPanel
+                  glitches={glitches}
+                  trackpoints={trackpoints}
+                  onRepair={repairGlitches}
+                />
+              </div>
+
+              {/* Stops */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  Stops
+                </h3>
+                <StopsPanel
+                  stops={stops}
+                  trackpoints={trackpoints}
+                  detection={stopDetection}
+                  onDetectionChange={setStopDetection}
+                  onRemove={removeStops}
+                />
+              </div>
+
+              {/* Distance */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  Distance
+                </h3>
+                <DistancePanel
+                  hasPositions={hasPositions}
+                  isPreviewing={distancePreview !== null}
+                  onPreview={previewDistance}
+                  onApply={recomputeDistance}
+                />
+              </div>
+
+              {/* Elevation Gain */}
+              {stats.elevation_gain !== null && (
+                <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                    Elevation Gain
+                  </h3>
+                  <ElevationGainPanel options={elevationGain} onChange={setElevationGain} />
+                </div>
+              )}
+
+              {/* Elevation */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  Elevation
+                </h3>
+                <ElevationPanel
+                  trackpoints={trackpoints}
+                  tiles={elevationTiles}
+                  correctedAltitudes={correctedAltitudes}
+                  onLoadTiles={loadElevationTiles}
+                  onClearTiles={clearElevationTiles}
+                  onApply={applyElevationCorrection}
+                />
+              </div>
+
+              {/* Split Activity */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  Split Activity
+                </h3>
+                <SplitControls
+                  trackpoints={trackpoints}
+                  splitPoints={splitPoints}
+                  isPlacing={isPlacingSplits}
+                  onPlacingChange={setIsPlacingSplits}
+                  onToggleSplitPoint={toggleSplitPoint}
+                  onClear={clearSplitPoints}
+                  onExport={exportSplit}
+                />
+              </div>
+
+              {/* Edit History */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-6 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  Edit History
+                </h3>
+                <EditHistory
+                  history={history}
+                  onUndo={undo}
+                  onRedo={redo}
+                  onSelect={goToHistory}
                 />
               </div>
             </div>
@@ -124,48 +423,87 @@ export default function App() {
             <div className="lg:col-span-2 space-y-6">
               {/* Map */}
               <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-4 border border-slate-100 dark:border-slate-700">
-                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
-                  Route Map
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+                    Route Map
+                  </h3>
+                  <button
+                    onClick={() => setIsEditingRoute(!isEditingRoute)}
+                    title="Drag the points of the route to move them"
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      isEditingRoute
+                        ? 'bg-cyan-600 hover:bg-cyan-700 text-white'
+                        : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300'
+                    }`}
+                  >
+                    <Move className="w-4 h-4" />
+                    {isEditingRoute ? 'Done Editing' : 'Edit Route'}
+                  </button>
+                </div>
                 <div className="h-80 lg:h-96 rounded-xl overflow-hidden">
-                  <TrackMap trackpoints={trackpoints} trimRange={trimRange} />
+                  <TrackMap
+                    trackpoints={trackpoints}
+                    trimRange={trimRange}
+                    trimMode={trimMode}
+                    markers={sourceMarkers}
+                    splitPoints={splitPoints}
+                    glitchIndices={glitchIndices}
+                    selectedPoints={selectedPoints}
+                    onPointClick={handlePointClick}
+                    isEditingRoute={isEditingRoute}
+                    onPointMove={moveTrackpoint}
+                    focusedIndex={focusedIndex}
+                    onFocusChange={setFocusedIndex}
+                  />
                 </div>
               </div>
 
               {/* Chart */}
               <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-4 border border-slate-100 dark:border-slate-700">
-                {/* Chart Tabs */}
-                <div className="flex items-center gap-2 mb-4">
-                  {chartTabs.map((tab) => (
-                    <button
-                      key={tab.id}
-                      onClick={() => setActiveChart(tab.id)}
-                      className={`
-                        flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all
-                        ${
-                          activeChart === tab.id
-                            ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
-                            : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
-                        }
-                      `}
-                    >
-                      {tab.icon}
-                      {tab.label}
-                    </button>
-                  ))}
-                </div>
+                <TimelineStack
+                  trackpoints={trackpoints}
+                  trimRange={trimRange}
+                  trimMode={trimMode}
+                  markers={sourceMarkers}
+                  correctedAltitudes={correctedAltitudes}
+                  splitPoints={splitPoints}
+                  onPointClick={handlePointClick}
+                  onRangeSelect={setTrimRange}
+                  hrZones={hrZones.zones}
+                  hrArtifacts={hrArtifacts}
+                  selectedPoints={selectedPoints}
+                  focusedIndex={focusedIndex}
+                  onFocusChange={setFocusedIndex}
+                />
 
-                <div className="h-64">
-                  <TimelineChart
-                    trackpoints={trackpoints}
-                    trimRange={trimRange}
-                    dataType={activeChart}
-                  />
+                <div className="mt-3">
+                  <FocusReadout trackpoints={trackpoints} index={focusedIndex} />
                 </div>
               </div>
+
+              {/* Trackpoints */}
+              <div className="bg-white dark:bg-slate-800/50 rounded-2xl shadow-xl shadow-slate-200/50 dark:shadow-none p-4 border border-slate-100 dark:border-slate-700">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">
+                  Trackpoints
+                </h3>
+                <TrackpointTable
+                  trackpoints={trackpoints}
+                  selectedPoints={selectedPoints}
+                  onSelect={selectPoints}
+                  onUpdate={updateTrackpoints}
+                />
+              </div>
             </div>
           </div>
         )}
+
+        {hasData && isEditingStartTime && (
+          <StartTimeDialog
+            startMs={trackpoints.timestamp_ms[0]}
+            onShift={shiftTime}
+            onClose={() => setIsEditingStartTime(false)}
+          />
+        )}
       </main>
 
       {/* Footer */}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Trash2, Check, X, Undo2 } from 'lucide-react';
+import type { JsActivitySummary } from '../types/tcx';
+import { formatDistance, formatDuration, formatTime } from '../lib/format';
+
+interface ActivityListProps {
+  activities: JsActivitySummary[];
+  selected: number;
+  onSelect: (index: number) => void;
+  onDelete: (index: number) => void;
+  /** Whether there is a deleted activity to bring back */
+  canRestore: boolean;
+  onRestore: () => void;
+}
+
+export function ActivityList({
+  activities,
+  selected,
+  onSelect,
+  onDelete,
+  canRestore,
+  onRestore,
+}: ActivityListProps) {
+  // Deleting asks first, even though it can be undone
+  const [confirming, setConfirming] = useState<number | null>(null);
+  const canDelete = activities.length > 1;
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-1 max-h-64 overflow-y-auto">
+        {activities.map((activity, idx) => (
+          <li key={`${idx}-${activity.start_time}`} className="flex items-center gap-2">
+            <button
+              onClick={() => onSelect(idx)}
+              className={`flex-1 min-w-0 px-3 py-2 rounded-md text-left text-sm transition-colors hover:bg-slate-100 dark:hover:bg-slate-700 ${
+                idx === selected
+                  ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                  : 'text-slate-700 dark:text-slate-300'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className={idx === selected ? 'font-semibold' : 'font-medium'}>
+                  {activity.sport}
+                </span>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  {formatTime(activity.start_time)}
+                </span>
+              </div>
+              <div className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                {formatDistance(activity.distance_meters)} · {formatDuration(activity.total_time_seconds)}
+                {activity.notes && ` · ${activity.notes}`}
+              </div>
+            </button>
+
+            {confirming === idx ? (
+              <>
+                <button
+                  onClick={() => {
+                    setConfirming(null);
+                    onDelete(idx);
+                  }}
+                  className="p-1.5 rounded-md text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  title="Delete this activity"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setConfirming(null)}
+                  className="p-1.5 rounded-md text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700"
+                  title="Keep this activity"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirming(idx)}
+                disabled={!canDelete}
+                className="p-1.5 rounded-md text-slate-400 dark:text-slate-500 hover:text-red-600 dark:hover:text-red-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                title={canDelete ? 'Delete activity' : "The only activity can't be deleted"}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Each activity keeps its own edit history.
+        </p>
+        {canRestore && (
+          <button
+            onClick={onRestore}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+            title="Bring back the activity deleted last"
+          >
+            <Undo2 className="w-3.5 h-3.5" />
+            Undo delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
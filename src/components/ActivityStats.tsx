@@ -5,10 +5,11 @@ import {
   Flame,
   Heart,
   Mountain,
+  Pencil,
   TrendingUp,
   TrendingDown,
 } from 'lucide-react';
-import type { JsActivityStats } from '../types/tcx';
+import type { CalorieMethod, JsActivityStats } from '../types/tcx';
 import {
   formatDuration,
   formatDistance,
@@ -20,6 +21,10 @@ import {
 
 interface ActivityStatsProps {
   stats: JsActivityStats;
+  /** Total distance of a pending recompute, shown against the current one */
+  distancePreview?: number | null;
+  /** Called to change the start time; without it the time isn't editable */
+  onEditStartTime?: () => void;
 }
 
 interface StatCardProps {
@@ -55,7 +60,36 @@ function StatCard({ icon, label, value, subValue, className = '' }: StatCardProp
   );
 }
 
-export function ActivityStats({ stats }: ActivityStatsProps) {
+function formatDistanceChange(before: number, after: number): string {
+  const delta = after - before;
+  const sign = delta >= 0 ? '+' : '−';
+  const percent = before > 0 ? ` (${sign}${Math.abs((delta / before) * 100).toFixed(1)}%)` : '';
+  return `${formatDistance(before)} → ${formatDistance(after)}${percent}`;
+}
+
+const calorieMethodLabels: Record<CalorieMethod, string> = {
+  recorded: 'As recorded',
+  time: 'Scaled by time',
+  distance: 'Scaled by distance',
+  heart_rate: 'Heart rate model',
+};
+
+function formatElevationMethod(stats: JsActivityStats): string {
+  switch (stats.elevation_method) {
+    case 'hysteresis':
+      return `${stats.elevation_threshold} m threshold`;
+    case 'smoothed':
+      return `Smoothed over ${stats.elevation_window} points`;
+    default:
+      return 'Raw sum';
+  }
+}
+
+export function ActivityStats({
+  stats,
+  distancePreview = null,
+  onEditStartTime,
+}: ActivityStatsProps) {
   const avgPace =
     stats.total_time_seconds > 0 && stats.total_distance_meters > 0
       ? stats.total_distance_meters / stats.total_time_seconds
@@ -71,8 +105,17 @@ export function ActivityStats({ stats }: ActivityStatsProps) {
           <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
             {stats.sport}
           </h2>
-          <p className="text-sm text-slate-500 dark:text-slate-400">
+          <p className="flex items-center gap-1.5 text-sm text-slate-500 dark:text-slate-400">
             {formatTime(stats.start_time)}
+            {onEditStartTime && (
+              <button
+                onClick={onEditStartTime}
+                className="text-slate-400 hover:text-primary-600 dark:hover:text-primary-400"
+                title="Change start time"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            )}
           </p>
         </div>
       </div>
@@ -82,19 +125,26 @@ export function ActivityStats({ stats }: ActivityStatsProps) {
           icon={<Clock className="w-5 h-5 text-blue-600 dark:text-blue-400" />}
           label="Duration"
           value={formatDuration(stats.total_time_seconds)}
+          subValue={`Moving: ${formatDuration(stats.moving_time_seconds)}`}
         />
 
         <StatCard
           icon={<MapPin className="w-5 h-5 text-green-600 dark:text-green-400" />}
           label="Distance"
-          value={formatDistance(stats.total_distance_meters)}
-          subValue={formatPace(avgPace)}
+          value={formatDistance(distancePreview ?? stats.total_distance_meters)}
+          subValue={
+            distancePreview !== null
+              ? formatDistanceChange(stats.total_distance_meters, distancePreview)
+              : formatPace(avgPace)
+          }
+          className={distancePreview !== null ? 'ring-2 ring-amber-400' : ''}
         />
 
         <StatCard
           icon={<Flame className="w-5 h-5 text-orange-600 dark:text-orange-400" />}
           label="Calories"
           value={`${stats.total_calories}`}
+          subValue={calorieMethodLabels[stats.calorie_method]}
         />
 
         {stats.avg_heart_rate !== null && (
@@ -111,6 +161,7 @@ export function ActivityStats({ stats }: ActivityStatsProps) {
             icon={<TrendingUp className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />}
             label="Elevation Gain"
             value={formatElevation(stats.elevation_gain)}
+            subValue={formatElevationMethod(stats)}
           />
         )}
 
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { AthleteProfile, CalorieMethod, Sex } from '../types/tcx';
+
+interface CaloriesPanelProps {
+  method: CalorieMethod;
+  profile: AthleteProfile;
+  onProfileChange: (profile: AthleteProfile) => void;
+  onApply: (method: CalorieMethod, profile: AthleteProfile) => void;
+}
+
+const methodChoices: { value: CalorieMethod; label: string; description: string }[] = [
+  {
+    value: 'recorded',
+    label: 'As recorded',
+    description: 'Laps keep the calories the device recorded, however much is trimmed.',
+  },
+  {
+    value: 'time',
+    label: 'Scale by time',
+    description: "Each lap's recorded calories shrink with the share of its time that is left.",
+  },
+  {
+    value: 'distance',
+    label: 'Scale by distance',
+    description: "Each lap's recorded calories shrink with the share of its distance that is left.",
+  },
+  {
+    value: 'heart_rate',
+    label: 'Heart rate model',
+    description:
+      'Calories are estimated from heart rate, weight, age and sex. Laps without heart rate scale by time.',
+  },
+];
+
+const fieldClassName =
+  'px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600';
+
+const labelClassName = 'text-sm text-slate-700 dark:text-slate-300';
+
+export function CaloriesPanel({ method, profile, onProfileChange, onApply }: CaloriesPanelProps) {
+  const [draftMethod, setDraftMethod] = useState<CalorieMethod | null>(null);
+  const selected = draftMethod ?? method;
+  const current = methodChoices.find((choice) => choice.value === selected);
+
+  // The profile only matters to the heart rate model, so changing it counts
+  // as a change to apply while that model is in use
+  const [appliedProfile, setAppliedProfile] = useState(profile);
+  const profileChanged = selected === 'heart_rate' && profile !== appliedProfile;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">{current?.description}</p>
+
+      <div className="flex items-center justify-between">
+        <span className={labelClassName}>Method</span>
+        <select
+          value={selected}
+          onChange={(e) => setDraftMethod(e.target.value as CalorieMethod)}
+          className={fieldClassName}
+        >
+          {methodChoices.map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selected === 'heart_rate' && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Weight (kg)</span>
+            <input
+              type="number"
+              min={20}
+              max={300}
+              value={profile.weightKg}
+              onChange={(e) => {
+                const weightKg = parseFloat(e.target.value);
+                if (weightKg >= 20 && weightKg <= 300) onProfileChange({ ...profile, weightKg });
+              }}
+              className={`${fieldClassName} w-20 text-right`}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Age</span>
+            <input
+              type="number"
+              min={10}
+              max={100}
+              value={profile.age}
+              onChange={(e) => {
+                const age = parseInt(e.target.value, 10);
+                if (age >= 10 && age <= 100) onProfileChange({ ...profile, age });
+              }}
+              className={`${fieldClassName} w-20 text-right`}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Sex</span>
+            <select
+              value={profile.sex}
+              onChange={(e) => onProfileChange({ ...profile, sex: e.target.value as Sex })}
+              className={fieldClassName}
+            >
+              <option value="male">Male</option>
+              <option value="female">Female</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={() => {
+          onApply(selected, profile);
+          setDraftMethod(null);
+          setAppliedProfile(profile);
+        }}
+        disabled={selected === method && !profileChanged}
+        className="w-full px-3 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Recalculate Calories
+      </button>
+    </div>
+  );
+}
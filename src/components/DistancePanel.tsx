@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Eye, EyeOff, Ruler } from 'lucide-react';
+import type { DistanceOptions } from '../types/tcx';
+
+interface DistancePanelProps {
+  hasPositions: boolean;
+  isPreviewing: boolean;
+  onPreview: (options: DistanceOptions | null) => void;
+  onApply: (options: DistanceOptions) => void;
+}
+
+const smoothingChoices = [
+  { value: 0, label: 'Off' },
+  { value: 3, label: '3 points' },
+  { value: 5, label: '5 points' },
+  { value: 9, label: '9 points' },
+  { value: 15, label: '15 points' },
+];
+
+export function DistancePanel({ hasPositions, isPreviewing, onPreview, onApply }: DistancePanelProps) {
+  const [options, setOptions] = useState<DistanceOptions>({ smoothing: 0, useElevation: false });
+
+  // Keep a running preview in step with the options
+  const updateOptions = (next: DistanceOptions) => {
+    setOptions(next);
+    if (isPreviewing) onPreview(next);
+  };
+
+  if (!hasPositions) {
+    return (
+      <p className="text-sm text-slate-400 dark:text-slate-500 text-center">
+        No GPS positions to compute distance from
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Rebuild the distance from the GPS track instead of the device's recorded values.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Smoothing</span>
+        <select
+          value={options.smoothing}
+          onChange={(e) => updateOptions({ ...options, smoothing: parseInt(e.target.value, 10) })}
+          className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        >
+          {smoothingChoices.map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+        <input
+          type="checkbox"
+          checked={options.useElevation}
+          onChange={(e) => updateOptions({ ...options, useElevation: e.target.checked })}
+        />
+        Include elevation changes (3D distance)
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => onPreview(isPreviewing ? null : options)}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition-colors"
+        >
+          {isPreviewing ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          {isPreviewing ? 'Hide' : 'Preview'}
+        </button>
+        <button
+          onClick={() => onApply(options)}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors"
+        >
+          <Ruler className="w-4 h-4" />
+          Recompute
+        </button>
+      </div>
+    </div>
+  );
+}
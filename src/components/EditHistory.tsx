@@ -0,0 +1,81 @@
+import { Undo2, Redo2, History } from 'lucide-react';
+import type { EditHistory as EditHistoryData } from '../types/tcx';
+
+interface EditHistoryProps {
+  history: EditHistoryData;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (position: number) => void;
+}
+
+export function EditHistory({ history, onUndo, onRedo, onSelect }: EditHistoryProps) {
+  const canUndo = history.position > 0;
+  const canRedo = history.position < history.entries.length;
+
+  const buttonClass = (enabled: boolean) => `
+    flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors
+    ${
+      enabled
+        ? 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300'
+        : 'bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 cursor-not-allowed'
+    }
+  `;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <button onClick={onUndo} disabled={!canUndo} className={buttonClass(canUndo)} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} className={buttonClass(canRedo)} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4" />
+          Redo
+        </button>
+      </div>
+
+      {history.entries.length === 0 ? (
+        <p className="text-sm text-slate-400 dark:text-slate-500 text-center">
+          No edits yet
+        </p>
+      ) : (
+        <ol className="space-y-1 max-h-48 overflow-y-auto">
+          {/* Selecting "Original file" undoes every edit */}
+          <li>
+            <button
+              onClick={() => onSelect(0)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-left text-sm transition-colors hover:bg-slate-100 dark:hover:bg-slate-700 ${
+                history.position === 0
+                  ? 'font-semibold text-primary-700 dark:text-primary-300'
+                  : 'text-slate-600 dark:text-slate-400'
+              }`}
+            >
+              <History className="w-4 h-4 shrink-0" />
+              Original file
+            </button>
+          </li>
+          {history.entries.map((entry, idx) => {
+            const position = idx + 1;
+            const isApplied = position <= history.position;
+            return (
+              <li key={idx}>
+                <button
+                  onClick={() => onSelect(position)}
+                  className={`w-full px-3 py-1.5 pl-9 rounded-md text-left text-sm transition-colors hover:bg-slate-100 dark:hover:bg-slate-700 ${
+                    position === history.position
+                      ? 'font-semibold text-primary-700 dark:text-primary-300'
+                      : isApplied
+                        ? 'text-slate-700 dark:text-slate-300'
+                        : 'text-slate-400 dark:text-slate-500 line-through'
+                  }`}
+                >
+                  {entry.label}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import type { ElevationGainOptions, ElevationMethod } from '../types/tcx';
+
+interface ElevationGainPanelProps {
+  options: ElevationGainOptions;
+  onChange: (options: ElevationGainOptions) => void;
+}
+
+const methodChoices: { value: ElevationMethod; label: string; description: string }[] = [
+  {
+    value: 'raw',
+    label: 'Raw sum',
+    description: 'Every change between trackpoints counts, so sensor noise adds up.',
+  },
+  {
+    value: 'hysteresis',
+    label: 'Threshold',
+    description: 'A climb or descent only counts once it exceeds the threshold, as most watches do.',
+  },
+  {
+    value: 'smoothed',
+    label: 'Smoothed',
+    description: 'Altitude is averaged over a window of trackpoints before summing.',
+  },
+];
+
+const windowChoices = [3, 5, 9, 15, 31];
+
+export function ElevationGainPanel({ options, onChange }: ElevationGainPanelProps) {
+  const current = methodChoices.find((choice) => choice.value === options.method);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">{current?.description}</p>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Method</span>
+        <select
+          value={options.method}
+          onChange={(e) => onChange({ ...options, method: e.target.value as ElevationMethod })}
+          className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        >
+          {methodChoices.map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {options.method === 'hysteresis' && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-700 dark:text-slate-300">Threshold (m)</span>
+          <input
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={options.threshold}
+            onChange={(e) => {
+              const threshold = parseFloat(e.target.value);
+              if (threshold > 0) onChange({ ...options, threshold });
+            }}
+            className="w-20 px-2 py-1 text-sm text-right bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+          />
+        </div>
+      )}
+
+      {options.method === 'smoothed' && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-700 dark:text-slate-300">Window</span>
+          <select
+            value={options.window}
+            onChange={(e) => onChange({ ...options, window: parseInt(e.target.value, 10) })}
+            className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+          >
+            {windowChoices.map((points) => (
+              <option key={points} value={points}>
+                {points} points
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
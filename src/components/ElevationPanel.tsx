@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { Mountain, Upload, X } from 'lucide-react';
+import type { TrackpointColumns } from '../types/tcx';
+import { pointCount, valueAt } from '../lib/columns';
+import { formatElevation } from '../lib/format';
+
+interface ElevationPanelProps {
+  trackpoints: TrackpointColumns;
+  tiles: string[];
+  correctedAltitudes: Float64Array | null;
+  onLoadTiles: (files: File[]) => void;
+  onClearTiles: () => void;
+  onApply: () => void;
+}
+
+export function ElevationPanel({
+  trackpoints,
+  tiles,
+  correctedAltitudes,
+  onLoadTiles,
+  onClearTiles,
+  onApply,
+}: ElevationPanelProps) {
+  // How many points the tiles cover, and how far off the recorded altitude is
+  const { covered, meanDifference } = useMemo(() => {
+    if (!correctedAltitudes) return { covered: 0, meanDifference: null };
+
+    let covered = 0;
+    let differenceSum = 0;
+    let differenceCount = 0;
+    correctedAltitudes.forEach((corrected, idx) => {
+      if (Number.isNaN(corrected)) return;
+      covered++;
+      const recorded = valueAt(trackpoints.altitude_meters, idx);
+      if (recorded !== null) {
+        differenceSum += Math.abs(recorded - corrected);
+        differenceCount++;
+      }
+    });
+
+    return {
+      covered,
+      meanDifference: differenceCount > 0 ? differenceSum / differenceCount : null,
+    };
+  }, [trackpoints, correctedAltitudes]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Replace the recorded altitude with a terrain model. Load SRTM <code>.hgt</code> tiles
+        (unzipped) or a GeoTIFF in latitude/longitude; nothing leaves your computer.
+      </p>
+
+      <label className="flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition-colors cursor-pointer">
+        <Upload className="w-4 h-4" />
+        Load Elevation Tiles
+        <input
+          type="file"
+          accept=".hgt,.tif,.tiff"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            onLoadTiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {tiles.length > 0 && (
+        <>
+          <ul className="space-y-1">
+            {tiles.map((tile, idx) => (
+              <li key={idx} className="text-sm text-slate-600 dark:text-slate-400 truncate">
+                {tile}
+              </li>
+            ))}
+          </ul>
+
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Covers {covered} of {pointCount(trackpoints)} trackpoints
+            {meanDifference !== null && (
+              <> · recorded altitude is off by {formatElevation(meanDifference)} on average</>
+            )}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={onClearTiles}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Unload
+            </button>
+            <button
+              onClick={onApply}
+              disabled={covered === 0}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Mountain className="w-4 h-4" />
+              Correct
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,14 @@ import { useCallback, useState } from 'react';
 import { Upload, FileText, X } from 'lucide-react';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   isLoading: boolean;
   currentFileName: string | null;
   onClear: () => void;
 }
 
 export function FileUpload({
-  onFileSelect,
+  onFilesSelect,
   isLoading,
   currentFileName,
   onClear,
@@ -31,22 +31,24 @@ export function FileUpload({
       e.preventDefault();
       setIsDragging(false);
 
-      const file = e.dataTransfer.files[0];
-      if (file && file.name.toLowerCase().endsWith('.tcx')) {
-        onFileSelect(file);
+      const files = Array.from(e.dataTransfer.files).filter((file) =>
+        /\.(tcx|gpx|fit)$/i.test(file.name)
+      );
+      if (files.length > 0) {
+        onFilesSelect(files);
       }
     },
-    [onFileSelect]
+    [onFilesSelect]
   );
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) {
-        onFileSelect(file);
+      const files = Array.from(e.target.files ?? []);
+      if (files.length > 0) {
+        onFilesSelect(files);
       }
     },
-    [onFileSelect]
+    [onFilesSelect]
   );
 
   if (currentFileName) {
@@ -84,7 +86,8 @@ export function FileUpload({
     >
       <input
         type="file"
-        accept=".tcx"
+        accept=".tcx,.gpx,.fit"
+        multiple
         onChange={handleFileInput}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         disabled={isLoading}
@@ -104,7 +107,7 @@ export function FileUpload({
 
         <div>
           <p className="text-lg font-medium text-slate-900 dark:text-slate-100">
-            {isLoading ? 'Loading...' : 'Drop your TCX file here'}
+            {isLoading ? 'Loading...' : 'Drop your TCX, GPX or FIT files here'}
           </p>
           <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
             or click to browse
@@ -112,7 +115,7 @@ export function FileUpload({
         </div>
 
         <p className="text-xs text-slate-400 dark:text-slate-500">
-          Supports Garmin TCX files
+          Supports Garmin TCX, GPX 1.1 and FIT activity files. Several files are merged into one activity
         </p>
       </div>
     </div>
@@ -0,0 +1,59 @@
+import type { TrackpointColumns } from '../types/tcx';
+import { trackpointAt } from '../lib/columns';
+import {
+  formatDistance,
+  formatDuration,
+  formatElevation,
+  formatHeartRate,
+  formatPace,
+} from '../lib/format';
+
+interface FocusReadoutProps {
+  trackpoints: TrackpointColumns;
+  /** Trackpoint hovered on the map or chart */
+  index: number | null;
+}
+
+function ReadoutValue({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+      <p className="text-sm font-medium text-slate-900 dark:text-slate-100 tabular-nums truncate">
+        {value}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * The values of the hovered trackpoint. It keeps its size without one, so
+ * the page doesn't shift as the pointer comes and goes.
+ */
+export function FocusReadout({ trackpoints, index }: FocusReadoutProps) {
+  const tp = index === null ? undefined : trackpointAt(trackpoints, index);
+  const startMs = trackpoints.timestamp_ms[0];
+  const show = <T,>(value: T | null | undefined, format: (value: T) => string) =>
+    value === null || value === undefined ? '--' : format(value);
+
+  return (
+    <div
+      title={tp ? undefined : "Hover over the route or the chart to see a point's values"}
+      className="grid grid-cols-4 sm:grid-cols-8 gap-3 px-3 py-1.5 bg-slate-50 dark:bg-slate-800/50 rounded-lg"
+    >
+      <ReadoutValue
+        label={index === null ? 'Point' : `Point ${index + 1}`}
+        value={show(tp, (tp) => formatDuration((tp.timestamp_ms - startMs) / 1000))}
+      />
+      <ReadoutValue
+        label="Clock"
+        value={show(tp, (tp) => new Date(tp.timestamp_ms).toLocaleTimeString())}
+      />
+      <ReadoutValue label="Distance" value={show(tp?.distance_meters, formatDistance)} />
+      <ReadoutValue label="Heart Rate" value={show(tp?.heart_rate, formatHeartRate)} />
+      <ReadoutValue label="Altitude" value={show(tp?.altitude_meters, formatElevation)} />
+      <ReadoutValue label="Pace" value={show(tp?.speed, formatPace)} />
+      <ReadoutValue label="Cadence" value={show(tp?.cadence, (rpm) => `${rpm} rpm`)} />
+      <ReadoutValue label="Power" value={show(tp?.power, (watts) => `${Math.round(watts)} W`)} />
+    </div>
+  );
+}
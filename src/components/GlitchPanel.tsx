@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import { Trash2, Spline, CheckCircle2 } from 'lucide-react';
+import type { GlitchRepair, JsGlitch, TrackpointColumns } from '../types/tcx';
+import { formatDuration, formatDistance } from '../lib/format';
+
+interface GlitchPanelProps {
+  glitches: JsGlitch[];
+  trackpoints: TrackpointColumns;
+  onRepair: (indices: number[], repair: GlitchRepair) => void;
+}
+
+export function GlitchPanel({ glitches, trackpoints, onRepair }: GlitchPanelProps) {
+  // Keyed by timestamp, which stays stable while other points are edited
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+
+  const selected = useMemo(
+    () => glitches.filter((g) => !deselected.has(g.time)).map((g) => g.index),
+    [glitches, deselected]
+  );
+
+  const toggle = (glitch: JsGlitch) => {
+    setDeselected((prev) => {
+      const next = new Set(prev);
+      if (next.has(glitch.time)) {
+        next.delete(glitch.time);
+      } else {
+        next.add(glitch.time);
+      }
+      return next;
+    });
+  };
+
+  if (glitches.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+        <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+        No GPS glitches found
+      </div>
+    );
+  }
+
+  const startMs = trackpoints.timestamp_ms[0] ?? 0;
+  const canRepair = selected.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        {glitches.length} {glitches.length === 1 ? 'point jumps' : 'points jump'} further than the
+        activity could have moved.
+      </p>
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {glitches.map((glitch) => (
+          <li key={glitch.time}>
+            <label className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!deselected.has(glitch.time)}
+                onChange={() => toggle(glitch)}
+              />
+              <span className="font-medium text-slate-700 dark:text-slate-300">
+                {formatDuration(((trackpoints.timestamp_ms[glitch.index] ?? startMs) - startMs) / 1000)}
+              </span>
+              <span className="flex-1 text-right text-slate-500 dark:text-slate-400">
+                {formatDistance(glitch.offset_meters)} off · {Math.round(glitch.implied_speed * 3.6)} km/h
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => onRepair(selected, 'interpolate')}
+          disabled={!canRepair}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Move the points onto the line between their neighbours"
+        >
+          <Spline className="w-4 h-4" />
+          Interpolate
+        </button>
+        <button
+          onClick={() => onRepair(selected, 'delete')}
+          disabled={!canRepair}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
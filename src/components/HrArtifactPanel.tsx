@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Spline, Eraser, Equal, CheckCircle2 } from 'lucide-react';
+import type {
+  HrArtifactDetection,
+  HrArtifactKind,
+  HrFix,
+  JsHrArtifact,
+  TrackpointColumns,
+  TrimRange,
+} from '../types/tcx';
+import { formatDuration } from '../lib/format';
+
+interface HrArtifactPanelProps {
+  artifacts: JsHrArtifact[];
+  trackpoints: TrackpointColumns;
+  trimRange: TrimRange;
+  detection: HrArtifactDetection;
+  onDetectionChange: (detection: HrArtifactDetection) => void;
+  onFix: (start: number, end: number, fix: HrFix, bpm?: number) => void;
+}
+
+const kindLabels: Record<HrArtifactKind, string> = {
+  dropout: 'Dropout',
+  jump: 'Spike',
+  flatline: 'Flatline',
+  cadence_lock: 'Cadence lock',
+};
+
+const inputClassName =
+  'w-16 px-2 py-1 text-sm text-right bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600';
+
+const buttonClassName =
+  'flex items-center justify-center gap-1.5 px-3 py-2 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors';
+
+export function HrArtifactPanel({
+  artifacts,
+  trackpoints,
+  trimRange,
+  detection,
+  onDetectionChange,
+  onFix,
+}: HrArtifactPanelProps) {
+  // Keyed by kind and start time, which survive edits elsewhere; null fixes
+  // the trim selection instead
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [bpm, setBpm] = useState(140);
+
+  const keyOf = (artifact: JsHrArtifact) => `${artifact.kind}-${artifact.start_time}`;
+  const selected = artifacts.find((artifact) => keyOf(artifact) === selectedKey);
+  const target = selected
+    ? { start: selected.start_index, end: selected.end_index }
+    : trimRange;
+
+  const startMs = trackpoints.timestamp_ms[0] ?? 0;
+  const offsetOf = (index: number) =>
+    formatDuration(((trackpoints.timestamp_ms[index] ?? startMs) - startMs) / 1000);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Max change (bpm/s)</span>
+        <input
+          type="number"
+          min={1}
+          value={detection.maxRate}
+          onChange={(e) => {
+            const maxRate = parseFloat(e.target.value);
+            if (maxRate > 0) onDetectionChange({ ...detection, maxRate });
+          }}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Flatline after (s)</span>
+        <input
+          type="number"
+          min={1}
+          value={detection.minSeconds}
+          onChange={(e) => {
+            const minSeconds = parseInt(e.target.value, 10);
+            if (minSeconds > 0) onDetectionChange({ ...detection, minSeconds });
+          }}
+          className={inputClassName}
+        />
+      </div>
+
+      {artifacts.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+          <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+          No heart rate artifacts found
+        </div>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {artifacts.map((artifact) => (
+            <li key={keyOf(artifact)}>
+              <label className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer">
+                <input
+                  type="radio"
+                  name="hr-artifact"
+                  checked={keyOf(artifact) === selectedKey}
+                  onChange={() => setSelectedKey(keyOf(artifact))}
+                />
+                <span className="font-medium text-slate-700 dark:text-slate-300">
+                  {offsetOf(artifact.start_index)}
+                </span>
+                <span className="flex-1 text-right text-slate-500 dark:text-slate-400">
+                  {kindLabels[artifact.kind]} · {artifact.end_index - artifact.start_index + 1} pts
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="flex items-center gap-2 px-3 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+        <input
+          type="radio"
+          name="hr-artifact"
+          checked={!selected}
+          onChange={() => setSelectedKey(null)}
+        />
+        Trim selection ({offsetOf(trimRange.start)} – {offsetOf(trimRange.end)})
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        <button
+          onClick={() => onFix(target.start, target.end, 'interpolate')}
+          className={buttonClassName}
+          title="Draw a line between the readings either side"
+        >
+          <Spline className="w-4 h-4" />
+          Interpolate
+        </button>
+        <button
+          onClick={() => onFix(target.start, target.end, 'clear')}
+          className={buttonClassName}
+          title="Remove the heart rate values"
+        >
+          <Eraser className="w-4 h-4" />
+          Clear
+        </button>
+        <button
+          onClick={() => onFix(target.start, target.end, 'constant', bpm)}
+          className={buttonClassName}
+          title="Set every value to the bpm below"
+        >
+          <Equal className="w-4 h-4" />
+          Set
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Constant (bpm)</span>
+        <input
+          type="number"
+          min={30}
+          max={250}
+          value={bpm}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            if (value > 0) setBpm(value);
+          }}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
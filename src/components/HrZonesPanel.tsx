@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import type {
+  HrZone,
+  HrZoneBasis,
+  HrZoneSettings,
+  TrackpointColumns,
+  TrimMode,
+  TrimRange,
+} from '../types/tcx';
+import { timeInZones, zoneColors } from '../lib/zones';
+import { formatDuration } from '../lib/format';
+
+interface HrZonesPanelProps {
+  trackpoints: TrackpointColumns;
+  trimRange: TrimRange;
+  trimMode: TrimMode;
+  /** Longest interval between readings that still counts, from the stats */
+  pauseSeconds: number;
+  settings: HrZoneSettings;
+  zones: HrZone[];
+  onSettingsChange: (settings: HrZoneSettings) => void;
+}
+
+const basisChoices: { value: HrZoneBasis; label: string }[] = [
+  { value: 'max_hr', label: 'Max heart rate' },
+  { value: 'lthr', label: 'Threshold (LTHR)' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const inputClassName =
+  'w-16 px-2 py-1 text-sm text-right bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600';
+
+function zoneRange(zone: HrZone): string {
+  if (zone.max === null) return `${zone.min}+ bpm`;
+  if (zone.min === 0) return `< ${zone.max} bpm`;
+  return `${zone.min}–${zone.max - 1} bpm`;
+}
+
+/** Parse a bpm input, ignoring anything that isn't a plausible heart rate */
+function parseBpm(value: string): number | null {
+  const bpm = parseInt(value, 10);
+  return bpm > 0 && bpm < 255 ? bpm : null;
+}
+
+export function HrZonesPanel({
+  trackpoints,
+  trimRange,
+  trimMode,
+  pauseSeconds,
+  settings,
+  zones,
+  onSettingsChange,
+}: HrZonesPanelProps) {
+  const distribution = useMemo(
+    () => timeInZones(trackpoints, zones, trimRange, trimMode, pauseSeconds),
+    [trackpoints, zones, trimRange, trimMode, pauseSeconds]
+  );
+  const totalSeconds = distribution.reduce((sum, entry) => sum + entry.seconds, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Zones from</span>
+        <select
+          value={settings.basis}
+          onChange={(e) => onSettingsChange({ ...settings, basis: e.target.value as HrZoneBasis })}
+          className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        >
+          {basisChoices.map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {settings.basis === 'max_hr' && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-700 dark:text-slate-300">Max HR (bpm)</span>
+          <input
+            type="number"
+            value={settings.maxHr}
+            onChange={(e) => {
+              const maxHr = parseBpm(e.target.value);
+              if (maxHr !== null) onSettingsChange({ ...settings, maxHr });
+            }}
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      {settings.basis === 'lthr' && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-700 dark:text-slate-300">LTHR (bpm)</span>
+          <input
+            type="number"
+            value={settings.lthr}
+            onChange={(e) => {
+              const lthr = parseBpm(e.target.value);
+              if (lthr !== null) onSettingsChange({ ...settings, lthr });
+            }}
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      {settings.basis === 'custom' && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-slate-700 dark:text-slate-300">Zone tops</span>
+          <div className="flex gap-1">
+            {settings.customBounds.map((bound, idx) => (
+              <input
+                key={idx}
+                type="number"
+                value={bound}
+                title={`Zone ${idx + 2} starts at`}
+                onChange={(e) => {
+                  const bpm = parseBpm(e.target.value);
+                  if (bpm === null) return;
+                  const customBounds = settings.customBounds.map((b, i) => (i === idx ? bpm : b));
+                  onSettingsChange({ ...settings, customBounds });
+                }}
+                className={inputClassName}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {totalSeconds === 0 ? (
+        <p className="text-sm text-slate-400 dark:text-slate-500 text-center">
+          No heart rate in the selected range
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {distribution.map(({ zone, seconds }) => {
+            const percent = (seconds / totalSeconds) * 100;
+            return (
+              <li key={zone.zone} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-slate-700 dark:text-slate-300">
+                    Z{zone.zone}{' '}
+                    <span className="font-normal text-slate-400 dark:text-slate-500">
+                      {zoneRange(zone)}
+                    </span>
+                  </span>
+                  <span className="text-slate-500 dark:text-slate-400">
+                    {formatDuration(seconds)} · {Math.round(percent)}%
+                  </span>
+                </div>
+                <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${percent}%`, backgroundColor: zoneColors[zone.zone - 1] }}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { Cpu, Trash2 } from 'lucide-react';
+import type {
+  JsActivityMetadata,
+  JsCreator,
+  LapIntensity,
+  MetadataEdit,
+  Sport,
+  TriggerMethod,
+} from '../types/tcx';
+import { formatTime } from '../lib/format';
+
+interface MetadataPanelProps {
+  metadata: JsActivityMetadata;
+  onEdit: (edit: MetadataEdit) => void;
+}
+
+const sports: Sport[] = ['Running', 'Biking', 'Other'];
+const intensities: LapIntensity[] = ['Active', 'Resting'];
+const triggerMethods: TriggerMethod[] = ['Manual', 'Distance', 'Location', 'Time', 'HeartRate'];
+
+const fieldClassName =
+  'px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600';
+
+const labelClassName = 'text-sm text-slate-700 dark:text-slate-300';
+
+const emptyCreator: JsCreator = {
+  name: '',
+  unit_id: null,
+  product_id: null,
+  version_major: null,
+  version_minor: null,
+};
+
+function parseCount(text: string): number | null {
+  const value = parseInt(text, 10);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+export function MetadataPanel({ metadata, onEdit }: MetadataPanelProps) {
+  const [lapIndex, setLapIndex] = useState(0);
+  const [creatorDraft, setCreatorDraft] = useState<JsCreator | null>(null);
+
+  // Trimming can leave fewer laps than the one picked
+  const lapNumber = Math.min(lapIndex, metadata.laps.length - 1);
+  const lap = metadata.laps[lapNumber];
+  const creator = creatorDraft ?? metadata.creator ?? emptyCreator;
+
+  // Text fields are uncontrolled and keyed by their value, so undo and redo
+  // reset them; they commit when they lose focus
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className={labelClassName}>Sport</span>
+        <select
+          value={metadata.sport}
+          onChange={(e) => onEdit({ field: 'sport', value: e.target.value as Sport })}
+          className={fieldClassName}
+        >
+          {!sports.includes(metadata.sport as Sport) && (
+            <option value={metadata.sport} disabled>
+              {metadata.sport}
+            </option>
+          )}
+          {sports.map((sport) => (
+            <option key={sport} value={sport}>
+              {sport}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        key={metadata.notes ?? ''}
+        defaultValue={metadata.notes ?? ''}
+        placeholder="Activity notes"
+        rows={2}
+        onBlur={(e) => {
+          if (e.target.value.trim() !== (metadata.notes ?? '')) {
+            onEdit({ field: 'notes', value: e.target.value });
+          }
+        }}
+        className={`${fieldClassName} w-full resize-y`}
+      />
+
+      {lap && (
+        <div className="space-y-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Lap</span>
+            <select
+              value={lapNumber}
+              onChange={(e) => setLapIndex(parseInt(e.target.value, 10))}
+              className={fieldClassName}
+            >
+              {metadata.laps.map((l, idx) => (
+                <option key={idx} value={idx}>
+                  {idx + 1} · {formatTime(l.start_time)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Intensity</span>
+            <select
+              value={lap.intensity}
+              onChange={(e) =>
+                onEdit({
+                  field: 'lapIntensity',
+                  lap: lapNumber,
+                  value: e.target.value as LapIntensity,
+                })
+              }
+              className={fieldClassName}
+            >
+              {intensities.map((intensity) => (
+                <option key={intensity} value={intensity}>
+                  {intensity}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Ended by</span>
+            <select
+              value={lap.trigger_method}
+              onChange={(e) =>
+                onEdit({
+                  field: 'lapTriggerMethod',
+                  lap: lapNumber,
+                  value: e.target.value as TriggerMethod,
+                })
+              }
+              className={fieldClassName}
+            >
+              {triggerMethods.map((method) => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className={labelClassName}>Calories</span>
+            <input
+              key={`${lapNumber}-${lap.calories}`}
+              type="number"
+              min={0}
+              defaultValue={lap.calories}
+              onBlur={(e) => {
+                const calories = parseCount(e.target.value);
+                if (calories === null) {
+                  e.target.value = String(lap.calories);
+                } else if (calories !== lap.calories) {
+                  onEdit({ field: 'lapCalories', lap: lapNumber, value: calories });
+                }
+              }}
+              className={`${fieldClassName} w-20 text-right`}
+            />
+          </div>
+
+          <input
+            key={`${lapNumber}-${lap.notes ?? ''}`}
+            defaultValue={lap.notes ?? ''}
+            placeholder="Lap notes"
+            onBlur={(e) => {
+              if (e.target.value.trim() !== (lap.notes ?? '')) {
+                onEdit({ field: 'lapNotes', lap: lapNumber, value: e.target.value });
+              }
+            }}
+            className={`${fieldClassName} w-full`}
+          />
+        </div>
+      )}
+
+      <div className="space-y-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+          <Cpu className="w-4 h-4" />
+          Device
+          {!metadata.creator && !creatorDraft && (
+            <span className="font-normal text-slate-500 dark:text-slate-400">(none recorded)</span>
+          )}
+        </div>
+
+        <input
+          value={creator.name}
+          placeholder="Name"
+          onChange={(e) => setCreatorDraft({ ...creator, name: e.target.value })}
+          className={`${fieldClassName} w-full`}
+        />
+        <div className="grid grid-cols-4 gap-2">
+          <input
+            value={creator.unit_id ?? ''}
+            placeholder="Unit ID"
+            inputMode="numeric"
+            onChange={(e) => setCreatorDraft({ ...creator, unit_id: parseCount(e.target.value) })}
+            className={`${fieldClassName} min-w-0`}
+          />
+          <input
+            value={creator.product_id ?? ''}
+            placeholder="Product ID"
+            inputMode="numeric"
+            onChange={(e) =>
+              setCreatorDraft({ ...creator, product_id: parseCount(e.target.value) })
+            }
+            className={`${fieldClassName} min-w-0`}
+          />
+          <input
+            value={creator.version_major ?? ''}
+            placeholder="Version"
+            inputMode="numeric"
+            onChange={(e) =>
+              setCreatorDraft({ ...creator, version_major: parseCount(e.target.value) })
+            }
+            className={`${fieldClassName} min-w-0`}
+          />
+          <input
+            value={creator.version_minor ?? ''}
+            placeholder="Minor"
+            inputMode="numeric"
+            onChange={(e) =>
+              setCreatorDraft({ ...creator, version_minor: parseCount(e.target.value) })
+            }
+            className={`${fieldClassName} min-w-0`}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              if (!creatorDraft) return;
+              onEdit({ field: 'creator', value: creatorDraft });
+              setCreatorDraft(null);
+            }}
+            disabled={!creatorDraft || creatorDraft.name.trim() === ''}
+            className="flex-1 px-3 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Device
+          </button>
+          {creatorDraft && (
+            <button
+              onClick={() => setCreatorDraft(null)}
+              className="px-3 py-2 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors"
+            >
+              Discard
+            </button>
+          )}
+          {metadata.creator && !creatorDraft && (
+            <button
+              onClick={() => onEdit({ field: 'creator', value: null })}
+              className="flex items-center gap-1.5 px-3 py-2 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors"
+              title="Remove the device block"
+            >
+              <Trash2 className="w-4 h-4" />
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { MousePointerClick, X, Download } from 'lucide-react';
+import type { ExportFormat, SplitPackaging, TrackpointColumns } from '../types/tcx';
+import { pointCount, valueAt } from '../lib/columns';
+import { formatDuration, formatDistance } from '../lib/format';
+
+interface SplitControlsProps {
+  trackpoints: TrackpointColumns;
+  splitPoints: number[];
+  isPlacing: boolean;
+  onPlacingChange: (placing: boolean) => void;
+  onToggleSplitPoint: (index: number) => void;
+  onClear: () => void;
+  onExport: (format: ExportFormat, packaging: SplitPackaging) => void;
+}
+
+export function SplitControls({
+  trackpoints,
+  splitPoints,
+  isPlacing,
+  onPlacingChange,
+  onToggleSplitPoint,
+  onClear,
+  onExport,
+}: SplitControlsProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('tcx');
+  const [packaging, setPackaging] = useState<SplitPackaging>('zip');
+
+  // Duration and distance of each part the split will produce
+  const parts = useMemo(() => {
+    const count = pointCount(trackpoints);
+    if (count === 0 || splitPoints.length === 0) return [];
+
+    const { timestamp_ms, distance_meters } = trackpoints;
+    const bounds = [0, ...splitPoints, count];
+    return bounds.slice(0, -1).map((start, idx) => {
+      const end = bounds[idx + 1] - 1;
+      return {
+        start,
+        offset: (timestamp_ms[start] - timestamp_ms[0]) / 1000,
+        duration: (timestamp_ms[end] - timestamp_ms[start]) / 1000,
+        distance: (valueAt(distance_meters, end) || 0) - (valueAt(distance_meters, start) || 0),
+      };
+    });
+  }, [trackpoints, splitPoints]);
+
+  const canExport = splitPoints.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={() => onPlacingChange(!isPlacing)}
+        className={`
+          w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors
+          ${
+            isPlacing
+              ? 'bg-amber-500 hover:bg-amber-600 text-white'
+              : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300'
+          }
+        `}
+      >
+        <MousePointerClick className="w-4 h-4" />
+        {isPlacing ? 'Done Placing Splits' : 'Place Split Markers'}
+      </button>
+
+      {isPlacing && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Click the chart or the route to add a split; click a marker again to remove it.
+        </p>
+      )}
+
+      {parts.length === 0 ? (
+        <p className="text-sm text-slate-400 dark:text-slate-500 text-center">
+          No split markers yet
+        </p>
+      ) : (
+        <ol className="space-y-1">
+          {parts.map((part, idx) => (
+            <li
+              key={part.start}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 dark:bg-slate-800/50 rounded-md text-sm"
+            >
+              <span className="font-medium text-slate-700 dark:text-slate-300">Part {idx + 1}</span>
+              <span className="flex-1 text-slate-500 dark:text-slate-400">
+                {formatDuration(part.duration)} · {formatDistance(part.distance)}
+              </span>
+              {/* Each part after the first starts at a removable marker */}
+              {idx > 0 && (
+                <button
+                  onClick={() => onToggleSplitPoint(part.start)}
+                  className="p-1 hover:bg-slate-200 dark:hover:bg-slate-700 rounded transition-colors"
+                  title={`Remove split at ${formatDuration(part.offset)}`}
+                >
+                  <X className="w-3.5 h-3.5 text-slate-500 dark:text-slate-400" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          className="px-2 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        >
+          <option value="tcx">TCX</option>
+          <option value="gpx">GPX</option>
+          <option value="fit">FIT</option>
+        </select>
+        <select
+          value={packaging}
+          onChange={(e) => setPackaging(e.target.value as SplitPackaging)}
+          className="px-2 py-1.5 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        >
+          <option value="zip">Zip archive</option>
+          <option value="files">Separate files</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onClear}
+          disabled={!canExport}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <X className="w-4 h-4" />
+          Clear
+        </button>
+        <button
+          onClick={() => onExport(exportFormat, packaging)}
+          disabled={!canExport}
+          className={`
+            flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors
+            ${
+              canExport
+                ? 'bg-green-600 hover:bg-green-700 text-white shadow-sm'
+                : 'bg-slate-200 dark:bg-slate-700 text-slate-400 dark:text-slate-500 cursor-not-allowed'
+            }
+          `}
+        >
+          <Download className="w-4 h-4" />
+          Export Parts
+        </button>
+      </div>
+    </div>
+  );
+}
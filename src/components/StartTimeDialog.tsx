@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { formatDuration } from '../lib/format';
+
+interface StartTimeDialogProps {
+  /** Current start of the activity, in ms since the epoch */
+  startMs: number;
+  onShift: (offsetMs: number) => void;
+  onClose: () => void;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+const quickShifts = [
+  { label: '−1 day', offsetMs: -DAY_MS },
+  { label: '−1 h', offsetMs: -HOUR_MS },
+  { label: '+1 h', offsetMs: HOUR_MS },
+  { label: '+1 day', offsetMs: DAY_MS },
+];
+
+const buttonClassName =
+  'px-3 py-2 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors';
+
+/** `YYYY-MM-DDTHH:MM:SS` in local time, as a datetime-local input expects */
+function toLocalInput(ms: number): string {
+  const date = new Date(ms);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+export function StartTimeDialog({ startMs, onShift, onClose }: StartTimeDialogProps) {
+  const [draftMs, setDraftMs] = useState(startMs);
+  const offsetMs = draftMs - startMs;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="start-time-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-white dark:bg-slate-800 rounded-2xl shadow-xl p-6 border border-slate-100 dark:border-slate-700 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h3
+            id="start-time-title"
+            className="text-lg font-semibold text-slate-900 dark:text-slate-100"
+          >
+            Change Start Time
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Every timestamp moves by the same amount, for a device clock or time zone that was
+          off. Currently {new Date(startMs).toLocaleString()}.
+        </p>
+
+        <input
+          type="datetime-local"
+          step={1}
+          value={toLocalInput(draftMs)}
+          onChange={(e) => {
+            const ms = new Date(e.target.value).getTime();
+            // The input has whole seconds; keep the start's fraction
+            if (Number.isFinite(ms)) setDraftMs(ms + (startMs % 1000));
+          }}
+          className="w-full px-3 py-2 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        />
+
+        <div className="grid grid-cols-4 gap-2">
+          {quickShifts.map((shift) => (
+            <button
+              key={shift.label}
+              onClick={() => setDraftMs(draftMs + shift.offsetMs)}
+              className={buttonClassName}
+            >
+              {shift.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            {offsetMs === 0
+              ? 'No change'
+              : `Shift by ${offsetMs < 0 ? '−' : '+'}${formatDuration(Math.abs(offsetMs) / 1000)}`}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className={buttonClassName}>
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                onShift(offsetMs);
+                onClose();
+              }}
+              disabled={offsetMs === 0}
+              className="px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
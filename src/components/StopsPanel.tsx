@@ -0,0 +1,99 @@
+import { PauseCircle, Scissors, CheckCircle2 } from 'lucide-react';
+import type { JsStop, StopDetection, TrackpointColumns } from '../types/tcx';
+import { formatDuration } from '../lib/format';
+
+interface StopsPanelProps {
+  stops: JsStop[];
+  trackpoints: TrackpointColumns;
+  detection: StopDetection;
+  onDetectionChange: (detection: StopDetection) => void;
+  onRemove: () => void;
+}
+
+const inputClassName =
+  'w-20 px-2 py-1 text-sm text-right bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600';
+
+export function StopsPanel({
+  stops,
+  trackpoints,
+  detection,
+  onDetectionChange,
+  onRemove,
+}: StopsPanelProps) {
+  const startMs = trackpoints.timestamp_ms[0] ?? 0;
+  const stoppedSeconds = stops.reduce((sum, stop) => sum + stop.duration_seconds, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">Slower than (km/h)</span>
+        <input
+          type="number"
+          min={0.1}
+          step={0.1}
+          value={Math.round(detection.maxSpeed * 36) / 10}
+          onChange={(e) => {
+            const kmh = parseFloat(e.target.value);
+            if (kmh > 0) onDetectionChange({ ...detection, maxSpeed: kmh / 3.6 });
+          }}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-700 dark:text-slate-300">For at least (s)</span>
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={detection.minSeconds}
+          onChange={(e) => {
+            const minSeconds = parseInt(e.target.value, 10);
+            if (minSeconds > 0) onDetectionChange({ ...detection, minSeconds });
+          }}
+          className={inputClassName}
+        />
+      </div>
+
+      {stops.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+          <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+          No stops found
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            {stops.length} {stops.length === 1 ? 'stop' : 'stops'} totalling{' '}
+            {formatDuration(stoppedSeconds)}.
+          </p>
+
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {stops.map((stop) => (
+              <li
+                key={stop.start_time}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm"
+              >
+                <PauseCircle className="w-4 h-4 text-slate-400" />
+                <span className="font-medium text-slate-700 dark:text-slate-300">
+                  {formatDuration(((trackpoints.timestamp_ms[stop.start_index] ?? startMs) - startMs) / 1000)}
+                </span>
+                <span className="flex-1 text-right text-slate-500 dark:text-slate-400">
+                  {formatDuration(stop.duration_seconds)}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={onRemove}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-primary-600 hover:bg-primary-700 text-white rounded-lg font-medium transition-colors"
+            title="Cut the stops out and close the time gaps"
+          >
+            <Scissors className="w-4 h-4" />
+            Remove All Stops
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { createContext, memo, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import {
   AreaChart,
   Area,
@@ -9,103 +9,294 @@ import {
   ResponsiveContainer,
   ReferenceLine,
   ReferenceArea,
+  usePlotArea,
 } from 'recharts';
-import type { JsTrackpoint, TrimRange } from '../types/tcx';
-import { formatDuration } from '../lib/format';
+import type { MouseHandlerDataParam } from 'recharts';
+import type {
+  ChartAxis,
+  ChartSeries,
+  ChartWindow,
+  HrZone,
+  JsHrArtifact,
+  SourceMarker,
+  TrackpointColumns,
+  TrimMode,
+  TrimRange,
+} from '../types/tcx';
+import {
+  axisValues,
+  formatAxisValue,
+  formatSeriesValue,
+  panWindow,
+  seriesConfigs,
+  seriesValues,
+  zoomWindow,
+} from '../lib/timeline';
+import { pointCount, valueAt } from '../lib/columns';
+import { largestTriangleThreeBuckets, mergeIndices } from '../lib/downsample';
+import { zoneColors } from '../lib/zones';
 
 interface TimelineChartProps {
-  trackpoints: JsTrackpoint[];
+  trackpoints: TrackpointColumns;
   trimRange: TrimRange;
-  dataType: 'heart_rate' | 'altitude' | 'pace';
+  trimMode: TrimMode;
+  /** Series drawn against the left axis */
+  dataType: ChartSeries;
+  /** A second series drawn against an axis on the right */
+  overlay?: ChartSeries | null;
+  /** What the x-axis measures */
+  xAxis?: ChartAxis;
+  /** Trackpoints shown, all of them unless zoomed */
+  visibleRange?: ChartWindow;
+  /** Called with the trackpoints to show after zooming or panning */
+  onVisibleRangeChange?: (range: ChartWindow) => void;
+  /** Draw the x-axis ticks; stacked charts only need them once */
+  showXAxis?: boolean;
+  /** Labelled points along the track, such as where merged files join */
+  markers?: SourceMarker[];
+  /** Indices where the activity will be split */
+  splitPoints?: number[];
+  /** Called with the trackpoint index when the chart is clicked */
+  onPointClick?: (index: number) => void;
+  /** Called with the span dragged across the chart */
+  onRangeSelect?: (range: TrimRange) => void;
+  /** DEM elevation per trackpoint, drawn against the recorded altitude */
+  correctedAltitudes?: Float64Array | null;
+  /** Heart rate zones, drawn as coloured bands behind the heart rate */
+  hrZones?: HrZone[];
+  /** Heart rate readings flagged as artifacts, highlighted in the heart rate view */
+  hrArtifacts?: JsHrArtifact[];
+  /** Indices selected in the trackpoint table, in order */
+  selectedPoints?: number[];
+  /** Trackpoint hovered here or on the map, marked with a cursor line */
+  focusedIndex?: number | null;
+  /** Called with the trackpoint under the pointer, or null when it leaves */
+  onFocusChange?: (index: number | null) => void;
 }
 
 interface ChartData {
   index: number;
-  time: number;
+  x: number;
   value: number | null;
-  inRange: boolean;
+  corrected: number | null;
+  overlay: number | null;
 }
 
-export function TimelineChart({ trackpoints, trimRange, dataType }: TimelineChartProps) {
-  const { data, minY, maxY, unit, color, label } = useMemo(() => {
-    const startTime = trackpoints[0]?.timestamp_ms || 0;
-
-    const chartData: ChartData[] = trackpoints.map((tp, idx) => {
-      let value: number | null = null;
-
-      switch (dataType) {
-        case 'heart_rate':
-          value = tp.heart_rate;
-          break;
-        case 'altitude':
-          value = tp.altitude_meters;
-          break;
-        case 'pace': {
-          // Calculate pace as min/km using distance and time delta
-          if (idx > 0 && tp.distance_meters !== null) {
-            const prevTp = trackpoints[idx - 1];
-            const timeDelta = (tp.timestamp_ms - prevTp.timestamp_ms) / 1000;
-            const distDelta = tp.distance_meters - (prevTp.distance_meters || 0);
-            if (distDelta > 0 && timeDelta > 0) {
-              // Convert to min/km
-              value = (timeDelta / distDelta) * 1000 / 60;
-              // Clamp unreasonable values
-              if (value > 20) value = 20;
-            }
-          }
-          break;
-        }
+// Every chart keeps room for a right axis, whether it has one or not, so
+// stacked charts line up
+const Y_AXIS_WIDTH = 45;
+const CHART_MARGIN = { top: 10, right: 10, left: 0, bottom: 0 };
+
+/**
+ * Points drawn per series in view, more than a chart is pixels wide. Zooming
+ * in narrows the view, so it shows more of the points there.
+ */
+const MAX_CHART_POINTS = 1000;
+
+/** Zoom per pixel of wheel scrolling; pinching on a trackpad scrolls with Ctrl held */
+const WHEEL_ZOOM_SPEED = 0.002;
+const PINCH_ZOOM_SPEED = 0.01;
+
+// The focused index reaches the cursor through context, so moving it doesn't
+// redraw the series, which is slow on large files
+const FocusContext = createContext<number | null>(null);
+
+/** Vertical line at the focused trackpoint, placed by its x value */
+function FocusCursor({ xs, range }: { xs: Float64Array; range: ChartWindow }) {
+  const index = useContext(FocusContext);
+  const plot = usePlotArea();
+  if (index === null || !plot || index < range.start || index > range.end) return null;
+
+  const span = xs[range.end] - xs[range.start] || 1;
+  const x = plot.x + ((xs[index] - xs[range.start]) / span) * plot.width;
+  return (
+    <line
+      x1={x}
+      x2={x}
+      y1={plot.y}
+      y2={plot.y + plot.height}
+      strokeWidth={1.5}
+      pointerEvents="none"
+      className="stroke-slate-700 dark:stroke-slate-200"
+    />
+  );
+}
+
+/** Smallest and largest of the values, padded, for a y-axis */
+function valueDomain(values: (number | null)[]): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value === null) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  if (min > max) return [0, 100];
+  const padding = (max - min) * 0.1 || 10;
+  return [Math.max(0, min - padding), max + padding];
+}
+
+export function TimelineChart({ focusedIndex = null, ...props }: TimelineChartProps) {
+  return (
+    <FocusContext.Provider value={focusedIndex}>
+      <ChartView {...props} />
+    </FocusContext.Provider>
+  );
+}
+
+const ChartView = memo(function ChartView({
+  trackpoints,
+  trimRange,
+  trimMode,
+  dataType,
+  overlay = null,
+  xAxis = 'time',
+  visibleRange,
+  onVisibleRangeChange,
+  showXAxis = true,
+  markers = [],
+  splitPoints = [],
+  onPointClick,
+  onRangeSelect,
+  correctedAltitudes = null,
+  hrZones = [],
+  hrArtifacts = [],
+  selectedPoints = [],
+  onFocusChange,
+}: Omit<TimelineChartProps, 'focusedIndex'>) {
+  const showCorrected = dataType === 'altitude' && correctedAltitudes !== null;
+  const { color, label } = seriesConfigs[dataType];
+  const overlayConfig = overlay ? seriesConfigs[overlay] : null;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The span being dragged across, from where the drag started
+  const [brush, setBrush] = useState<TrimRange | null>(null);
+  // A drag ends in a click too, which mustn't count as one
+  const wasDragged = useRef(false);
+
+  const count = pointCount(trackpoints);
+  const maxIndex = Math.max(count - 1, 0);
+  const rangeStart = Math.min(Math.max(visibleRange?.start ?? 0, 0), maxIndex);
+  const rangeEnd = Math.min(Math.max(visibleRange?.end ?? maxIndex, rangeStart), maxIndex);
+  const range = useMemo(() => ({ start: rangeStart, end: rangeEnd }), [rangeStart, rangeEnd]);
+
+  const values = useMemo(() => seriesValues(trackpoints, dataType), [trackpoints, dataType]);
+  const overlayValues = useMemo(
+    () => (overlay ? seriesValues(trackpoints, overlay) : null),
+    [trackpoints, overlay]
+  );
+  const xs = useMemo(() => axisValues(trackpoints, xAxis), [trackpoints, xAxis]);
+
+  const { data, minY, maxY, overlayMinY, overlayMaxY } = useMemo(() => {
+    // Each series keeps its own peaks, at the points it needs
+    const sample = (series: ArrayLike<number | null> | null) =>
+      series
+        ? largestTriangleThreeBuckets(xs, series, range.start, range.end, MAX_CHART_POINTS)
+        : [];
+    const indices = mergeIndices(
+      sample(values),
+      sample(showCorrected ? correctedAltitudes : null),
+      sample(overlayValues)
+    );
+
+    const chartData: ChartData[] = indices.map((idx) => ({
+      index: idx,
+      x: xs[idx],
+      value: values[idx],
+      corrected: showCorrected && correctedAltitudes ? valueAt(correctedAltitudes, idx) : null,
+      overlay: overlayValues?.[idx] ?? null,
+    }));
+
+    // The y-axes fit what's in view, so zooming in shows the detail
+    const [minY, maxY] = valueDomain(chartData.flatMap((d) => [d.value, d.corrected]));
+    const [overlayMinY, overlayMaxY] = valueDomain(chartData.map((d) => d.overlay));
+    return { data: chartData, minY, maxY, overlayMinY, overlayMaxY };
+  }, [range, xs, values, overlayValues, showCorrected, correctedAltitudes]);
+
+  const hasData = data.some((d) => d.value !== null || d.corrected !== null);
+
+  // Wheel and pinch zoom around the pointer; sideways or Shift+wheel and
+  // two-finger drags pan. The listeners are added by hand, as React's are
+  // passive and can't keep the page from scrolling.
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || !onVisibleRangeChange || !hasData) return;
+
+    const plotBounds = () => {
+      const rect = element.getBoundingClientRect();
+      const left = rect.left + CHART_MARGIN.left + Y_AXIS_WIDTH;
+      const width = rect.width - CHART_MARGIN.left - CHART_MARGIN.right - 2 * Y_AXIS_WIDTH;
+      return { left, width: Math.max(width, 1) };
+    };
+
+    // The trackpoint under a screen position, found by its x value
+    const indexAt = (clientX: number) => {
+      const { left, width } = plotBounds();
+      const fraction = Math.min(Math.max((clientX - left) / width, 0), 1);
+      const target = xs[range.start] + fraction * (xs[range.end] - xs[range.start]);
+      let low = range.start;
+      let high = range.end;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (xs[mid] < target) low = mid + 1;
+        else high = mid;
+      }
+      return low;
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const span = range.end - range.start;
+      if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        const pixels = e.shiftKey ? e.deltaY || e.deltaX : e.deltaX;
+        onVisibleRangeChange(panWindow(range, (pixels / plotBounds().width) * span, count));
+        return;
       }
+      const factor = Math.exp(e.deltaY * (e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED));
+      onVisibleRangeChange(zoomWindow(range, indexAt(e.clientX), factor, count));
+    };
 
-      return {
-        index: idx,
-        time: (tp.timestamp_ms - startTime) / 1000,
-        value,
-        inRange: idx >= trimRange.start && idx <= trimRange.end,
-      };
+    // Two fingers zoom by how far apart they move and pan by where their
+    // middle goes
+    let pinch: { distance: number; middle: number; anchor: number } | null = null;
+    const touchGeometry = (touches: TouchList) => ({
+      distance: Math.abs(touches[0].clientX - touches[1].clientX) || 1,
+      middle: (touches[0].clientX + touches[1].clientX) / 2,
     });
 
-    const validValues = chartData
-      .filter((d) => d.value !== null)
-      .map((d) => d.value as number);
-
-    const minVal = validValues.length > 0 ? Math.min(...validValues) : 0;
-    const maxVal = validValues.length > 0 ? Math.max(...validValues) : 100;
-    const padding = (maxVal - minVal) * 0.1 || 10;
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      const { distance, middle } = touchGeometry(e.touches);
+      pinch = { distance, middle, anchor: indexAt(middle) };
+    };
 
-    const configs = {
-      heart_rate: { unit: 'bpm', color: '#ef4444', label: 'Heart Rate' },
-      altitude: { unit: 'm', color: '#10b981', label: 'Altitude' },
-      pace: { unit: 'min/km', color: '#f59e0b', label: 'Pace' },
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      const { distance, middle } = touchGeometry(e.touches);
+      const zoomed = zoomWindow(range, pinch.anchor, pinch.distance / distance, count);
+      const span = zoomed.end - zoomed.start;
+      pinch = { ...pinch, distance, middle };
+      onVisibleRangeChange(panWindow(zoomed, ((pinch.middle - middle) / plotBounds().width) * span, count));
     };
 
-    return {
-      data: chartData,
-      minY: Math.max(0, minVal - padding),
-      maxY: maxVal + padding,
-      ...configs[dataType],
+    const handleTouchEnd = () => {
+      pinch = null;
     };
-  }, [trackpoints, trimRange, dataType]);
-
-  const formatYAxis = (value: number) => {
-    if (dataType === 'pace') {
-      const mins = Math.floor(value);
-      const secs = Math.round((value - mins) * 60);
-      return `${mins}:${secs.toString().padStart(2, '0')}`;
-    }
-    return Math.round(value).toString();
-  };
 
-  const formatTooltipValue = (value: number) => {
-    if (dataType === 'pace') {
-      const mins = Math.floor(value);
-      const secs = Math.round((value - mins) * 60);
-      return `${mins}:${secs.toString().padStart(2, '0')} ${unit}`;
-    }
-    return `${Math.round(value)} ${unit}`;
-  };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    element.addEventListener('touchstart', handleTouchStart, { passive: true });
+    element.addEventListener('touchmove', handleTouchMove, { passive: false });
+    element.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('touchstart', handleTouchStart);
+      element.removeEventListener('touchmove', handleTouchMove);
+      element.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [onVisibleRangeChange, hasData, xs, range, count]);
 
-  if (data.every((d) => d.value === null)) {
+  if (!hasData) {
     return (
       <div className="h-full flex items-center justify-center bg-slate-50 dark:bg-slate-800/50 rounded-lg">
         <p className="text-sm text-slate-400 dark:text-slate-500">
@@ -115,13 +306,66 @@ export function TimelineChart({ trackpoints, trimRange, dataType }: TimelineChar
     );
   }
 
-  const trimStartTime = data[trimRange.start]?.time || 0;
-  const trimEndTime = data[trimRange.end]?.time || 0;
+  // Recharts reports positions within the data shown, not the whole track
+  const indexOf = (state: MouseHandlerDataParam) => {
+    const position = Number(state.activeTooltipIndex);
+    return Number.isInteger(position) && data[position] ? data[position].index : null;
+  };
+  const xOf = (index: number) => xs[index];
+  const inView = (index: number) => index >= range.start && index <= range.end;
+
+  const selectionStart = selectedPoints[0];
+  const selectionEnd = selectedPoints[selectedPoints.length - 1];
 
   return (
-    <div className="h-full">
+    <div ref={containerRef} className="h-full" style={{ touchAction: 'pan-y' }}>
       <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <AreaChart
+          data={data}
+          margin={{
+            ...CHART_MARGIN,
+            right: CHART_MARGIN.right + (overlayConfig ? 0 : Y_AXIS_WIDTH),
+          }}
+          onClick={(state) => {
+            if (wasDragged.current) {
+              wasDragged.current = false;
+              return;
+            }
+            const index = indexOf(state);
+            if (onPointClick && index !== null) {
+              onPointClick(index);
+            }
+          }}
+          onMouseDown={(state) => {
+            const index = indexOf(state);
+            if (onRangeSelect && index !== null) {
+              setBrush({ start: index, end: index });
+              wasDragged.current = false;
+            }
+          }}
+          onMouseMove={(state) => {
+            const index = indexOf(state);
+            if (index !== null) onFocusChange?.(index);
+            if (brush && index !== null && index !== brush.end) {
+              setBrush({ ...brush, end: index });
+              wasDragged.current = true;
+            }
+          }}
+          onMouseUp={() => {
+            if (brush && onRangeSelect && brush.start !== brush.end) {
+              onRangeSelect({
+                start: Math.min(brush.start, brush.end),
+                end: Math.max(brush.start, brush.end),
+              });
+            }
+            setBrush(null);
+          }}
+          onMouseLeave={() => {
+            setBrush(null);
+            onFocusChange?.(null);
+          }}
+          style={onPointClick || onRangeSelect ? { cursor: 'crosshair', userSelect: 'none' } : undefined}
+        >
           <defs>
             <linearGradient id={`gradient-${dataType}`} x1="0" y1="0" x2="0" y2="1">
               <stop offset="5%" stopColor={color} stopOpacity={0.3} />
@@ -136,8 +380,12 @@ export function TimelineChart({ trackpoints, trimRange, dataType }: TimelineChar
           />
 
           <XAxis
-            dataKey="time"
-            tickFormatter={(value) => formatDuration(value)}
+            dataKey="x"
+            type="number"
+            domain={[xOf(range.start), Math.max(xOf(range.end), xOf(range.start) + 1)]}
+            allowDataOverflow
+            hide={!showXAxis}
+            tickFormatter={(value) => formatAxisValue(xAxis, value)}
             stroke="#94a3b8"
             fontSize={11}
             tickLine={false}
@@ -146,14 +394,28 @@ export function TimelineChart({ trackpoints, trimRange, dataType }: TimelineChar
 
           <YAxis
             domain={[minY, maxY]}
-            tickFormatter={formatYAxis}
+            tickFormatter={(value) => formatSeriesValue(dataType, value)}
             stroke="#94a3b8"
             fontSize={11}
             tickLine={false}
             axisLine={false}
-            width={45}
+            width={Y_AXIS_WIDTH}
           />
 
+          {overlay && overlayConfig && (
+            <YAxis
+              yAxisId="overlay"
+              orientation="right"
+              domain={[overlayMinY, overlayMaxY]}
+              tickFormatter={(value) => formatSeriesValue(overlay, value)}
+              stroke={overlayConfig.color}
+              fontSize={11}
+              tickLine={false}
+              axisLine={false}
+              width={Y_AXIS_WIDTH}
+            />
+          )}
+
           <Tooltip
             contentStyle={{
               backgroundColor: 'rgba(255, 255, 255, 0.95)',
@@ -161,34 +423,140 @@ export function TimelineChart({ trackpoints, trimRange, dataType }: TimelineChar
               borderRadius: '8px',
               boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
             }}
-            labelFormatter={(value) => `Time: ${formatDuration(value as number)}`}
-            formatter={(value: number) => [formatTooltipValue(value), label]}
+            labelFormatter={(value) =>
+              `${xAxis === 'time' ? 'Time' : 'Distance'}: ${formatAxisValue(xAxis, value as number)}`
+            }
+            formatter={(value: number, name) => {
+              if (name === 'overlay' && overlay && overlayConfig) {
+                return [formatSeriesValue(overlay, value, true), overlayConfig.label];
+              }
+              return [
+                formatSeriesValue(dataType, value, true),
+                name === 'corrected' ? 'DEM altitude' : label,
+              ];
+            }}
           />
 
-          {/* Highlight trimmed area */}
+          {/* Heart rate zone bands */}
+          {dataType === 'heart_rate' &&
+            hrZones.map((zone) => (
+              <ReferenceArea
+                key={`zone-${zone.zone}`}
+                y1={zone.min}
+                y2={zone.max ?? maxY}
+                fill={zoneColors[zone.zone - 1]}
+                fillOpacity={0.08}
+                ifOverflow="hidden"
+              />
+            ))}
+
+          {/* Highlight trimmed area, or the band that will be removed when cutting */}
           <ReferenceArea
-            x1={trimStartTime}
-            x2={trimEndTime}
-            fill={color}
-            fillOpacity={0.1}
+            x1={xOf(trimRange.start)}
+            x2={xOf(trimRange.end)}
+            fill={trimMode === 'cut' ? '#ef4444' : color}
+            fillOpacity={trimMode === 'cut' ? 0.2 : 0.1}
+            ifOverflow="hidden"
           />
 
+          {/* Heart rate artifacts */}
+          {dataType === 'heart_rate' &&
+            hrArtifacts
+              .filter(
+                (artifact) => artifact.end_index >= range.start && artifact.start_index <= range.end
+              )
+              .map((artifact) =>
+                artifact.start_index === artifact.end_index ? (
+                  <ReferenceLine
+                    key={`artifact-${artifact.kind}-${artifact.start_index}`}
+                    x={xOf(artifact.start_index)}
+                    stroke="#dc2626"
+                    strokeOpacity={0.6}
+                  />
+                ) : (
+                  <ReferenceArea
+                    key={`artifact-${artifact.kind}-${artifact.start_index}`}
+                    x1={xOf(artifact.start_index)}
+                    x2={xOf(artifact.end_index)}
+                    fill="#dc2626"
+                    fillOpacity={0.2}
+                    ifOverflow="hidden"
+                  />
+                )
+              )}
+
+          {/* Seams between merged files */}
+          {markers
+            .filter((marker) => marker.index > 0 && inView(marker.index))
+            .map((marker) => (
+              <ReferenceLine
+                key={marker.index}
+                x={xOf(marker.index)}
+                stroke="#a855f7"
+                strokeWidth={1}
+                label={{ value: marker.label, position: 'insideTopLeft', fontSize: 10, fill: '#a855f7' }}
+              />
+            ))}
+
+          {/* Split markers */}
+          {splitPoints.filter(inView).map((index) => (
+            <ReferenceLine
+              key={`split-${index}`}
+              x={xOf(index)}
+              stroke="#f59e0b"
+              strokeWidth={2}
+              strokeDasharray="2 2"
+            />
+          ))}
+
+          {/* Selected trackpoints, as a line or the span they cover */}
+          {selectionStart !== undefined && selectionEnd !== selectionStart && (
+            <ReferenceArea
+              x1={xOf(selectionStart)}
+              x2={xOf(selectionEnd)}
+              fill="#06b6d4"
+              fillOpacity={0.15}
+              ifOverflow="hidden"
+            />
+          )}
+          {selectionStart !== undefined && selectionEnd === selectionStart && inView(selectionStart) && (
+            <ReferenceLine x={xOf(selectionStart)} stroke="#06b6d4" strokeWidth={2} />
+          )}
+
+          {/* Span being dragged */}
+          {brush && brush.start !== brush.end && (
+            <ReferenceArea
+              x1={xOf(brush.start)}
+              x2={xOf(brush.end)}
+              fill="#64748b"
+              fillOpacity={0.2}
+              stroke="#64748b"
+              strokeDasharray="3 3"
+              ifOverflow="hidden"
+            />
+          )}
+
           {/* Trim start line */}
-          <ReferenceLine
-            x={trimStartTime}
-            stroke="#22c55e"
-            strokeWidth={2}
-            strokeDasharray="4 4"
-          />
+          {inView(trimRange.start) && (
+            <ReferenceLine
+              x={xOf(trimRange.start)}
+              stroke="#22c55e"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+            />
+          )}
 
           {/* Trim end line */}
-          <ReferenceLine
-            x={trimEndTime}
-            stroke="#ef4444"
-            strokeWidth={2}
-            strokeDasharray="4 4"
-          />
+          {inView(trimRange.end) && (
+            <ReferenceLine
+              x={xOf(trimRange.end)}
+              stroke="#ef4444"
+              strokeWidth={2}
+              strokeDasharray="4 4"
+            />
+          )}
 
+          {/* Zooming and panning redraw constantly, so nothing animates */}
           <Area
             type="monotone"
             dataKey="value"
@@ -196,9 +564,41 @@ export function TimelineChart({ trackpoints, trimRange, dataType }: TimelineChar
             strokeWidth={2}
             fill={`url(#gradient-${dataType})`}
             connectNulls
+            isAnimationActive={false}
           />
+
+          {/* DEM profile over the recorded one */}
+          {showCorrected && (
+            <Area
+              type="monotone"
+              dataKey="corrected"
+              stroke="#6366f1"
+              strokeWidth={2}
+              strokeDasharray="5 3"
+              fill="none"
+              connectNulls
+              isAnimationActive={false}
+            />
+          )}
+
+          {/* Second series on its own axis */}
+          {overlay && overlayConfig && (
+            <Area
+              type="monotone"
+              dataKey="overlay"
+              yAxisId="overlay"
+              stroke={overlayConfig.color}
+              strokeWidth={1.5}
+              fill="none"
+              connectNulls
+              isAnimationActive={false}
+            />
+          )}
+
+          {/* Point hovered here or on the map */}
+          <FocusCursor xs={xs} range={range} />
         </AreaChart>
       </ResponsiveContainer>
     </div>
   );
-}
+});
@@ -0,0 +1,226 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { ComponentProps } from 'react';
+import { ZoomOut } from 'lucide-react';
+import type { ChartAxis, ChartSeries, ChartWindow } from '../types/tcx';
+import { hasValues, pointCount } from '../lib/columns';
+import { allSeries, fullWindow, hasSeries, panWindow, seriesConfigs } from '../lib/timeline';
+import { TimelineChart } from './TimelineChart';
+
+/** Everything the stacked charts share; the stack picks the series, axis and zoom */
+type TimelineStackProps = Omit<
+  ComponentProps<typeof TimelineChart>,
+  'dataType' | 'overlay' | 'xAxis' | 'visibleRange' | 'onVisibleRangeChange' | 'showXAxis'
+>;
+
+/** A zoomed window, with the number of trackpoints it was made for */
+interface Zoom extends ChartWindow {
+  count: number;
+}
+
+const defaultSeries: ChartSeries[] = ['heart_rate', 'altitude', 'pace', 'cadence', 'power'];
+
+const fieldClassName =
+  'px-2 py-1 text-xs bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600';
+
+/** Where the zoomed window sits in the whole track; drag it to pan */
+function ZoomBar({
+  range,
+  count,
+  onChange,
+}: {
+  range: ChartWindow;
+  count: number;
+  onChange: (range: ChartWindow) => void;
+}) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; range: ChartWindow } | null>(null);
+  const maxIndex = Math.max(count - 1, 1);
+
+  return (
+    <div
+      ref={trackRef}
+      className="relative h-3 bg-slate-100 dark:bg-slate-700/50 rounded-full"
+      title="Drag to pan"
+    >
+      <div
+        className="absolute inset-y-0 bg-primary-400/60 hover:bg-primary-500/70 rounded-full cursor-grab active:cursor-grabbing touch-none"
+        style={{
+          left: `${(range.start / maxIndex) * 100}%`,
+          width: `max(${((range.end - range.start) / maxIndex) * 100}%, 0.75rem)`,
+        }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragRef.current = { x: e.clientX, range };
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          const width = trackRef.current?.clientWidth;
+          if (!drag || !width) return;
+          onChange(panWindow(drag.range, ((e.clientX - drag.x) / width) * maxIndex, count));
+        }}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+      />
+    </div>
+  );
+}
+
+/**
+ * The series stacked on one shared x-axis. Zooming or panning any chart
+ * moves them all, and each can carry a second series on a right axis.
+ */
+export function TimelineStack(props: TimelineStackProps) {
+  const { trackpoints, correctedAltitudes } = props;
+  const [chosen, setChosen] = useState<ChartSeries[]>(defaultSeries);
+  const [overlays, setOverlays] = useState<Partial<Record<ChartSeries, ChartSeries>>>({});
+  const [axis, setAxis] = useState<ChartAxis>('time');
+  const [zoom, setZoom] = useState<Zoom | null>(null);
+
+  const available = useMemo(
+    () =>
+      allSeries.filter(
+        (series) =>
+          hasSeries(trackpoints, series) || (series === 'altitude' && correctedAltitudes != null)
+      ),
+    [trackpoints, correctedAltitudes]
+  );
+  const hasDistance = useMemo(() => hasValues(trackpoints.distance_meters), [trackpoints]);
+  const xAxis = axis === 'distance' && !hasDistance ? 'time' : axis;
+  const shown = allSeries.filter((series) => chosen.includes(series) && available.includes(series));
+
+  // A zoom is kept through edits that leave the trackpoint count alone,
+  // such as fixing heart rate, and dropped by ones that don't
+  const count = pointCount(trackpoints);
+  const visibleRange = zoom && zoom.count === count ? zoom : undefined;
+
+  const handleVisibleRangeChange = useCallback(
+    (range: ChartWindow) => {
+      const full = fullWindow(count);
+      setZoom(range.start === full.start && range.end === full.end ? null : { ...range, count });
+    },
+    [count]
+  );
+
+  const toggleSeries = (series: ChartSeries) => {
+    setChosen((prev) =>
+      prev.includes(series) ? prev.filter((s) => s !== series) : [...prev, series]
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {allSeries.map((series) => {
+          const { label, color } = seriesConfigs[series];
+          const isAvailable = available.includes(series);
+          const isShown = shown.includes(series);
+          return (
+            <button
+              key={series}
+              onClick={() => toggleSeries(series)}
+              disabled={!isAvailable}
+              title={isAvailable ? undefined : `No ${label.toLowerCase()} recorded`}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                isShown
+                  ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                  : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+              }`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+              {label}
+            </button>
+          );
+        })}
+
+        <div className="ml-auto flex items-center gap-2">
+          <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg">
+            {(['time', 'distance'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setAxis(option)}
+                disabled={option === 'distance' && !hasDistance}
+                className={`px-2.5 py-1 rounded-md text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                  xAxis === option
+                    ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 shadow-sm'
+                    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                }`}
+              >
+                {option === 'time' ? 'Time' : 'Distance'}
+              </button>
+            ))}
+          </div>
+          {visibleRange && (
+            <button
+              onClick={() => setZoom(null)}
+              title="Show the whole activity"
+              className="p-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              <ZoomOut className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {shown.length === 0 && (
+        <div className="h-32 flex items-center justify-center bg-slate-50 dark:bg-slate-800/50 rounded-lg">
+          <p className="text-sm text-slate-400 dark:text-slate-500">Pick a series to show</p>
+        </div>
+      )}
+
+      {shown.map((series, idx) => {
+        const isLast = idx === shown.length - 1;
+        const overlay = overlays[series] ?? null;
+        return (
+          <div key={series}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium" style={{ color: seriesConfigs[series].color }}>
+                {seriesConfigs[series].label}
+              </span>
+              <select
+                value={overlay ?? ''}
+                onChange={(e) =>
+                  setOverlays((prev) => ({
+                    ...prev,
+                    [series]: (e.target.value || undefined) as ChartSeries | undefined,
+                  }))
+                }
+                className={fieldClassName}
+                title="Draw a second series against a right axis"
+              >
+                <option value="">No overlay</option>
+                {available
+                  .filter((other) => other !== series)
+                  .map((other) => (
+                    <option key={other} value={other}>
+                      + {seriesConfigs[other].label}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className={isLast ? 'h-40' : 'h-32'}>
+              <TimelineChart
+                {...props}
+                dataType={series}
+                overlay={overlay && available.includes(overlay) ? overlay : null}
+                xAxis={xAxis}
+                visibleRange={visibleRange}
+                onVisibleRangeChange={handleVisibleRangeChange}
+                showXAxis={isLast}
+              />
+            </div>
+          </div>
+        );
+      })}
+
+      {visibleRange && (
+        <ZoomBar range={visibleRange} count={count} onChange={handleVisibleRangeChange} />
+      )}
+
+      <p className="text-xs text-slate-400 dark:text-slate-500">
+        Scroll or pinch to zoom, Shift+scroll or drag the bar to pan, and drag across a chart to
+        set the trim range.
+      </p>
+    </div>
+  );
+}
@@ -1,18 +1,180 @@
-import { useEffect, useMemo, useRef } from 'react';
-import { MapContainer, TileLayer, Polyline, CircleMarker, useMap } from 'react-leaflet';
-import type { LatLngBoundsExpression, LatLngTuple } from 'leaflet';
-import type { JsTrackpoint, TrimRange } from '../types/tcx';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  MapContainer,
+  TileLayer,
+  Polyline,
+  CircleMarker,
+  Marker,
+  Tooltip,
+  useMap,
+  useMapEvents,
+} from 'react-leaflet';
+import { CRS, divIcon, latLng } from 'leaflet';
+import type {
+  DragEndEvent,
+  LatLngBoundsExpression,
+  LatLngTuple,
+  LeafletEventHandlerFnMap,
+  LeafletMouseEvent,
+  Marker as LeafletMarker,
+  Point,
+} from 'leaflet';
+import type { SourceMarker, TrackpointColumns, TrimMode, TrimRange } from '../types/tcx';
+import { hasPosition, pointCount } from '../lib/columns';
+import { simplifyPath } from '../lib/downsample';
 
 interface TrackMapProps {
-  trackpoints: JsTrackpoint[];
+  trackpoints: TrackpointColumns;
   trimRange: TrimRange;
+  trimMode: TrimMode;
+  /** Labelled points along the track, such as where merged files join */
+  markers?: SourceMarker[];
+  /** Indices where the activity will be split */
+  splitPoints?: number[];
+  /** Indices of suspected GPS glitches */
+  glitchIndices?: number[];
+  /** Indices selected in the trackpoint table */
+  selectedPoints?: number[];
+  /** Called with the nearest trackpoint index when the route is clicked */
+  onPointClick?: (index: number) => void;
+  /** Show draggable handles on the trackpoints in view */
+  isEditingRoute?: boolean;
+  /** Called when a handle is dropped at a new position */
+  onPointMove?: (index: number, latitude: number, longitude: number) => void;
+  /** Trackpoint hovered here or on the chart, marked on the route */
+  focusedIndex?: number | null;
+  /** Called with the trackpoint nearest the pointer, or null away from the route */
+  onFocusChange?: (index: number | null) => void;
 }
 
-function MapBoundsUpdater({ bounds }: { bounds: LatLngBoundsExpression | null }) {
+/** Selected points beyond this many aren't marked, to keep the map responsive */
+const MAX_SELECTED_MARKERS = 500;
+
+/** Handles closer together than this many pixels are thinned out */
+const HANDLE_SPACING = 16;
+/** Handles beyond this many aren't shown, however far the map is zoomed in */
+const MAX_ROUTE_HANDLES = 400;
+
+/** The pointer counts as on the route within this many pixels of a trackpoint */
+const HOVER_DISTANCE = 24;
+
+/** Route detail smaller than this many pixels at the current zoom isn't drawn */
+const ROUTE_TOLERANCE = 1;
+
+/** The trackpoints that have a position, in order */
+interface Route {
+  /** Trackpoint index of each position */
+  indices: number[];
+  positions: LatLngTuple[];
+  /** Each position in pixels at zoom level 0, for simplifying the line */
+  xs: Float64Array;
+  ys: Float64Array;
+  bounds: LatLngBoundsExpression | null;
+}
+
+function buildRoute(trackpoints: TrackpointColumns): Route {
+  const indices: number[] = [];
+  const positions: LatLngTuple[] = [];
+  for (let idx = 0; idx < pointCount(trackpoints); idx++) {
+    if (hasPosition(trackpoints, idx)) {
+      indices.push(idx);
+      positions.push([trackpoints.latitude[idx], trackpoints.longitude[idx]]);
+    }
+  }
+
+  const xs = new Float64Array(positions.length);
+  const ys = new Float64Array(positions.length);
+  // A loop rather than Math.min(...lats), which overflows the call stack on long tracks
+  let [minLat, minLng, maxLat, maxLng] = [Infinity, Infinity, -Infinity, -Infinity];
+  positions.forEach(([lat, lng], k) => {
+    const point = CRS.EPSG3857.latLngToPoint(latLng(lat, lng), 0);
+    xs[k] = point.x;
+    ys[k] = point.y;
+    minLat = Math.min(minLat, lat);
+    minLng = Math.min(minLng, lng);
+    maxLat = Math.max(maxLat, lat);
+    maxLng = Math.max(maxLng, lng);
+  });
+
+  const bounds: LatLngBoundsExpression | null =
+    positions.length >= 2
+      ? [
+          [minLat, minLng],
+          [maxLat, maxLng],
+        ]
+      : null;
+  return { indices, positions, xs, ys, bounds };
+}
+
+/** Position in `indices` of the first one at or after `target` */
+function lowerBound(indices: number[], target: number): number {
+  let low = 0;
+  let high = indices.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (indices[mid] < target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/** Index of the trackpoint closest to a position, or -1 if none have one */
+function nearestTrackpoint(
+  trackpoints: TrackpointColumns,
+  latitude: number,
+  longitude: number
+): number {
+  // A degree of longitude shrinks towards the poles
+  const scale = Math.cos((latitude * Math.PI) / 180) ** 2;
+  let nearest = -1;
+  let nearestDistance = Infinity;
+  for (let idx = 0; idx < pointCount(trackpoints); idx++) {
+    // Points without a position are NaN, which is never nearer
+    const distance =
+      (trackpoints.latitude[idx] - latitude) ** 2 +
+      (trackpoints.longitude[idx] - longitude) ** 2 * scale;
+    if (distance < nearestDistance) {
+      nearest = idx;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/** Positions of the trackpoints at `indices`, skipping any without one */
+function positionsOf(trackpoints: TrackpointColumns, indices: number[]) {
+  return indices.flatMap((index) => {
+    if (index < 0 || index >= pointCount(trackpoints) || !hasPosition(trackpoints, index)) return [];
+    const position: LatLngTuple = [trackpoints.latitude[index], trackpoints.longitude[index]];
+    return [{ index, position }];
+  });
+}
+
+const handleIcon = divIcon({
+  className: '',
+  html: '<div class="w-3 h-3 rounded-full bg-white border-2 border-cyan-600 shadow cursor-move"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6],
+});
+
+function MapBoundsUpdater({
+  bounds,
+  keepView,
+}: {
+  bounds: LatLngBoundsExpression | null;
+  keepView: boolean;
+}) {
   const map = useMap();
 
+  // Moving a point changes the bounds too, but shouldn't move the map away
+  // from it, so refits are skipped while editing the route
+  const keepViewRef = useRef(keepView);
+  useEffect(() => {
+    keepViewRef.current = keepView;
+  }, [keepView]);
+
   useEffect(() => {
-    if (bounds) {
+    if (bounds && !keepViewRef.current) {
       map.fitBounds(bounds, { padding: [30, 30] });
     }
   }, [map, bounds]);
@@ -20,46 +182,223 @@ function MapBoundsUpdater({ bounds }: { bounds: LatLngBoundsExpression | null })
   return null;
 }
 
-export function TrackMap({ trackpoints, trimRange }: TrackMapProps) {
-  const mapRef = useRef<L.Map>(null);
+/**
+ * The route and its trimmed part, simplified to what shows at the current
+ * zoom, so long tracks draw quickly and zooming in brings back the detail
+ */
+function RouteLines({
+  route,
+  trimmed,
+  trimMode,
+  eventHandlers,
+}: {
+  route: Route;
+  /** Positions in `route` of the first and last trimmed points, if any */
+  trimmed: { first: number; last: number } | null;
+  trimMode: TrimMode;
+  eventHandlers?: LeafletEventHandlerFnMap;
+}) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
 
-  const { positions, trimmedPositions, bounds, startPos, endPos } = useMemo(() => {
-    const allPositions: LatLngTuple[] = [];
-    const trimmed: LatLngTuple[] = [];
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
 
-    trackpoints.forEach((tp, idx) => {
-      if (tp.latitude !== null && tp.longitude !== null) {
-        const pos: LatLngTuple = [tp.latitude, tp.longitude];
-        allPositions.push(pos);
+  const kept = useMemo(
+    () => simplifyPath(route.xs, route.ys, ROUTE_TOLERANCE / 2 ** zoom),
+    [route, zoom]
+  );
+  const positions = useMemo(() => kept.map((k) => route.positions[k]), [route, kept]);
+
+  // The trimmed part ends exactly at the trim points, wherever the
+  // simplified line has its corners
+  const trimmedPositions = useMemo(() => {
+    if (!trimmed) return [];
+    const { first, last } = trimmed;
+    const inside = kept.filter((k) => k > first && k < last).map((k) => route.positions[k]);
+    return first === last
+      ? [route.positions[first]]
+      : [route.positions[first], ...inside, route.positions[last]];
+  }, [route, kept, trimmed]);
 
-        if (idx >= trimRange.start && idx <= trimRange.end) {
-          trimmed.push(pos);
+  return (
+    <>
+      {/* Full track (grayed out, or kept as a whole when cutting) */}
+      <Polyline
+        positions={positions}
+        eventHandlers={eventHandlers}
+        pathOptions={
+          trimMode === 'cut'
+            ? { color: '#3b82f6', weight: 5, opacity: 1 }
+            : { color: '#94a3b8', weight: 4, opacity: 0.5 }
         }
+      />
+
+      {/* Trimmed track (highlighted), or the section that will be cut out */}
+      {trimmedPositions.length > 0 && (
+        <Polyline
+          positions={trimmedPositions}
+          eventHandlers={eventHandlers}
+          pathOptions={
+            trimMode === 'cut'
+              ? { color: '#ef4444', weight: 5, opacity: 0.8, dashArray: '6 6' }
+              : { color: '#3b82f6', weight: 5, opacity: 1 }
+          }
+        />
+      )}
+    </>
+  );
+}
+
+/** Reports the trackpoint nearest the pointer while it's close to the route */
+function RouteHover({
+  trackpoints,
+  onFocusChange,
+}: {
+  trackpoints: TrackpointColumns;
+  onFocusChange: (index: number | null) => void;
+}) {
+  const map = useMap();
+
+  useMapEvents({
+    mousemove: (e: LeafletMouseEvent) => {
+      const index = nearestTrackpoint(trackpoints, e.latlng.lat, e.latlng.lng);
+      if (index === -1) return;
+
+      const position: LatLngTuple = [trackpoints.latitude[index], trackpoints.longitude[index]];
+      const pixels = map.latLngToContainerPoint(position).distanceTo(e.containerPoint);
+      onFocusChange(pixels <= HOVER_DISTANCE ? index : null);
+    },
+    mouseout: () => onFocusChange(null),
+  });
+
+  return null;
+}
+
+/**
+ * Draggable handles on the trackpoints in view, thinned to one per few pixels.
+ * Memoized so hovering elsewhere doesn't rebind hundreds of markers.
+ */
+const RouteHandles = memo(function RouteHandles({
+  trackpoints,
+  onPointMove,
+}: {
+  trackpoints: TrackpointColumns;
+  onPointMove: (index: number, latitude: number, longitude: number) => void;
+}) {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }));
+
+  useMapEvents({
+    moveend: () => setView({ bounds: map.getBounds(), zoom: map.getZoom() }),
+  });
+
+  const handles = useMemo(() => {
+    const visible = view.bounds.pad(0.1);
+    const picked: { index: number; position: LatLngTuple }[] = [];
+    let last: Point | null = null;
+
+    const count = pointCount(trackpoints);
+    for (let index = 0; index < count && picked.length < MAX_ROUTE_HANDLES; index++) {
+      if (!hasPosition(trackpoints, index)) continue;
+
+      const lat = trackpoints.latitude[index];
+      const lng = trackpoints.longitude[index];
+      const position = latLng(lat, lng);
+      if (!visible.contains(position)) {
+        last = null;
+        continue;
       }
-    });
-
-    const start = trimmed[0] || null;
-    const end = trimmed[trimmed.length - 1] || null;
-
-    let bounds: LatLngBoundsExpression | null = null;
-    if (allPositions.length >= 2) {
-      const lats = allPositions.map((p) => p[0]);
-      const lngs = allPositions.map((p) => p[1]);
-      bounds = [
-        [Math.min(...lats), Math.min(...lngs)],
-        [Math.max(...lats), Math.max(...lngs)],
-      ];
+
+      const point = map.project(position, view.zoom);
+      if (last && point.distanceTo(last) < HANDLE_SPACING) continue;
+
+      picked.push({ index, position: [lat, lng] });
+      last = point;
     }
 
-    return {
-      positions: allPositions,
-      trimmedPositions: trimmed,
-      bounds,
-      startPos: start,
-      endPos: end,
-    };
-  }, [trackpoints, trimRange]);
+    return picked;
+  }, [map, trackpoints, view]);
+
+  return handles.map((handle) => (
+    <Marker
+      key={handle.index}
+      position={handle.position}
+      icon={handleIcon}
+      draggable
+      eventHandlers={{
+        dragend: (e: DragEndEvent) => {
+          // Put the handle back until the edit comes through, so a rejected
+          // move doesn't leave it stranded
+          const marker = e.target as LeafletMarker;
+          const { lat, lng } = marker.getLatLng();
+          marker.setLatLng(handle.position);
+          onPointMove(handle.index, lat, lng);
+        },
+      }}
+    >
+      <Tooltip>Point {handle.index + 1}</Tooltip>
+    </Marker>
+  ));
+});
+
+export function TrackMap({
+  trackpoints,
+  trimRange,
+  trimMode,
+  markers = [],
+  splitPoints = [],
+  glitchIndices = [],
+  selectedPoints = [],
+  onPointClick,
+  isEditingRoute = false,
+  onPointMove,
+  focusedIndex = null,
+  onFocusChange,
+}: TrackMapProps) {
+  const mapRef = useRef<L.Map>(null);
+
+  const route = useMemo(() => buildRoute(trackpoints), [trackpoints]);
+
+  // Moving the trim range only looks up its ends, instead of going over
+  // the whole route again
+  const trimmed = useMemo(() => {
+    const first = lowerBound(route.indices, trimRange.start);
+    const last = lowerBound(route.indices, trimRange.end + 1) - 1;
+    return first <= last ? { first, last } : null;
+  }, [route, trimRange]);
+  const startPos = trimmed && route.positions[trimmed.first];
+  const endPos = trimmed && route.positions[trimmed.last];
+
+  // Kept between renders, so moving the focus only moves its own marker
+  const overlays = useMemo(
+    () => ({
+      markers: markers.flatMap((marker) => {
+        const [point] = positionsOf(trackpoints, [marker.index]);
+        if (marker.index === 0 || !point) return [];
+        return [{ ...marker, position: point.position }];
+      }),
+      splits: positionsOf(trackpoints, splitPoints),
+      glitches: positionsOf(trackpoints, glitchIndices),
+      selected: positionsOf(trackpoints, selectedPoints.slice(0, MAX_SELECTED_MARKERS)),
+    }),
+    [trackpoints, markers, splitPoints, glitchIndices, selectedPoints]
+  );
+
+  // Clicks on the route resolve to the closest trackpoint
+  const routeHandlers = useMemo(
+    () =>
+      onPointClick && {
+        click: (e: LeafletMouseEvent) => {
+          const nearest = nearestTrackpoint(trackpoints, e.latlng.lat, e.latlng.lng);
+          if (nearest !== -1) onPointClick(nearest);
+        },
+      },
+    [trackpoints, onPointClick]
+  );
 
+  const { positions, bounds } = route;
   if (positions.length === 0) {
     return (
       <div className="h-full flex items-center justify-center bg-slate-100 dark:bg-slate-800 rounded-lg">
@@ -68,6 +407,8 @@ export function TrackMap({ trackpoints, trimRange }: TrackMapProps) {
     );
   }
 
+  const focused = focusedIndex === null ? undefined : positionsOf(trackpoints, [focusedIndex])[0];
+
   const center = positions[Math.floor(positions.length / 2)] || positions[0];
 
   return (
@@ -83,29 +424,81 @@ export function TrackMap({ trackpoints, trimRange }: TrackMapProps) {
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
 
-      <MapBoundsUpdater bounds={bounds} />
+      <MapBoundsUpdater bounds={bounds} keepView={isEditingRoute} />
 
-      {/* Full track (grayed out) */}
-      <Polyline
-        positions={positions}
-        pathOptions={{
-          color: '#94a3b8',
-          weight: 4,
-          opacity: 0.5,
-        }}
+      <RouteLines
+        route={route}
+        trimmed={trimmed}
+        trimMode={trimMode}
+        eventHandlers={routeHandlers}
       />
 
-      {/* Trimmed track (highlighted) */}
-      {trimmedPositions.length > 0 && (
-        <Polyline
-          positions={trimmedPositions}
+      {/* Seams between merged files */}
+      {overlays.markers.map((marker) => (
+        <CircleMarker
+          key={marker.index}
+          center={marker.position}
+          radius={6}
           pathOptions={{
-            color: '#3b82f6',
-            weight: 5,
-            opacity: 1,
+            color: '#ffffff',
+            fillColor: '#a855f7',
+            fillOpacity: 1,
+            weight: 2,
+          }}
+        >
+          <Tooltip>{marker.label}</Tooltip>
+        </CircleMarker>
+      ))}
+
+      {/* Suspected GPS glitches */}
+      {overlays.glitches.map((glitch) => (
+        <CircleMarker
+          key={`glitch-${glitch.index}`}
+          center={glitch.position}
+          radius={5}
+          pathOptions={{
+            color: '#dc2626',
+            fillColor: '#fca5a5',
+            fillOpacity: 1,
+            weight: 2,
+          }}
+        >
+          <Tooltip>GPS glitch</Tooltip>
+        </CircleMarker>
+      ))}
+
+      {/* Points selected in the table */}
+      {overlays.selected.map((point) => (
+        <CircleMarker
+          key={`selected-${point.index}`}
+          center={point.position}
+          radius={4}
+          pathOptions={{
+            color: '#0891b2',
+            fillColor: '#67e8f9',
+            fillOpacity: 1,
+            weight: 2,
           }}
         />
-      )}
+      ))}
+
+      {/* Split markers, removed again by clicking them */}
+      {overlays.splits.map((split, idx) => (
+        <CircleMarker
+          key={`split-${split.index}`}
+          center={split.position}
+          radius={7}
+          pathOptions={{
+            color: '#ffffff',
+            fillColor: '#f59e0b',
+            fillOpacity: 1,
+            weight: 2,
+          }}
+          eventHandlers={onPointClick && { click: () => onPointClick(split.index) }}
+        >
+          <Tooltip>Split {idx + 1}</Tooltip>
+        </CircleMarker>
+      ))}
 
       {/* Start marker */}
       {startPos && (
@@ -134,6 +527,31 @@ export function TrackMap({ trackpoints, trimRange }: TrackMapProps) {
           }}
         />
       )}
+
+      {/* Point hovered here or on the chart */}
+      {focused && (
+        <CircleMarker
+          center={focused.position}
+          radius={6}
+          interactive={false}
+          pathOptions={{
+            color: '#0f172a',
+            fillColor: '#ffffff',
+            fillOpacity: 1,
+            weight: 3,
+          }}
+        />
+      )}
+
+      {/* Follows the pointer, except while dragging handles */}
+      {onFocusChange && !isEditingRoute && (
+        <RouteHover trackpoints={trackpoints} onFocusChange={onFocusChange} />
+      )}
+
+      {/* Route editing handles, above everything else */}
+      {isEditingRoute && onPointMove && (
+        <RouteHandles trackpoints={trackpoints} onPointMove={onPointMove} />
+      )}
     </MapContainer>
   );
 }
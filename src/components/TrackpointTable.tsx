@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { EditableField, TrackpointColumns } from '../types/tcx';
+import { pointCount, valueAt } from '../lib/columns';
+import { formatDuration } from '../lib/format';
+
+interface TrackpointTableProps {
+  trackpoints: TrackpointColumns;
+  selectedPoints: number[];
+  onSelect: (indices: number[]) => void;
+  onUpdate: (indices: number[], field: EditableField, value: number | null) => void;
+}
+
+interface Column {
+  field: EditableField;
+  label: string;
+  digits: number;
+}
+
+const columns: Column[] = [
+  { field: 'latitude', label: 'Lat', digits: 6 },
+  { field: 'longitude', label: 'Lon', digits: 6 },
+  { field: 'altitude_meters', label: 'Alt (m)', digits: 1 },
+  { field: 'distance_meters', label: 'Dist (m)', digits: 1 },
+  { field: 'heart_rate', label: 'HR', digits: 0 },
+  { field: 'cadence', label: 'Cad', digits: 0 },
+];
+
+// Rows have a fixed height, so only the ones in view need rendering
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 8;
+
+const gridClassName = 'grid grid-cols-[3.5rem_4.5rem_repeat(6,minmax(0,1fr))] gap-2 px-3';
+
+interface EditingCell {
+  index: number;
+  field: EditableField;
+  draft: string;
+}
+
+function formatValue(value: number | null, digits: number): string {
+  return value === null ? '' : value.toFixed(digits);
+}
+
+export function TrackpointTable({
+  trackpoints,
+  selectedPoints,
+  onSelect,
+  onUpdate,
+}: TrackpointTableProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<number | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+
+  const selected = useMemo(() => new Set(selectedPoints), [selectedPoints]);
+  const count = pointCount(trackpoints);
+  const startMs = trackpoints.timestamp_ms[0] ?? 0;
+  // Rows are read from the columns as they scroll into view
+  const cellValue = (index: number, field: EditableField) => valueAt(trackpoints[field], index);
+
+  // Bring a selection made on the chart or map into view
+  const firstSelected = selectedPoints[0];
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || firstSelected === undefined) return;
+
+    const top = firstSelected * ROW_HEIGHT;
+    if (top < container.scrollTop || top + ROW_HEIGHT > container.scrollTop + VIEWPORT_HEIGHT) {
+      container.scrollTop = top - VIEWPORT_HEIGHT / 2 + ROW_HEIGHT / 2;
+    }
+  }, [firstSelected]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    count - 1,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+
+  const handleRowClick = (index: number, e: React.MouseEvent) => {
+    const anchor = anchorRef.current;
+    if (e.shiftKey && anchor !== null) {
+      const [from, to] = anchor < index ? [anchor, index] : [index, anchor];
+      onSelect(Array.from({ length: to - from + 1 }, (_, i) => from + i));
+      return;
+    }
+
+    anchorRef.current = index;
+    if (e.ctrlKey || e.metaKey) {
+      onSelect(
+        selected.has(index)
+          ? selectedPoints.filter((point) => point !== index)
+          : [...selectedPoints, index]
+      );
+    } else {
+      onSelect([index]);
+    }
+  };
+
+  /** Write the edited value to the cell's row, or to every selected row if it is one of them */
+  const commit = () => {
+    if (!editing) return;
+    setEditing(null);
+
+    const draft = editing.draft.trim();
+    const value = draft === '' ? null : Number(draft);
+    if (value !== null && !Number.isFinite(value)) return;
+
+    const column = columns.find((c) => c.field === editing.field);
+    const current = cellValue(editing.index, editing.field);
+    if (column && formatValue(current, column.digits) === draft) return;
+
+    onUpdate(selected.has(editing.index) ? selectedPoints : [editing.index], editing.field, value);
+  };
+
+  const rows = [];
+  for (let index = first; index <= last; index++) {
+    const isSelected = selected.has(index);
+
+    rows.push(
+      <div
+        key={index}
+        onClick={(e) => handleRowClick(index, e)}
+        className={`${gridClassName} absolute left-0 right-0 items-center text-sm cursor-pointer select-none ${
+          isSelected
+            ? 'bg-primary-50 dark:bg-primary-900/30'
+            : 'hover:bg-slate-50 dark:hover:bg-slate-800/50'
+        }`}
+        style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+      >
+        <span className="text-slate-400 dark:text-slate-500 tabular-nums">{index + 1}</span>
+        <span className="text-slate-700 dark:text-slate-300 tabular-nums">
+          {formatDuration((trackpoints.timestamp_ms[index] - startMs) / 1000)}
+        </span>
+        {columns.map((column) =>
+          editing?.index === index && editing.field === column.field ? (
+            <input
+              key={column.field}
+              autoFocus
+              value={editing.draft}
+              onChange={(e) => setEditing({ ...editing, draft: e.target.value })}
+              onBlur={commit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                if (e.key === 'Escape') setEditing(null);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              className="w-full px-1 py-0.5 text-sm text-right tabular-nums bg-white dark:bg-slate-900 text-slate-900 dark:text-slate-100 rounded border border-primary-400"
+            />
+          ) : (
+            <span
+              key={column.field}
+              onDoubleClick={() =>
+                setEditing({
+                  index,
+                  field: column.field,
+                  draft: formatValue(cellValue(index, column.field), column.digits),
+                })
+              }
+              className="text-right tabular-nums text-slate-700 dark:text-slate-300 truncate"
+            >
+              {formatValue(cellValue(index, column.field), column.digits) || '–'}
+            </span>
+          )
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>
+          Double-click a value to edit it; with several rows selected (Shift or Ctrl/⌘ click) the
+          value goes to all of them. Leave it empty to remove the value.
+        </span>
+        {selectedPoints.length > 0 && (
+          <button
+            onClick={() => onSelect([])}
+            className="shrink-0 ml-4 text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            Clear selection ({selectedPoints.length})
+          </button>
+        )}
+      </div>
+
+      <div
+        className={`${gridClassName} py-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide border-b border-slate-200 dark:border-slate-700`}
+      >
+        <span>#</span>
+        <span>Time</span>
+        {columns.map((column) => (
+          <span key={column.field} className="text-right">
+            {column.label}
+          </span>
+        ))}
+      </div>
+
+      <div
+        ref={containerRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-y-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        <div className="relative" style={{ height: count * ROW_HEIGHT }}>
+          {rows}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,52 +1,135 @@
-import { useCallback, useMemo } from 'react';
-import { Scissors, RotateCcw, Download, Play, Flag } from 'lucide-react';
-import type { JsTrackpoint, TrimRange } from '../types/tcx';
+import { useCallback, useMemo, useState } from 'react';
+import { Scissors, RotateCcw, Download, Play, Flag, MapPin } from 'lucide-react';
+import type {
+  CutOptions,
+  ExportFormat,
+  ExportScope,
+  TrackpointColumns,
+  TrimBoundary,
+  TrimMode,
+  TrimRange,
+} from '../types/tcx';
+import { hasValues, pointCount, valueAt } from '../lib/columns';
 import { formatDuration, formatDistance } from '../lib/format';
+import {
+  findBoundary,
+  formatUnitValue,
+  parseUnitValue,
+  unitValue,
+  withBoundary,
+  type TrimUnit,
+} from '../lib/trim';
 
 interface TrimControlsProps {
-  trackpoints: JsTrackpoint[];
+  trackpoints: TrackpointColumns;
   trimRange: TrimRange;
+  trimMode: TrimMode;
   originalCount: number;
   onTrimRangeChange: (range: TrimRange) => void;
+  onTrimModeChange: (mode: TrimMode) => void;
+  /** The end of the range the next click on the map sets, if any */
+  pickTarget?: TrimBoundary | null;
+  /** Start or stop picking an end of the range on the map; omitted without GPS */
+  onPickTargetChange?: (target: TrimBoundary | null) => void;
   onApplyTrim: () => void;
+  onApplyCut: (options: CutOptions) => void;
   onReset: () => void;
-  onExport: () => void;
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+  /** Activities in the file; with several, the export can hold all of them */
+  activityCount?: number;
 }
 
+interface BoundaryInputProps {
+  trackpoints: TrackpointColumns;
+  unit: TrimUnit;
+  boundary: TrimBoundary;
+  index: number;
+  onChange: (index: number) => void;
+}
+
+/**
+ * The start or end of the range in `unit`. It's uncontrolled and keyed by
+ * the shown value, so it follows the sliders and commits on Enter or blur;
+ * anything that doesn't land on a trackpoint is put back.
+ */
+function BoundaryInput({ trackpoints, unit, boundary, index, onChange }: BoundaryInputProps) {
+  const shown =
+    index < pointCount(trackpoints) ? formatUnitValue(unit, unitValue(unit, trackpoints, index)) : '';
+  const placeholder = unitChoices.find((choice) => choice.value === unit)?.placeholder;
+
+  const commit = (input: HTMLInputElement) => {
+    if (input.value.trim() === shown) return;
+    const target = parseUnitValue(unit, input.value, trackpoints);
+    const found = target === null ? null : findBoundary(trackpoints, unit, target, boundary);
+    if (found === null || found === index) {
+      input.value = shown;
+    } else {
+      onChange(found);
+    }
+  };
+
+  return (
+    <input
+      key={`${unit}-${shown}`}
+      defaultValue={shown}
+      placeholder={placeholder}
+      onBlur={(e) => commit(e.target)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit(e.currentTarget);
+      }}
+      className="w-24 px-2 py-1 text-sm text-right bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+    />
+  );
+}
+
+const unitChoices: { value: TrimUnit; label: string; placeholder: string }[] = [
+  { value: 'elapsed', label: 'Elapsed time', placeholder: 'h:mm:ss' },
+  { value: 'clock', label: 'Clock time', placeholder: 'hh:mm:ss' },
+  { value: 'distance', label: 'Distance (km)', placeholder: 'km' },
+];
+
 export function TrimControls({
   trackpoints,
   trimRange,
+  trimMode,
   originalCount,
   onTrimRangeChange,
+  onTrimModeChange,
+  pickTarget = null,
+  onPickTargetChange,
   onApplyTrim,
+  onApplyCut,
   onReset,
   onExport,
+  activityCount = 1,
 }: TrimControlsProps) {
-  const maxIndex = trackpoints.length - 1;
+  const maxIndex = pointCount(trackpoints) - 1;
+  const [cutOptions, setCutOptions] = useState<CutOptions>({
+    shiftTime: true,
+    rebaseDistance: true,
+  });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('tcx');
+  const [exportScope, setExportScope] = useState<ExportScope>('activity');
+  const [unit, setUnit] = useState<TrimUnit>('elapsed');
+  const hasDistance = useMemo(() => hasValues(trackpoints.distance_meters), [trackpoints]);
+  const activeUnit = unit === 'distance' && !hasDistance ? 'elapsed' : unit;
 
-  const { startTime, endTime, trimmedDuration, trimmedDistance } = useMemo(() => {
-    const startTp = trackpoints[trimRange.start];
-    const endTp = trackpoints[trimRange.end];
-    const firstTp = trackpoints[0];
+  const { trimmedDuration, trimmedDistance } = useMemo(() => {
+    const { start, end } = trimRange;
 
-    if (!startTp || !endTp || !firstTp) {
+    if (end >= pointCount(trackpoints)) {
       return {
-        startTime: 0,
-        endTime: 0,
         trimmedDuration: 0,
         trimmedDistance: 0,
       };
     }
 
-    const startTime = (startTp.timestamp_ms - firstTp.timestamp_ms) / 1000;
-    const endTime = (endTp.timestamp_ms - firstTp.timestamp_ms) / 1000;
-    const duration = (endTp.timestamp_ms - startTp.timestamp_ms) / 1000;
+    const duration = (trackpoints.timestamp_ms[end] - trackpoints.timestamp_ms[start]) / 1000;
     const distance =
-      (endTp.distance_meters || 0) - (startTp.distance_meters || 0);
+      (valueAt(trackpoints.distance_meters, end) || 0) -
+      (valueAt(trackpoints.distance_meters, start) || 0);
 
     return {
-      startTime,
-      endTime,
       trimmedDuration: duration,
       trimmedDistance: distance,
     };
@@ -72,17 +155,60 @@ export function TrimControls({
     [trimRange, onTrimRangeChange]
   );
 
+  const setBoundary = useCallback(
+    (boundary: TrimBoundary) => (index: number) =>
+      onTrimRangeChange(withBoundary(trimRange, boundary, index)),
+    [trimRange, onTrimRangeChange]
+  );
+
+  const pickButton = (boundary: TrimBoundary) =>
+    onPickTargetChange && (
+      <button
+        onClick={() => onPickTargetChange(pickTarget === boundary ? null : boundary)}
+        title={`Click the route on the map to set the ${boundary}`}
+        className={`p-1 rounded-md transition-colors ${
+          pickTarget === boundary
+            ? 'bg-cyan-600 text-white'
+            : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'
+        }`}
+      >
+        <MapPin className="w-4 h-4" />
+      </button>
+    );
+
+  const isCut = trimMode === 'cut';
   const isTrimmed = trimRange.start > 0 || trimRange.end < maxIndex;
-  const trimmedPoints = trimRange.end - trimRange.start + 1;
-  const removedPoints = originalCount - trimmedPoints;
+  const selectedPoints = trimRange.end - trimRange.start + 1;
+  const removedPoints = isCut ? selectedPoints : originalCount - selectedPoints;
+  const remainingPoints = originalCount - removedPoints;
 
   return (
     <div className="space-y-6">
+      {/* Mode Switcher */}
+      <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg">
+        {(['keep', 'cut'] as const).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => onTrimModeChange(mode)}
+            className={`
+              px-3 py-1.5 rounded-md text-sm font-medium transition-all
+              ${
+                trimMode === mode
+                  ? 'bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+              }
+            `}
+          >
+            {mode === 'keep' ? 'Keep Range' : 'Cut Range'}
+          </button>
+        ))}
+      </div>
+
       {/* Trim Preview Stats */}
       <div className="grid grid-cols-2 gap-4">
         <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
           <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">
-            Trimmed Duration
+            {isCut ? 'Removed Duration' : 'Trimmed Duration'}
           </p>
           <p className="text-xl font-bold text-slate-900 dark:text-slate-100">
             {formatDuration(trimmedDuration)}
@@ -90,7 +216,7 @@ export function TrimControls({
         </div>
         <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-lg">
           <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1">
-            Trimmed Distance
+            {isCut ? 'Removed Distance' : 'Trimmed Distance'}
           </p>
           <p className="text-xl font-bold text-slate-900 dark:text-slate-100">
             {formatDistance(trimmedDistance)}
@@ -98,6 +224,32 @@ export function TrimControls({
         </div>
       </div>
 
+      {/* What the start and end are typed as */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-500 dark:text-slate-400">Set by</span>
+        <select
+          value={activeUnit}
+          onChange={(e) => setUnit(e.target.value as TrimUnit)}
+          className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+        >
+          {unitChoices.map((choice) => (
+            <option
+              key={choice.value}
+              value={choice.value}
+              disabled={choice.value === 'distance' && !hasDistance}
+            >
+              {choice.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {pickTarget && (
+        <p className="text-sm text-cyan-700 dark:text-cyan-300">
+          Click the route on the map to set the {pickTarget}.
+        </p>
+      )}
+
       {/* Start Slider */}
       <div className="space-y-2">
         <div className="flex items-center justify-between">
@@ -106,10 +258,15 @@ export function TrimControls({
             <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
               Start Point
             </span>
+            {pickButton('start')}
           </div>
-          <span className="text-sm text-slate-500 dark:text-slate-400">
-            {formatDuration(startTime)}
-          </span>
+          <BoundaryInput
+            trackpoints={trackpoints}
+            unit={activeUnit}
+            boundary="start"
+            index={trimRange.start}
+            onChange={setBoundary('start')}
+          />
         </div>
         <input
           type="range"
@@ -138,10 +295,15 @@ export function TrimControls({
             <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
               End Point
             </span>
+            {pickButton('end')}
           </div>
-          <span className="text-sm text-slate-500 dark:text-slate-400">
-            {formatDuration(endTime)}
-          </span>
+          <BoundaryInput
+            trackpoints={trackpoints}
+            unit={activeUnit}
+            boundary="end"
+            index={trimRange.end}
+            onChange={setBoundary('end')}
+          />
         </div>
         <input
           type="range"
@@ -158,16 +320,38 @@ export function TrimControls({
         />
         <div className="flex justify-between text-xs text-slate-400 dark:text-slate-500">
           <span>Point {trimRange.end}</span>
-          <span>{formatDuration((trackpoints[maxIndex]?.timestamp_ms - trackpoints[0]?.timestamp_ms) / 1000)}</span>
+          <span>{formatDuration((trackpoints.timestamp_ms[maxIndex] - trackpoints.timestamp_ms[0]) / 1000)}</span>
         </div>
       </div>
 
+      {/* Cut Options */}
+      {isCut && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={cutOptions.shiftTime}
+              onChange={(e) => setCutOptions({ ...cutOptions, shiftTime: e.target.checked })}
+            />
+            Shift later timestamps to close the gap
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={cutOptions.rebaseDistance}
+              onChange={(e) => setCutOptions({ ...cutOptions, rebaseDistance: e.target.checked })}
+            />
+            Re-base distance to avoid a jump
+          </label>
+        </div>
+      )}
+
       {/* Points Summary */}
       {isTrimmed && (
         <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
           <p className="text-sm text-amber-800 dark:text-amber-200">
             <strong>{removedPoints}</strong> trackpoints will be removed
-            ({trimmedPoints} remaining)
+            ({remainingPoints} remaining)
           </p>
         </div>
       )}
@@ -175,7 +359,7 @@ export function TrimControls({
       {/* Action Buttons */}
       <div className="flex flex-col gap-3">
         <button
-          onClick={onApplyTrim}
+          onClick={isCut ? () => onApplyCut(cutOptions) : onApplyTrim}
           disabled={!isTrimmed}
           className={`
             flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-all
@@ -187,7 +371,7 @@ export function TrimControls({
           `}
         >
           <Scissors className="w-5 h-5" />
-          Apply Trim
+          {isCut ? 'Apply Cut' : 'Apply Trim'}
         </button>
 
         <div className="grid grid-cols-2 gap-3">
@@ -200,13 +384,40 @@ export function TrimControls({
           </button>
 
           <button
-            onClick={onExport}
+            onClick={() => onExport(exportFormat, activityCount > 1 ? exportScope : 'activity')}
             className="flex items-center justify-center gap-2 px-4 py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors shadow-sm"
           >
             <Download className="w-4 h-4" />
             Export
           </button>
         </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-slate-500 dark:text-slate-400">Export format</span>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+          >
+            <option value="tcx">TCX</option>
+            <option value="gpx">GPX</option>
+            <option value="fit">FIT</option>
+          </select>
+        </div>
+
+        {activityCount > 1 && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-500 dark:text-slate-400">Export</span>
+            <select
+              value={exportScope}
+              onChange={(e) => setExportScope(e.target.value as ExportScope)}
+              className="px-2 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-md border border-slate-200 dark:border-slate-600"
+            >
+              <option value="activity">This activity</option>
+              <option value="all">All {activityCount} activities</option>
+            </select>
+          </div>
+        )}
       </div>
     </div>
   );
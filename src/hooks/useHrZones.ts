@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import {
+  ZONE_SETTINGS_STORAGE_KEY,
+  defaultZoneSettings,
+  hrZones,
+  isZoneSettings,
+} from '../lib/zones';
+import { useStoredState } from './useStoredState';
+import type { HrZone, HrZoneSettings } from '../types/tcx';
+
+interface UseHrZonesReturn {
+  settings: HrZoneSettings;
+  zones: HrZone[];
+  setSettings: (settings: HrZoneSettings) => void;
+}
+
+/** Heart rate zone settings, remembered between visits */
+export function useHrZones(): UseHrZonesReturn {
+  const [settings, setSettings] = useStoredState(
+    ZONE_SETTINGS_STORAGE_KEY,
+    isZoneSettings,
+    defaultZoneSettings
+  );
+  const zones = useMemo(() => hrZones(settings), [settings]);
+
+  return { settings, zones, setSettings };
+}
@@ -0,0 +1,15 @@
+import { PROFILE_STORAGE_KEY, defaultProfile, isProfile } from '../lib/profile';
+import { useStoredState } from './useStoredState';
+import type { AthleteProfile } from '../types/tcx';
+
+interface UseProfileReturn {
+  profile: AthleteProfile;
+  setProfile: (profile: AthleteProfile) => void;
+}
+
+/** The athlete profile, remembered between visits */
+export function useProfile(): UseProfileReturn {
+  const [profile, setProfile] = useStoredState(PROFILE_STORAGE_KEY, isProfile, defaultProfile);
+
+  return { profile, setProfile };
+}
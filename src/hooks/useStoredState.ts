@@ -0,0 +1,21 @@
+import { useState, useCallback } from 'react';
+import { loadStored, saveStored } from '../lib/storage';
+
+/** State that is saved under `key` and read back on the next visit */
+export function useStoredState<T>(
+  key: string,
+  guard: (value: unknown) => value is T,
+  fallback: T
+): [T, (value: T) => void] {
+  const [value, setValueState] = useState(() => loadStored(key, guard, fallback));
+
+  const setValue = useCallback(
+    (next: T) => {
+      setValueState(next);
+      saveStored(key, next);
+    },
+    [key]
+  );
+
+  return [value, setValue];
+}
@@ -1,166 +1,719 @@
-import { useState, useCallback, useRef } from 'react';
-import { TcxEditorWrapper } from '../lib/wasm';
-import type { JsActivityStats, JsTrackpoint, TrimRange } from '../types/tcx';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { getEditorClient } from '../lib/editorClient';
+import { emptyColumns, pointCount } from '../lib/columns';
+import type { EditorClient } from '../lib/editorClient';
+import type { EditorApi, EditorSnapshot } from '../lib/editor.worker';
+import { formatDuration } from '../lib/format';
+import { createZip } from '../lib/zip';
+import type {
+  AthleteProfile,
+  CalorieMethod,
+  CutOptions,
+  DistanceOptions,
+  EditableField,
+  EditHistory,
+  ElevationGainOptions,
+  ExportFormat,
+  ExportScope,
+  GlitchRepair,
+  HrArtifactDetection,
+  HrFix,
+  JsActivityMetadata,
+  JsActivityStats,
+  JsActivitySummary,
+  JsGlitch,
+  JsHrArtifact,
+  JsMergeInfo,
+  JsStop,
+  MetadataEdit,
+  SourceMarker,
+  SplitPackaging,
+  StopDetection,
+  TrackpointColumns,
+  TrimMode,
+  TrimRange,
+} from '../types/tcx';
 
 interface UseTcxEditorState {
   isLoading: boolean;
   error: string | null;
   fileName: string | null;
   stats: JsActivityStats | null;
-  trackpoints: JsTrackpoint[];
+  /** The trackpoints as the worker sends them, one typed array per field */
+  trackpoints: TrackpointColumns;
   trimRange: TrimRange;
+  trimMode: TrimMode;
   originalTrackpointCount: number;
+  lapCount: number;
+  history: EditHistory;
+  glitches: JsGlitch[];
+  stops: JsStop[];
+  hrArtifacts: JsHrArtifact[];
+  metadata: JsActivityMetadata | null;
+  /** Total distance the recompute options being previewed would give */
+  distancePreview: number | null;
+  /** Names of the loaded files, in the order they were selected */
+  sourceFiles: string[];
+  mergeInfo: JsMergeInfo | null;
+  warnings: string[];
+  /** Trackpoint indices where a new part starts when splitting */
+  splitPoints: number[];
+  /** Trackpoint indices selected in the table, chart or map, in order */
+  selectedPoints: number[];
+  /** Trackpoint under the pointer on the map or chart, shown on all of them */
+  focusedIndex: number | null;
+  /** DEM elevation under each trackpoint, NaN where no tile covers it; null without tiles */
+  correctedAltitudes: Float64Array | null;
+  /** Every activity in the file; everything else is about the selected one */
+  activities: JsActivitySummary[];
+  selectedActivity: number;
+  /** Whether a deleted activity can be brought back */
+  canRestoreActivity: boolean;
 }
 
 interface UseTcxEditorReturn extends UseTcxEditorState {
-  loadFile: (file: File) => Promise<void>;
+  sourceMarkers: SourceMarker[];
+  /** Names of the loaded DEM tiles */
+  elevationTiles: string[];
+  elevationGain: ElevationGainOptions;
+  stopDetection: StopDetection;
+  hrArtifactDetection: HrArtifactDetection;
+  loadFiles: (files: File[]) => Promise<void>;
   setTrimRange: (range: TrimRange) => void;
+  setTrimMode: (mode: TrimMode) => void;
   applyTrim: () => void;
+  applyCut: (options: CutOptions) => void;
   resetTrim: () => void;
-  exportTcx: () => void;
+  undo: () => void;
+  redo: () => void;
+  goToHistory: (position: number) => void;
+  repairGlitches: (indices: number[], repair: GlitchRepair) => void;
+  previewDistance: (options: DistanceOptions | null) => void;
+  recomputeDistance: (options: DistanceOptions) => void;
+  loadElevationTiles: (files: File[]) => Promise<void>;
+  clearElevationTiles: () => void;
+  applyElevationCorrection: () => void;
+  setElevationGain: (options: ElevationGainOptions) => void;
+  setStopDetection: (detection: StopDetection) => void;
+  removeStops: () => void;
+  setHrArtifactDetection: (detection: HrArtifactDetection) => void;
+  fixHeartRate: (start: number, end: number, fix: HrFix, bpm?: number) => void;
+  selectPoints: (indices: number[]) => void;
+  /** Set the hovered trackpoint; updates are batched to one per frame */
+  setFocusedIndex: (index: number | null) => void;
+  updateTrackpoints: (indices: number[], field: EditableField, value: number | null) => void;
+  moveTrackpoint: (index: number, latitude: number, longitude: number) => void;
+  shiftTime: (offsetMs: number) => void;
+  editMetadata: (edit: MetadataEdit) => void;
+  setCalorieMethod: (method: CalorieMethod, profile: AthleteProfile) => void;
+  selectActivity: (index: number) => void;
+  deleteActivity: (index: number) => void;
+  /** Bring back the activity deleted last */
+  restoreActivity: () => void;
+  exportFile: (format: ExportFormat, scope: ExportScope) => void;
+  toggleSplitPoint: (index: number) => void;
+  clearSplitPoints: () => void;
+  exportSplit: (format: ExportFormat, packaging: SplitPackaging) => void;
   clearFile: () => void;
 }
 
+function countLaps(trackpoints: TrackpointColumns): number {
+  const count = pointCount(trackpoints);
+  return count > 0 ? trackpoints.lap_index[count - 1] + 1 : 0;
+}
+
+const exportMimeTypes: Record<ExportFormat, string> = {
+  tcx: 'application/xml',
+  gpx: 'application/gpx+xml',
+  fit: 'application/vnd.ant.fit',
+};
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function baseFileName(fileName: string): string {
+  return fileName.replace(/\.(tcx|gpx|fit)$/i, '');
+}
+
+/**
+ * Read the editor's current data, with the trim range covering all of it.
+ * Split points and the selection refer to indices of the previous data and
+ * the distance preview to the previous distances, so all are dropped.
+ */
+function readEditorState(snapshot: EditorSnapshot) {
+  const trackpoints = snapshot.columns;
+  const count = pointCount(trackpoints);
+
+  return {
+    stats: snapshot.stats,
+    trackpoints,
+    trimRange: { start: 0, end: count - 1 },
+    originalTrackpointCount: count,
+    lapCount: countLaps(trackpoints),
+    history: snapshot.history,
+    glitches: snapshot.glitches,
+    stops: snapshot.stops,
+    hrArtifacts: snapshot.hrArtifacts,
+    metadata: snapshot.metadata,
+    correctedAltitudes: snapshot.correctedAltitudes,
+    activities: snapshot.activities,
+    selectedActivity: snapshot.selectedActivity,
+    canRestoreActivity: snapshot.canRestoreActivity,
+    distancePreview: null,
+    splitPoints: [],
+    selectedPoints: [],
+    focusedIndex: null,
+  };
+}
+
+/**
+ * Worker methods that change the open file or the activity shown and send
+ * back a snapshot, or null when there was nothing to change
+ */
+type SnapshotMethod = {
+  [M in keyof EditorApi]: Awaited<ReturnType<EditorApi[M]>> extends EditorSnapshot | null ? M : never;
+}[keyof EditorApi];
+
+interface RunEditOptions {
+  /** Keep the selected trackpoints, for edits that leave the indices in place */
+  keepSelection?: boolean;
+  /** Keep the trim range, for edits that leave the trackpoints alone */
+  keepTrimRange?: boolean;
+}
+
+/** The message of a failed call; the worker sends every failure as an `Error` */
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+const emptyHistory: EditHistory = { entries: [], position: 0 };
+
+const defaultElevationGain: ElevationGainOptions = { method: 'raw', threshold: 3, window: 5 };
+
+const defaultStopDetection: StopDetection = { maxSpeed: 0.5, minSeconds: 10 };
+
+const defaultHrArtifactDetection: HrArtifactDetection = { maxRate: 8, minSeconds: 30 };
+
+/** Name for a merged activity, based on the earliest file */
+function mergedFileName(files: File[], info: JsMergeInfo): string {
+  const first = files[info.sources[0]?.index ?? 0];
+  return `${baseFileName(first.name)}_merged.tcx`;
+}
+
+function overlapWarnings(files: File[], info: JsMergeInfo): string[] {
+  return info.overlaps.map(
+    (overlap) =>
+      `${files[overlap.first].name} and ${files[overlap.second].name} overlap by ${formatDuration(overlap.overlap_seconds)}`
+  );
+}
+
 export function useTcxEditor(): UseTcxEditorReturn {
-  const editorRef = useRef<TcxEditorWrapper | null>(null);
+  // Set while a file is open; the file itself lives in the editor worker
+  const editorRef = useRef<EditorClient | null>(null);
+
+  // DEM tiles aren't tied to a file, so they outlive loading another one
+  const [elevationTiles, setElevationTiles] = useState<string[]>([]);
+
+  // Likewise the gain method, which is applied to every file loaded
+  const [elevationGain, setElevationGainOptions] = useState(defaultElevationGain);
+  const [stopDetection, setStopDetectionOptions] = useState(defaultStopDetection);
+  const [hrArtifactDetection, setHrArtifactDetectionOptions] = useState(defaultHrArtifactDetection);
 
   const [state, setState] = useState<UseTcxEditorState>({
     isLoading: false,
     error: null,
     fileName: null,
     stats: null,
-    trackpoints: [],
+    trackpoints: emptyColumns,
     trimRange: { start: 0, end: 0 },
+    trimMode: 'keep',
     originalTrackpointCount: 0,
+    lapCount: 0,
+    history: emptyHistory,
+    glitches: [],
+    stops: [],
+    hrArtifacts: [],
+    metadata: null,
+    distancePreview: null,
+    sourceFiles: [],
+    mergeInfo: null,
+    warnings: [],
+    splitPoints: [],
+    selectedPoints: [],
+    focusedIndex: null,
+    correctedAltitudes: null,
+    activities: [],
+    selectedActivity: 0,
+    canRestoreActivity: false,
   });
 
-  const loadFile = useCallback(async (file: File) => {
+  const loadFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const content = await file.text();
-      const editor = await TcxEditorWrapper.fromContent(content);
+      const editor = getEditorClient();
+      const { mergeInfo, snapshot } = await editor.call('open', files, {
+        elevationGain,
+        stopDetection,
+        hrArtifactDetection,
+      });
       editorRef.current = editor;
 
-      const stats = editor.getStats();
-      const trackpoints = editor.getTrackpoints();
-      const count = trackpoints.length;
-
       setState({
         isLoading: false,
         error: null,
-        fileName: file.name,
-        stats,
-        trackpoints,
-        trimRange: { start: 0, end: count - 1 },
-        originalTrackpointCount: count,
+        fileName: mergeInfo ? mergedFileName(files, mergeInfo) : files[0].name,
+        trimMode: 'keep',
+        sourceFiles: files.map((file) => file.name),
+        mergeInfo,
+        warnings: mergeInfo ? overlapWarnings(files, mergeInfo) : [],
+        ...readEditorState(snapshot),
       });
     } catch (err) {
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: err instanceof Error ? err.message : 'Failed to load file',
+        error: errorMessage(err),
       }));
     }
-  }, []);
+  }, [elevationGain, stopDetection, hrArtifactDetection]);
 
+  // Sliders, typed times and distances, the chart brush and map clicks all
+  // land here, so the range is put in order and kept within the track
   const setTrimRange = useCallback((range: TrimRange) => {
-    setState(prev => ({ ...prev, trimRange: range }));
+    setState(prev => {
+      const maxIndex = Math.max(pointCount(prev.trackpoints) - 1, 0);
+      const clamp = (index: number) => Math.min(Math.max(Math.round(index), 0), maxIndex);
+      const start = clamp(Math.min(range.start, range.end));
+      const end = clamp(Math.max(range.start, range.end));
+      if (start === prev.trimRange.start && end === prev.trimRange.end) return prev;
+      return { ...prev, trimRange: { start, end } };
+    });
+  }, []);
+
+  const setTrimMode = useCallback((mode: TrimMode) => {
+    setState(prev => ({ ...prev, trimMode: mode }));
   }, []);
 
+  /** Call `method` on the open file and show the snapshot it sends back */
+  const runEdit = useCallback(
+    async <M extends SnapshotMethod>(
+      method: M,
+      args: Parameters<EditorApi[M]>,
+      { keepSelection = false, keepTrimRange = false }: RunEditOptions = {}
+    ) => {
+      const editor = editorRef.current;
+      if (!editor) return;
+
+      try {
+        const snapshot = (await editor.call(method, ...args)) as EditorSnapshot | null;
+        if (!snapshot) return;
+
+        setState(prev => {
+          const next = readEditorState(snapshot);
+          return {
+            ...prev,
+            ...next,
+            trimRange: keepTrimRange ? prev.trimRange : next.trimRange,
+            selectedPoints: keepSelection ? prev.selectedPoints : next.selectedPoints,
+          };
+        });
+      } catch (err) {
+        setState(prev => ({
+          ...prev,
+          error: errorMessage(err),
+        }));
+      }
+    },
+    []
+  );
+
   const applyTrim = useCallback(() => {
+    runEdit('trimByIndices', [state.trimRange.start, state.trimRange.end]);
+  }, [runEdit, state.trimRange]);
+
+  const applyCut = useCallback((options: CutOptions) => {
+    runEdit('cutRange', [state.trimRange.start, state.trimRange.end, options]);
+  }, [runEdit, state.trimRange]);
+
+  const resetTrim = useCallback(() => runEdit('reset', []), [runEdit]);
+
+  const repairGlitches = useCallback((indices: number[], repair: GlitchRepair) => {
+    if (indices.length > 0) runEdit('repairGlitches', [indices, repair]);
+  }, [runEdit]);
+
+  const previewDistance = useCallback(async (options: DistanceOptions | null) => {
     const editor = editorRef.current;
     if (!editor) return;
 
     try {
-      editor.trimByIndices(state.trimRange.start, state.trimRange.end);
-      const stats = editor.getStats();
-      const trackpoints = editor.getTrackpoints();
+      const distancePreview = options
+        ? await editor.call('previewRecomputedDistance', options)
+        : null;
+      setState(prev => ({ ...prev, distancePreview }));
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        distancePreview: null,
+        error: errorMessage(err),
+      }));
+    }
+  }, []);
+
+  const recomputeDistance = useCallback((options: DistanceOptions) => {
+    runEdit('recomputeDistance', [options]);
+  }, [runEdit]);
+
+  // Tiles can be loaded before any file, so these start the worker if need be
+  const loadElevationTiles = useCallback(async (files: File[]) => {
+    const editor = getEditorClient();
+
+    try {
+      for (const file of files) {
+        await editor.call('addElevationTile', file);
+      }
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        error: errorMessage(err),
+      }));
+    }
 
+    // Read back even after a failure, as the tiles before it did load
+    try {
+      const { tiles, correctedAltitudes } = await editor.call('readElevation');
+      setElevationTiles(tiles);
       setState(prev => ({
         ...prev,
-        stats,
-        trackpoints,
-        trimRange: { start: 0, end: trackpoints.length - 1 },
-        originalTrackpointCount: trackpoints.length,
+        correctedAltitudes,
       }));
     } catch (err) {
       setState(prev => ({
         ...prev,
-        error: err instanceof Error ? err.message : 'Failed to apply trim',
+        error: errorMessage(err),
       }));
     }
-  }, [state.trimRange]);
+  }, []);
 
-  const resetTrim = useCallback(() => {
+  const clearElevationTiles = useCallback(async () => {
+    try {
+      await getEditorClient().call('clearElevationTiles');
+      setElevationTiles([]);
+      setState(prev => ({ ...prev, correctedAltitudes: null }));
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        error: errorMessage(err),
+      }));
+    }
+  }, []);
+
+  const applyElevationCorrection = useCallback(() => {
+    if (elevationTiles.length > 0) runEdit('applyElevationCorrection', []);
+  }, [runEdit, elevationTiles]);
+
+  const setElevationGain = useCallback(async (options: ElevationGainOptions) => {
     const editor = editorRef.current;
-    if (!editor) return;
 
     try {
-      editor.reset();
-      const stats = editor.getStats();
-      const trackpoints = editor.getTrackpoints();
-      const count = trackpoints.length;
+      const stats = editor && (await editor.call('setElevationMethod', options));
+      setElevationGainOptions(options);
 
+      if (stats) {
+        setState(prev => ({ ...prev, stats }));
+      }
+    } catch (err) {
       setState(prev => ({
         ...prev,
-        stats,
-        trackpoints,
-        trimRange: { start: 0, end: count - 1 },
-        originalTrackpointCount: count,
+        error: errorMessage(err),
       }));
+    }
+  }, []);
+
+  const setStopDetection = useCallback(async (detection: StopDetection) => {
+    const editor = editorRef.current;
+
+    try {
+      const found = editor && (await editor.call('setStopDetection', detection));
+      setStopDetectionOptions(detection);
+
+      if (found) {
+        setState(prev => ({ ...prev, stats: found.stats, stops: found.stops }));
+      }
     } catch (err) {
       setState(prev => ({
         ...prev,
-        error: err instanceof Error ? err.message : 'Failed to reset',
+        error: errorMessage(err),
       }));
     }
   }, []);
 
-  const exportTcx = useCallback(() => {
+  const removeStops = useCallback(() => runEdit('removeStops', []), [runEdit]);
+
+  const setHrArtifactDetection = useCallback(async (detection: HrArtifactDetection) => {
+    const editor = editorRef.current;
+
+    try {
+      const hrArtifacts = editor && (await editor.call('setHrArtifactDetection', detection));
+      setHrArtifactDetectionOptions(detection);
+
+      if (hrArtifacts) {
+        setState(prev => ({ ...prev, hrArtifacts }));
+      }
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        error: errorMessage(err),
+      }));
+    }
+  }, []);
+
+  const fixHeartRate = useCallback((start: number, end: number, fix: HrFix, bpm?: number) => {
+    runEdit('fixHeartRate', [start, end, fix, bpm]);
+  }, [runEdit]);
+
+  const selectPoints = useCallback((indices: number[]) => {
+    setState(prev => ({ ...prev, selectedPoints: [...indices].sort((a, b) => a - b) }));
+  }, []);
+
+  // Pointer moves come faster than the map and chart can redraw, so only
+  // the latest one per animation frame is applied
+  const focusFrameRef = useRef<number | null>(null);
+  const pendingFocusRef = useRef<number | null>(null);
+
+  const setFocusedIndex = useCallback((index: number | null) => {
+    pendingFocusRef.current = index;
+    if (focusFrameRef.current !== null) return;
+
+    focusFrameRef.current = requestAnimationFrame(() => {
+      focusFrameRef.current = null;
+      const focusedIndex = pendingFocusRef.current;
+      setState(prev => (prev.focusedIndex === focusedIndex ? prev : { ...prev, focusedIndex }));
+    });
+  }, []);
+
+  // Values change in place, so the selection still applies
+  const updateTrackpoints = useCallback(
+    (indices: number[], field: EditableField, value: number | null) => {
+      if (indices.length > 0) {
+        runEdit('updateTrackpoints', [indices, field, value], { keepSelection: true });
+      }
+    },
+    [runEdit]
+  );
+
+  const moveTrackpoint = useCallback((index: number, latitude: number, longitude: number) => {
+    runEdit('moveTrackpoint', [index, latitude, longitude], { keepSelection: true });
+  }, [runEdit]);
+
+  const shiftTime = useCallback((offsetMs: number) => {
+    if (offsetMs !== 0) runEdit('shiftTime', [offsetMs], { keepSelection: true });
+  }, [runEdit]);
+
+  // Trackpoints are untouched, so the trim and selection still apply
+  const editMetadata = useCallback((edit: MetadataEdit) => {
+    runEdit('editMetadata', [edit], { keepSelection: true, keepTrimRange: true });
+  }, [runEdit]);
+
+  const setCalorieMethod = useCallback((method: CalorieMethod, profile: AthleteProfile) => {
+    runEdit('setCalorieMethod', [method, profile], { keepSelection: true, keepTrimRange: true });
+  }, [runEdit]);
+
+  const undo = useCallback(() => runEdit('undo', []), [runEdit]);
+
+  const redo = useCallback(() => runEdit('redo', []), [runEdit]);
+
+  /** Undo or redo until `position` history entries are applied */
+  const goToHistory = useCallback((position: number) => {
+    runEdit('goToHistory', [position]);
+  }, [runEdit]);
+
+  const selectActivity = useCallback((index: number) => {
+    runEdit('selectActivity', [index]);
+  }, [runEdit]);
+
+  const deleteActivity = useCallback((index: number) => {
+    runEdit('deleteActivity', [index]);
+  }, [runEdit]);
+
+  const restoreActivity = useCallback(() => runEdit('restoreActivity', []), [runEdit]);
+
+  const exportFile = useCallback(async (format: ExportFormat, scope: ExportScope) => {
     const editor = editorRef.current;
     if (!editor || !state.fileName) return;
 
+    // One activity out of several is named after its place in the file
+    const suffix =
+      scope === 'activity' && state.activities.length > 1
+        ? `activity${state.selectedActivity + 1}`
+        : 'trimmed';
+
     try {
-      const xml = editor.toXml();
-      const blob = new Blob([xml], { type: 'application/xml' });
-      const url = URL.createObjectURL(blob);
-
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = state.fileName.replace('.tcx', '_trimmed.tcx');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const data = await editor.call('exportFile', format, scope);
+      const blob = new Blob([data], { type: exportMimeTypes[format] });
+      downloadBlob(blob, `${baseFileName(state.fileName)}_${suffix}.${format}`);
     } catch (err) {
       setState(prev => ({
         ...prev,
-        error: err instanceof Error ? err.message : 'Failed to export',
+        error: errorMessage(err),
       }));
     }
-  }, [state.fileName]);
+  }, [state.fileName, state.activities.length, state.selectedActivity]);
+
+  const toggleSplitPoint = useCallback((index: number) => {
+    setState(prev => {
+      // A part must start after the first point and hold more than the last one
+      if (index <= 0 || index >= pointCount(prev.trackpoints) - 1) return prev;
+      return {
+        ...prev,
+        splitPoints: prev.splitPoints.includes(index)
+          ? prev.splitPoints.filter((point) => point !== index)
+          : [...prev.splitPoints, index].sort((a, b) => a - b),
+      };
+    });
+  }, []);
+
+  const clearSplitPoints = useCallback(() => {
+    setState(prev => ({ ...prev, splitPoints: [] }));
+  }, []);
+
+  const exportSplit = useCallback(async (format: ExportFormat, packaging: SplitPackaging) => {
+    const editor = editorRef.current;
+    if (!editor || !state.fileName || state.splitPoints.length === 0) return;
+
+    const baseName = baseFileName(state.fileName);
+
+    try {
+      const parts = await editor.call('exportSplit', state.splitPoints, format);
+      const files = parts.map((data, idx) => ({
+        name: `${baseName}_part${idx + 1}.${format}`,
+        data,
+      }));
+
+      if (packaging === 'zip') {
+        const blob = new Blob([createZip(files)], { type: 'application/zip' });
+        downloadBlob(blob, `${baseName}_split.zip`);
+      } else {
+        for (const file of files) {
+          downloadBlob(new Blob([file.data], { type: exportMimeTypes[format] }), file.name);
+        }
+      }
+    } catch (err) {
+      setState(prev => ({
+        ...prev,
+        error: errorMessage(err),
+      }));
+    }
+  }, [state.fileName, state.splitPoints]);
 
   const clearFile = useCallback(() => {
+    // The page is cleared either way; a worker that failed to close is still
+    // worth reporting
+    editorRef.current?.call('close').catch((err) => {
+      setState(prev => ({
+        ...prev,
+        error: errorMessage(err),
+      }));
+    });
     editorRef.current = null;
     setState({
       isLoading: false,
       error: null,
       fileName: null,
       stats: null,
-      trackpoints: [],
+      trackpoints: emptyColumns,
       trimRange: { start: 0, end: 0 },
+      trimMode: 'keep',
       originalTrackpointCount: 0,
+      lapCount: 0,
+      history: emptyHistory,
+      glitches: [],
+      stops: [],
+      hrArtifacts: [],
+      metadata: null,
+      distancePreview: null,
+      sourceFiles: [],
+      mergeInfo: null,
+      warnings: [],
+      splitPoints: [],
+      selectedPoints: [],
+      focusedIndex: null,
+      correctedAltitudes: null,
+      activities: [],
+      selectedActivity: 0,
+      canRestoreActivity: false,
     });
   }, []);
 
+  // Where each merged file starts within the current (possibly edited) trackpoints
+  const sourceMarkers = useMemo(() => {
+    const markers: SourceMarker[] = [];
+    if (!state.mergeInfo) return markers;
+
+    for (const source of state.mergeInfo.sources) {
+      const startMs = source.start_ms;
+      if (startMs === null) continue;
+
+      const index = state.trackpoints.timestamp_ms.findIndex((ms) => ms >= startMs);
+      // A file that was trimmed away entirely collapses onto the next one
+      if (index === -1 || markers.some((m) => m.index === index)) continue;
+
+      markers.push({ index, label: state.sourceFiles[source.index] });
+    }
+    return markers;
+  }, [state.mergeInfo, state.sourceFiles, state.trackpoints]);
+
   return {
     ...state,
-    loadFile,
+    sourceMarkers,
+    elevationTiles,
+    elevationGain,
+    stopDetection,
+    hrArtifactDetection,
+    loadFiles,
     setTrimRange,
+    setTrimMode,
     applyTrim,
+    applyCut,
     resetTrim,
-    exportTcx,
+    repairGlitches,
+    previewDistance,
+    recomputeDistance,
+    loadElevationTiles,
+    clearElevationTiles,
+    applyElevationCorrection,
+    setElevationGain,
+    setStopDetection,
+    removeStops,
+    setHrArtifactDetection,
+    fixHeartRate,
+    selectPoints,
+    setFocusedIndex,
+    updateTrackpoints,
+    moveTrackpoint,
+    shiftTime,
+    editMetadata,
+    setCalorieMethod,
+    undo,
+    redo,
+    goToHistory,
+    selectActivity,
+    deleteActivity,
+    restoreActivity,
+    exportFile,
+    toggleSplitPoint,
+    clearSplitPoints,
+    exportSplit,
     clearFile,
   };
 }
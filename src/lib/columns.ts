@@ -0,0 +1,55 @@
+import type { JsTrackpoint, TrackpointColumns } from '../types/tcx';
+
+/** The columns before a file is open */
+export const emptyColumns: TrackpointColumns = {
+  timestamp_ms: new Float64Array(0),
+  latitude: new Float64Array(0),
+  longitude: new Float64Array(0),
+  altitude_meters: new Float64Array(0),
+  distance_meters: new Float64Array(0),
+  heart_rate: new Float64Array(0),
+  cadence: new Float64Array(0),
+  speed: new Float64Array(0),
+  power: new Float64Array(0),
+  lap_index: new Uint32Array(0),
+};
+
+export function pointCount(columns: TrackpointColumns): number {
+  return columns.timestamp_ms.length;
+}
+
+/** The value in `column` at `idx`, or null where the trackpoint has none */
+export function valueAt(column: Float64Array, idx: number): number | null {
+  const value = column[idx];
+  return value === undefined || Number.isNaN(value) ? null : value;
+}
+
+/** Whether any trackpoint has a value in `column` */
+export function hasValues(column: Float64Array): boolean {
+  return column.some((value) => !Number.isNaN(value));
+}
+
+/** Whether the trackpoint at `idx` has a position */
+export function hasPosition(columns: TrackpointColumns, idx: number): boolean {
+  return !Number.isNaN(columns.latitude[idx]) && !Number.isNaN(columns.longitude[idx]);
+}
+
+/**
+ * The trackpoint at `idx` as one object, for the few places that show a
+ * single point; everything that goes over the track reads the columns
+ */
+export function trackpointAt(columns: TrackpointColumns, idx: number): JsTrackpoint | undefined {
+  if (idx < 0 || idx >= pointCount(columns)) return undefined;
+  return {
+    timestamp_ms: columns.timestamp_ms[idx],
+    latitude: valueAt(columns.latitude, idx),
+    longitude: valueAt(columns.longitude, idx),
+    altitude_meters: valueAt(columns.altitude_meters, idx),
+    distance_meters: valueAt(columns.distance_meters, idx),
+    heart_rate: valueAt(columns.heart_rate, idx),
+    cadence: valueAt(columns.cadence, idx),
+    speed: valueAt(columns.speed, idx),
+    power: valueAt(columns.power, idx),
+    lap_index: columns.lap_index[idx],
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { largestTriangleThreeBuckets, mergeIndices, simplifyPath } from './downsample';
+
+const range = (count: number) => Array.from({ length: count }, (_, k) => k);
+
+describe('largestTriangleThreeBuckets', () => {
+  it('keeps every point with a value when there are few enough', () => {
+    const ys = [1, null, 3, NaN, 5];
+    expect(largestTriangleThreeBuckets(range(5), ys, 0, 4, 10)).toEqual([0, 2, 4]);
+    expect(largestTriangleThreeBuckets(range(5), ys, 1, 3, 10)).toEqual([2]);
+  });
+
+  it('picks at most the threshold, keeping the ends and the peaks', () => {
+    const xs = range(1000);
+    const ys = xs.map((x) => (x === 437 ? 200 : x === 801 ? -50 : 100));
+    const picked = largestTriangleThreeBuckets(xs, ys, 0, 999, 20);
+
+    expect(picked).toHaveLength(20);
+    expect(picked[0]).toBe(0);
+    expect(picked[19]).toBe(999);
+    expect(picked).toContain(437);
+    expect(picked).toContain(801);
+    expect([...picked].sort((a, b) => a - b)).toEqual(picked);
+  });
+
+  it('only looks between start and end', () => {
+    const xs = range(100);
+    const picked = largestTriangleThreeBuckets(xs, xs, 10, 59, 5);
+    expect(picked).toHaveLength(5);
+    expect(picked[0]).toBe(10);
+    expect(picked[4]).toBe(59);
+  });
+});
+
+describe('simplifyPath', () => {
+  it('drops points along a straight line', () => {
+    expect(simplifyPath(range(10), range(10), 0.1)).toEqual([0, 9]);
+  });
+
+  it('keeps corners further out than the tolerance', () => {
+    const xs = [0, 1, 2, 3, 4, 5, 6];
+    const ys = [0, 0.05, 0, 3, 0, 0, 0];
+    expect(simplifyPath(xs, ys, 0.1)).toEqual([0, 2, 3, 4, 6]);
+    expect(simplifyPath(xs, ys, 5)).toEqual([0, 6]);
+  });
+
+  it('measures from the start when both ends are the same point', () => {
+    const xs = [0, 1, 0.01, 0];
+    const ys = [0, 0, 0, 0];
+    expect(simplifyPath(xs, ys, 0.1)).toEqual([0, 1, 3]);
+  });
+
+  it('handles long tracks without recursing', () => {
+    const xs = range(200_000);
+    const ys = xs.map((x) => Math.sin(x / 50));
+    const kept = simplifyPath(xs, ys, 0.01);
+    expect(kept[0]).toBe(0);
+    expect(kept[kept.length - 1]).toBe(199_999);
+  });
+
+  it('keeps paths of two points or fewer as they are', () => {
+    expect(simplifyPath([], [], 1)).toEqual([]);
+    expect(simplifyPath([0, 1], [0, 1], 1)).toEqual([0, 1]);
+  });
+});
+
+describe('mergeIndices', () => {
+  it('merges into sorted indices without repeats', () => {
+    expect(mergeIndices([0, 5, 9], [], [3, 5])).toEqual([0, 3, 5, 9]);
+    expect(mergeIndices([], [2, 4])).toEqual([2, 4]);
+    expect(mergeIndices()).toEqual([]);
+  });
+});
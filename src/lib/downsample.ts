@@ -0,0 +1,123 @@
+/**
+ * Indices of at most `threshold` points between `start` and `end` (inclusive)
+ * that keep the shape of a series, picked by Largest-Triangle-Three-Buckets.
+ * Points without a value (null or NaN) are left out, as the charts draw
+ * across gaps.
+ */
+export function largestTriangleThreeBuckets(
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number | null>,
+  start: number,
+  end: number,
+  threshold: number
+): number[] {
+  const candidates: number[] = [];
+  for (let idx = start; idx <= end; idx++) {
+    const y = ys[idx];
+    if (y !== null && !Number.isNaN(y)) candidates.push(idx);
+  }
+  if (candidates.length <= threshold || threshold < 3) return candidates;
+
+  // The first and last points are always kept; the rest are split into
+  // buckets, each keeping the point making the largest triangle with the one
+  // kept before it and the average of the next bucket
+  const picked = [candidates[0]];
+  const bucketSize = (candidates.length - 2) / (threshold - 2);
+  let previous = candidates[0];
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const from = Math.floor(bucket * bucketSize) + 1;
+    const to = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextTo = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, candidates.length);
+
+    let avgX = 0;
+    let avgY = 0;
+    for (let k = to; k < nextTo; k++) {
+      avgX += xs[candidates[k]];
+      avgY += ys[candidates[k]] as number;
+    }
+    avgX /= nextTo - to;
+    avgY /= nextTo - to;
+
+    const prevX = xs[previous];
+    const prevY = ys[previous] as number;
+    let best = candidates[from];
+    let bestArea = -1;
+    for (let k = from; k < to; k++) {
+      const idx = candidates[k];
+      const area = Math.abs(
+        (prevX - avgX) * ((ys[idx] as number) - prevY) - (prevX - xs[idx]) * (avgY - prevY)
+      );
+      if (area > bestArea) {
+        best = idx;
+        bestArea = area;
+      }
+    }
+
+    picked.push(best);
+    previous = best;
+  }
+
+  picked.push(candidates[candidates.length - 1]);
+  return picked;
+}
+
+/**
+ * Positions in a path of `xs` and `ys` worth drawing, by Douglas-Peucker:
+ * points closer than `tolerance` to the line between the points kept
+ * around them are dropped. The first and last points are always kept.
+ */
+export function simplifyPath(xs: ArrayLike<number>, ys: ArrayLike<number>, tolerance: number): number[] {
+  const count = xs.length;
+  if (count <= 2) return Array.from({ length: count }, (_, k) => k);
+
+  const keep = new Uint8Array(count);
+  keep[0] = 1;
+  keep[count - 1] = 1;
+  const toleranceSq = tolerance * tolerance;
+
+  // Spans still to check, as pairs of kept positions; a stack instead of
+  // recursion, which long tracks would overflow
+  const stack = [0, count - 1];
+  while (stack.length > 0) {
+    const last = stack.pop() as number;
+    const first = stack.pop() as number;
+
+    const dx = xs[last] - xs[first];
+    const dy = ys[last] - ys[first];
+    const lengthSq = dx * dx + dy * dy;
+
+    let farthest = -1;
+    let farthestSq = toleranceSq;
+    for (let k = first + 1; k < last; k++) {
+      // Distance to the segment, or to its start when both ends coincide
+      let t = lengthSq > 0 ? ((xs[k] - xs[first]) * dx + (ys[k] - ys[first]) * dy) / lengthSq : 0;
+      t = Math.min(Math.max(t, 0), 1);
+      const ex = xs[k] - (xs[first] + t * dx);
+      const ey = ys[k] - (ys[first] + t * dy);
+      const distanceSq = ex * ex + ey * ey;
+      if (distanceSq > farthestSq) {
+        farthest = k;
+        farthestSq = distanceSq;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = 1;
+      stack.push(first, farthest, farthest, last);
+    }
+  }
+
+  const kept: number[] = [];
+  for (let k = 0; k < count; k++) {
+    if (keep[k]) kept.push(k);
+  }
+  return kept;
+}
+
+/** Sorted indices from any of the lists, each once */
+export function mergeIndices(...lists: number[][]): number[] {
+  const nonEmpty = lists.filter((list) => list.length > 0);
+  if (nonEmpty.length <= 1) return nonEmpty[0] ?? [];
+  return [...new Set(nonEmpty.flat())].sort((a, b) => a - b);
+}
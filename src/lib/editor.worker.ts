@@ -0,0 +1,379 @@
+import { ElevationModelWrapper, TcxEditorWrapper } from './wasm';
+import type {
+  AthleteProfile,
+  CalorieMethod,
+  CutOptions,
+  DistanceOptions,
+  EditableField,
+  EditHistory,
+  ElevationGainOptions,
+  ExportFormat,
+  ExportScope,
+  GlitchRepair,
+  HrArtifactDetection,
+  HrFix,
+  JsActivityMetadata,
+  JsActivityStats,
+  JsActivitySummary,
+  JsGlitch,
+  JsHrArtifact,
+  JsStop,
+  MetadataEdit,
+  StopDetection,
+  TrackpointColumns,
+} from '../types/tcx';
+
+/** Everything the page shows about the open file, read again after each edit */
+export interface EditorSnapshot {
+  stats: JsActivityStats;
+  columns: TrackpointColumns;
+  history: EditHistory;
+  glitches: JsGlitch[];
+  stops: JsStop[];
+  hrArtifacts: JsHrArtifact[];
+  metadata: JsActivityMetadata;
+  /** DEM elevation under each trackpoint, NaN where no tile covers it */
+  correctedAltitudes: Float64Array | null;
+  /** Every activity in the file; the rest of the snapshot is about the selected one */
+  activities: JsActivitySummary[];
+  selectedActivity: number;
+  /** Whether a deleted activity can be brought back */
+  canRestoreActivity: boolean;
+}
+
+/** Settings chosen before a file was opened, applied to each one */
+export interface EditorSettings {
+  elevationGain: ElevationGainOptions;
+  stopDetection: StopDetection;
+  hrArtifactDetection: HrArtifactDetection;
+}
+
+export interface WorkerRequest {
+  id: number;
+  method: keyof EditorApi;
+  args: unknown[];
+}
+
+export type WorkerResponse = { id: number; result: unknown } | { id: number; error: unknown };
+
+/** The open file, with every activity in it */
+let file: TcxEditorWrapper | null = null;
+// A file with several activities is split into one editor per activity, each
+// edited with its own history; a file with one is edited as it is
+let activities: TcxEditorWrapper[] = [];
+let selected = 0;
+// Activities deleted from the file and where they were, most recent last,
+// kept so the deletes can be undone
+let deleted: { index: number; part: TcxEditorWrapper }[] = [];
+// DEM tiles aren't tied to a file, so they outlive opening another one
+let elevation: ElevationModelWrapper | null = null;
+
+function isGpxFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.gpx');
+}
+
+function isFitFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.fit');
+}
+
+/** Parse a file with the decoder matching its extension */
+async function openEditor(file: File): Promise<TcxEditorWrapper> {
+  if (isFitFile(file.name)) {
+    const buffer = await file.arrayBuffer();
+    return TcxEditorWrapper.fromFit(new Uint8Array(buffer));
+  }
+
+  const content = await file.text();
+  return isGpxFile(file.name)
+    ? TcxEditorWrapper.fromGpx(content)
+    : TcxEditorWrapper.fromContent(content);
+}
+
+function encodeExport(editor: TcxEditorWrapper, format: ExportFormat): Uint8Array<ArrayBuffer> {
+  switch (format) {
+    case 'gpx':
+      return new TextEncoder().encode(editor.toGpx());
+    case 'fit':
+      return new Uint8Array(editor.toFit());
+    default:
+      return new TextEncoder().encode(editor.toXml());
+  }
+}
+
+function currentEditor(): TcxEditorWrapper {
+  const editor = activities[selected];
+  if (!editor) throw new Error('No file is open');
+  return editor;
+}
+
+/**
+ * The open file with the edits made to each of its activities, encoded as
+ * `format`. The edits are put into a copy, so the file keeps its activities
+ * as loaded and can still undo a delete.
+ */
+function encodeWholeFile(format: ExportFormat): Uint8Array<ArrayBuffer> {
+  if (!file) throw new Error('No file is open');
+  if (activities[0] === file) return encodeExport(file, format);
+
+  const whole = file.copy();
+  try {
+    activities.forEach((part, index) => whole.replaceActivity(index, part));
+    return encodeExport(whole, format);
+  } finally {
+    whole.free();
+  }
+}
+
+function closeFile(): void {
+  [...activities, ...deleted.map(({ part }) => part)].forEach((part) => {
+    if (part !== file) part.free();
+  });
+  file?.free();
+  file = null;
+  activities = [];
+  deleted = [];
+  selected = 0;
+}
+
+function readSnapshot(): EditorSnapshot {
+  const editor = currentEditor();
+  const columns = editor.getTrackpointColumns();
+  return {
+    stats: editor.getStats(),
+    columns,
+    history: editor.getHistory(),
+    glitches: editor.findGlitches(),
+    stops: editor.findStops(),
+    hrArtifacts: editor.findHrArtifacts(),
+    metadata: editor.getMetadata(),
+    correctedAltitudes: elevation ? elevation.sample(columns) : null,
+    activities: activities.flatMap((part) => part.getActivities()),
+    selectedActivity: selected,
+    canRestoreActivity: deleted.length > 0,
+  };
+}
+
+/** Apply an edit to the open file and read back the result */
+function applyEdit(change: (editor: TcxEditorWrapper) => void): EditorSnapshot {
+  change(currentEditor());
+  return readSnapshot();
+}
+
+// Parsing and every edit run here, off the main thread, so a large file
+// doesn't freeze the page, which calls these through `EditorClient`
+const api = {
+  /** Open `files`, merging them if there are several, in place of the open file */
+  async open(files: File[], settings: EditorSettings) {
+    if (files.length === 0) throw new Error('No files to open');
+
+    // Wait for every file, so the ones that opened can be freed if another didn't
+    const results = await Promise.allSettled(files.map(openEditor));
+    const editors = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    let opened: TcxEditorWrapper | undefined;
+    try {
+      for (const result of results) {
+        if (result.status === 'rejected') throw result.reason;
+      }
+      opened = editors.length > 1 ? await TcxEditorWrapper.merge(editors) : editors[0];
+      opened.setElevationMethod(settings.elevationGain);
+      opened.setStopDetection(settings.stopDetection);
+      opened.setHrArtifactDetection(settings.hrArtifactDetection);
+    } catch (err) {
+      [...editors, opened].forEach((editor) => editor?.free());
+      throw err;
+    }
+
+    closeFile();
+    file = opened;
+    activities = opened.getActivities().length > 1 ? opened.splitActivities() : [opened];
+    return { mergeInfo: opened.getMergeInfo(), snapshot: readSnapshot() };
+  },
+
+  close: () => closeFile(),
+
+  /** Switch to editing another activity of the file */
+  selectActivity(index: number) {
+    if (index < 0 || index >= activities.length) {
+      throw new Error(`Invalid activity: ${index} >= total (${activities.length})`);
+    }
+    selected = index;
+    return readSnapshot();
+  },
+
+  /** Remove an activity from the file, selecting the one after it if it was selected */
+  deleteActivity(index: number) {
+    if (!file) throw new Error('No file is open');
+    // The file records the delete, so both undo it together
+    file.deleteActivity(index);
+    deleted.push({ index, part: activities[index] });
+    activities.splice(index, 1);
+    if (selected > index || selected === activities.length) selected--;
+    return readSnapshot();
+  },
+
+  /** Bring back the activity deleted last, with its edits, and select it */
+  restoreActivity() {
+    const last = deleted.pop();
+    if (!file || !last) throw new Error('No deleted activity to restore');
+    file.undo();
+    activities.splice(last.index, 0, last.part);
+    selected = last.index;
+    return readSnapshot();
+  },
+
+  trimByIndices: (start: number, end: number) =>
+    applyEdit((editor) => editor.trimByIndices(start, end)),
+
+  cutRange: (start: number, end: number, options: CutOptions) =>
+    applyEdit((editor) => editor.cutRange(start, end, options)),
+
+  reset: () => applyEdit((editor) => editor.reset()),
+
+  repairGlitches: (indices: number[], repair: GlitchRepair) =>
+    applyEdit((editor) => editor.repairGlitches(indices, repair)),
+
+  previewRecomputedDistance: (options: DistanceOptions) =>
+    currentEditor().previewRecomputedDistance(options),
+
+  recomputeDistance: (options: DistanceOptions) =>
+    applyEdit((editor) => editor.recomputeDistance(options)),
+
+  applyElevationCorrection: () =>
+    applyEdit((editor) => {
+      if (!elevation) throw new Error('No elevation tiles are loaded');
+      editor.correctElevation(elevation);
+    }),
+
+  setElevationMethod(options: ElevationGainOptions) {
+    const editor = currentEditor();
+    editor.setElevationMethod(options);
+    return editor.getStats();
+  },
+
+  setStopDetection(detection: StopDetection) {
+    const editor = currentEditor();
+    editor.setStopDetection(detection);
+    return { stats: editor.getStats(), stops: editor.findStops() };
+  },
+
+  removeStops: () => applyEdit((editor) => editor.removeStops()),
+
+  setHrArtifactDetection(detection: HrArtifactDetection) {
+    const editor = currentEditor();
+    editor.setHrArtifactDetection(detection);
+    return editor.findHrArtifacts();
+  },
+
+  fixHeartRate: (start: number, end: number, fix: HrFix, bpm?: number) =>
+    applyEdit((editor) => editor.fixHeartRate(start, end, fix, bpm)),
+
+  updateTrackpoints: (indices: number[], field: EditableField, value: number | null) =>
+    applyEdit((editor) => editor.updateTrackpoints(indices, field, value)),
+
+  moveTrackpoint: (index: number, latitude: number, longitude: number) =>
+    applyEdit((editor) => editor.moveTrackpoint(index, latitude, longitude)),
+
+  shiftTime: (offsetMs: number) => applyEdit((editor) => editor.shiftTime(offsetMs)),
+
+  editMetadata: (edit: MetadataEdit) => applyEdit((editor) => editor.editMetadata(edit)),
+
+  setCalorieMethod: (method: CalorieMethod, profile: AthleteProfile) =>
+    applyEdit((editor) => editor.setCalorieMethod(method, profile)),
+
+  /** Undo the last edit, or return null if there's nothing to undo */
+  undo: () => (currentEditor().undo() ? readSnapshot() : null),
+
+  redo: () => (currentEditor().redo() ? readSnapshot() : null),
+
+  /** Undo or redo until `position` history entries are applied */
+  goToHistory(position: number) {
+    const editor = currentEditor();
+    let at = editor.getHistory().position;
+    while (at > position && editor.undo()) at--;
+    while (at < position && editor.redo()) at++;
+    return readSnapshot();
+  },
+
+  exportFile: (format: ExportFormat, scope: ExportScope) =>
+    scope === 'all' ? encodeWholeFile(format) : encodeExport(currentEditor(), format),
+
+  /** Each part of the activity split at `indices`, encoded as `format` */
+  exportSplit(indices: number[], format: ExportFormat) {
+    const parts = currentEditor().splitAt(indices);
+    try {
+      return parts.map((part) => encodeExport(part, format));
+    } finally {
+      parts.forEach((part) => part.free());
+    }
+  },
+
+  async addElevationTile(file: File) {
+    elevation ??= await ElevationModelWrapper.create();
+    await elevation.addFile(file);
+  },
+
+  /** The loaded tile names and the DEM profile of the open file */
+  readElevation() {
+    // A model whose every tile failed to load is of no use
+    if (elevation && elevation.getTileNames().length === 0) {
+      elevation.free();
+      elevation = null;
+    }
+
+    return {
+      tiles: elevation?.getTileNames() ?? [],
+      correctedAltitudes:
+        elevation && activities.length > 0
+          ? elevation.sample(currentEditor().getTrackpointColumns())
+          : null,
+    };
+  },
+
+  clearElevationTiles() {
+    elevation?.free();
+    elevation = null;
+  },
+};
+
+export type EditorApi = typeof api;
+
+/**
+ * Typed arrays in a result, to be handed over instead of copied. Only arrays
+ * that own their whole buffer qualify: a view into WASM memory would take
+ * the module's memory with it.
+ */
+function transferablesOf(value: unknown, found = new Set<ArrayBuffer>()): Set<ArrayBuffer> {
+  if (ArrayBuffer.isView(value)) {
+    const { buffer } = value;
+    if (buffer instanceof ArrayBuffer && value.byteLength === buffer.byteLength) {
+      found.add(buffer);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => transferablesOf(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => transferablesOf(item, found));
+  }
+  return found;
+}
+
+// Requests are handled one at a time, in the order they arrive, so an edit
+// never sees the file halfway through another
+let queue = Promise.resolve();
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { id, method, args } = e.data;
+  queue = queue.then(async () => {
+    try {
+      const call = api[method] as (...args: unknown[]) => unknown;
+      const result = await call(...args);
+      self.postMessage({ id, result } satisfies WorkerResponse, {
+        transfer: [...transferablesOf(result)],
+      });
+    } catch (err) {
+      // WASM errors are thrown as strings; wrapped, they reach the page with
+      // their message like any other error
+      const error = err instanceof Error ? err : new Error(String(err));
+      self.postMessage({ id, error } satisfies WorkerResponse);
+    }
+  });
+};
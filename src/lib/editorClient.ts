@@ -0,0 +1,52 @@
+import type { EditorApi, WorkerRequest, WorkerResponse } from './editor.worker';
+
+type Settle = { resolve: (value: unknown) => void; reject: (reason: unknown) => void };
+
+/** The editor worker, called like the functions it exposes but asynchronously */
+export class EditorClient {
+  private worker: Worker;
+  private pending: Map<number, Settle>;
+  private nextId: number;
+
+  constructor() {
+    this.worker = new Worker(new URL('./editor.worker.ts', import.meta.url), { type: 'module' });
+    this.pending = new Map();
+    this.nextId = 0;
+
+    this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const settle = this.pending.get(e.data.id);
+      this.pending.delete(e.data.id);
+      if ('error' in e.data) {
+        settle?.reject(e.data.error);
+      } else {
+        settle?.resolve(e.data.result);
+      }
+    };
+
+    // Only a worker that failed to start or crashed ends up here
+    this.worker.onerror = (e) => {
+      e.preventDefault();
+      this.pending.forEach((settle) => settle.reject(new Error(e.message || 'The editor stopped')));
+      this.pending.clear();
+    };
+  }
+
+  call<M extends keyof EditorApi>(
+    method: M,
+    ...args: Parameters<EditorApi[M]>
+  ): Promise<Awaited<ReturnType<EditorApi[M]>>> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      this.worker.postMessage({ id, method, args } satisfies WorkerRequest);
+    });
+  }
+}
+
+let client: EditorClient | null = null;
+
+/** The one editor worker, started the first time it's needed */
+export function getEditorClient(): EditorClient {
+  client ??= new EditorClient();
+  return client;
+}
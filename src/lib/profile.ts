@@ -0,0 +1,16 @@
+import type { AthleteProfile } from '../types/tcx';
+
+export const PROFILE_STORAGE_KEY = 'track-editor.profile';
+
+export const defaultProfile: AthleteProfile = { weightKg: 70, age: 35, sex: 'male' };
+
+export function isProfile(value: unknown): value is AthleteProfile {
+  const profile = value as AthleteProfile;
+  return (
+    typeof profile === 'object' &&
+    profile !== null &&
+    typeof profile.weightKg === 'number' &&
+    typeof profile.age === 'number' &&
+    ['male', 'female'].includes(profile.sex)
+  );
+}
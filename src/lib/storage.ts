@@ -0,0 +1,20 @@
+/**
+ * The value saved under `key`, or `fallback` if there is none, it can't be
+ * read or it isn't what `guard` expects
+ */
+export function loadStored<T>(key: string, guard: (value: unknown) => value is T, fallback: T): T {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+    return guard(stored) ? stored : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveStored<T>(key: string, value: T): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage is disabled or full; the value still lasts for the session
+  }
+}
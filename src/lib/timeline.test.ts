@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { columnsOf } from '../test/columns';
+import { axisValues, fullWindow, panWindow, seriesValues, zoomWindow } from './timeline';
+
+describe('fullWindow', () => {
+  it('spans every trackpoint', () => {
+    expect(fullWindow(100)).toEqual({ start: 0, end: 99 });
+    expect(fullWindow(0)).toEqual({ start: 0, end: 0 });
+  });
+});
+
+describe('zoomWindow', () => {
+  const full = fullWindow(101);
+
+  it('keeps the anchor where it is on screen', () => {
+    expect(zoomWindow(full, 50, 0.5, 101)).toEqual({ start: 25, end: 75 });
+    expect(zoomWindow(full, 0, 0.5, 101)).toEqual({ start: 0, end: 50 });
+    expect(zoomWindow({ start: 20, end: 60 }, 30, 2, 101)).toEqual({ start: 10, end: 90 });
+  });
+
+  it('zooms in no further than ten trackpoints', () => {
+    expect(zoomWindow(full, 50, 0.01, 101)).toEqual({ start: 45, end: 55 });
+    expect(zoomWindow(fullWindow(5), 2, 0.5, 5)).toEqual({ start: 0, end: 4 });
+  });
+
+  it('zooms out no further than the whole track', () => {
+    expect(zoomWindow({ start: 40, end: 60 }, 50, 100, 101)).toEqual(full);
+  });
+});
+
+describe('panWindow', () => {
+  it('moves the window and stops at either end', () => {
+    expect(panWindow({ start: 10, end: 20 }, 5, 100)).toEqual({ start: 15, end: 25 });
+    expect(panWindow({ start: 10, end: 20 }, -50, 100)).toEqual({ start: 0, end: 10 });
+    expect(panWindow({ start: 10, end: 20 }, 1000, 100)).toEqual({ start: 89, end: 99 });
+  });
+});
+
+describe('axisValues', () => {
+  it('gives seconds from the start, or the last known distance', () => {
+    const track = columnsOf([0, 2, 5, 9], { distance_meters: [0, 10, null, 40] });
+    expect(Array.from(axisValues(track, 'time'))).toEqual([0, 2, 5, 9]);
+    expect(Array.from(axisValues(track, 'distance'))).toEqual([0, 10, 10, 40]);
+  });
+});
+
+describe('seriesValues', () => {
+  const track = columnsOf([0, 10, 20, 30], {
+    distance_meters: [0, 50, 50, 100],
+    speed: [null, 4, null, null],
+  });
+
+  it('works out pace from the distance covered, capped when standing still', () => {
+    expect(seriesValues(track, 'pace')).toEqual([null, 1000 / 5 / 60, null, 1000 / 5 / 60]);
+    const crawl = columnsOf([0, 600], { distance_meters: [0, 1] });
+    expect(seriesValues(crawl, 'pace')).toEqual([null, 20]);
+  });
+
+  it('prefers recorded speed to the speed from distance', () => {
+    expect(seriesValues(track, 'speed')).toEqual([null, 4 * 3.6, null, 5 * 3.6]);
+  });
+});
@@ -0,0 +1,136 @@
+import type { ChartAxis, ChartSeries, ChartWindow, TrackpointColumns } from '../types/tcx';
+import { pointCount, valueAt } from './columns';
+import { formatDistance, formatDuration } from './format';
+
+interface SeriesConfig {
+  label: string;
+  unit: string;
+  color: string;
+}
+
+export const seriesConfigs: Record<ChartSeries, SeriesConfig> = {
+  heart_rate: { label: 'Heart Rate', unit: 'bpm', color: '#ef4444' },
+  altitude: { label: 'Altitude', unit: 'm', color: '#10b981' },
+  pace: { label: 'Pace', unit: 'min/km', color: '#f59e0b' },
+  speed: { label: 'Speed', unit: 'km/h', color: '#0ea5e9' },
+  cadence: { label: 'Cadence', unit: 'rpm', color: '#8b5cf6' },
+  power: { label: 'Power', unit: 'W', color: '#ec4899' },
+};
+
+export const allSeries = Object.keys(seriesConfigs) as ChartSeries[];
+
+/** Slowest pace drawn, in min/km, so standing still doesn't flatten the rest */
+const MAX_PACE = 20;
+
+/** Fewest trackpoints the timeline zooms in to */
+const MIN_WINDOW = 10;
+
+/** Speed from the trackpoint before, in m/s, for files without recorded speed */
+function segmentSpeed(trackpoints: TrackpointColumns, idx: number): number | null {
+  const distance = valueAt(trackpoints.distance_meters, idx);
+  if (idx === 0 || distance === null) return null;
+
+  const timeDelta = (trackpoints.timestamp_ms[idx] - trackpoints.timestamp_ms[idx - 1]) / 1000;
+  const distDelta = distance - (valueAt(trackpoints.distance_meters, idx - 1) || 0);
+  return distDelta > 0 && timeDelta > 0 ? distDelta / timeDelta : null;
+}
+
+/** The value of `series` at every trackpoint */
+export function seriesValues(trackpoints: TrackpointColumns, series: ChartSeries): (number | null)[] {
+  const recorded = (column: Float64Array) => Array.from(column, (_, idx) => valueAt(column, idx));
+  switch (series) {
+    case 'heart_rate':
+      return recorded(trackpoints.heart_rate);
+    case 'altitude':
+      return recorded(trackpoints.altitude_meters);
+    case 'cadence':
+      return recorded(trackpoints.cadence);
+    case 'power':
+      return recorded(trackpoints.power);
+    case 'pace':
+      // From the distance covered, as recorded speed is often smoothed
+      return Array.from(trackpoints.timestamp_ms, (_, idx) => {
+        const speed = segmentSpeed(trackpoints, idx);
+        return speed === null ? null : Math.min(1000 / speed / 60, MAX_PACE);
+      });
+    case 'speed':
+      return Array.from(trackpoints.timestamp_ms, (_, idx) => {
+        const speed = valueAt(trackpoints.speed, idx) ?? segmentSpeed(trackpoints, idx);
+        return speed === null ? null : speed * 3.6;
+      });
+  }
+}
+
+export function hasSeries(trackpoints: TrackpointColumns, series: ChartSeries): boolean {
+  return seriesValues(trackpoints, series).some((value) => value !== null);
+}
+
+/**
+ * Where every trackpoint sits along `axis`: seconds from the start, or meters
+ * with the last known distance carried over points that have none
+ */
+export function axisValues(trackpoints: TrackpointColumns, axis: ChartAxis): Float64Array {
+  const xs = new Float64Array(pointCount(trackpoints));
+  const startTime = trackpoints.timestamp_ms[0] || 0;
+  let lastDistance = 0;
+  for (let idx = 0; idx < xs.length; idx++) {
+    if (axis === 'time') {
+      xs[idx] = (trackpoints.timestamp_ms[idx] - startTime) / 1000;
+    } else {
+      lastDistance = valueAt(trackpoints.distance_meters, idx) ?? lastDistance;
+      xs[idx] = lastDistance;
+    }
+  }
+  return xs;
+}
+
+export function formatAxisValue(axis: ChartAxis, value: number): string {
+  return axis === 'time' ? formatDuration(value) : formatDistance(value);
+}
+
+/** A series value as the axis shows it, or with its unit for the tooltip */
+export function formatSeriesValue(series: ChartSeries, value: number, withUnit = false): string {
+  let text = Math.round(value).toString();
+  if (series === 'pace') {
+    const mins = Math.floor(value);
+    const secs = Math.round((value - mins) * 60);
+    text = `${mins}:${secs.toString().padStart(2, '0')}`;
+  } else if (series === 'speed') {
+    text = value.toFixed(1);
+  }
+  return withUnit ? `${text} ${seriesConfigs[series].unit}` : text;
+}
+
+export function fullWindow(count: number): ChartWindow {
+  return { start: 0, end: Math.max(count - 1, 0) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Scale `window` by `factor` around the trackpoint at `anchor`, which stays
+ * where it is on screen; below 1 zooms in. The result stays within `count`
+ * trackpoints.
+ */
+export function zoomWindow(
+  window: ChartWindow,
+  anchor: number,
+  factor: number,
+  count: number
+): ChartWindow {
+  const maxIndex = Math.max(count - 1, 0);
+  const span = window.end - window.start;
+  const newSpan = clamp(span * factor, Math.min(MIN_WINDOW, maxIndex), maxIndex);
+  const ratio = span > 0 ? clamp((anchor - window.start) / span, 0, 1) : 0.5;
+  const start = Math.round(clamp(anchor - newSpan * ratio, 0, maxIndex - newSpan));
+  return { start, end: Math.min(start + Math.round(newSpan), maxIndex) };
+}
+
+/** Move `window` by `delta` trackpoints, stopping at either end of the track */
+export function panWindow(window: ChartWindow, delta: number, count: number): ChartWindow {
+  const span = window.end - window.start;
+  const start = Math.round(clamp(window.start + delta, 0, Math.max(count - 1 - span, 0)));
+  return { start, end: start + span };
+}
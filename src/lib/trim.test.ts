@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { columnsOf } from '../test/columns';
+import { findBoundary, formatUnitValue, parseUnitValue, withBoundary } from './trim';
+
+// A ride from 23:50 to 00:20 local time
+const startMs = new Date(2025, 11, 7, 23, 50).getTime();
+const overMidnight = columnsOf([0, 600, 1200, 1800], {}, startMs);
+
+describe('parseUnitValue', () => {
+  it('reads elapsed time as h:mm:ss, m:ss or seconds', () => {
+    expect(parseUnitValue('elapsed', '1:02:03', overMidnight)).toBe(3_723_000);
+    expect(parseUnitValue('elapsed', '2:30', overMidnight)).toBe(150_000);
+    expect(parseUnitValue('elapsed', '90.5', overMidnight)).toBe(90_500);
+    expect(parseUnitValue('elapsed', '1:x', overMidnight)).toBeNull();
+    expect(parseUnitValue('elapsed', '1:2:3:4', overMidnight)).toBeNull();
+  });
+
+  it('reads distance in kilometers', () => {
+    expect(parseUnitValue('distance', '2.5', overMidnight)).toBe(2500);
+    expect(parseUnitValue('distance', '-1', overMidnight)).toBeNull();
+  });
+
+  it('places a clock time on the day the activity starts', () => {
+    expect(parseUnitValue('clock', '23:55', overMidnight)).toBe(startMs + 300_000);
+    // Before the start, but not on the next day either
+    expect(parseUnitValue('clock', '23:40', overMidnight)).toBe(startMs - 600_000);
+  });
+
+  it('places a clock time past midnight on the next day', () => {
+    expect(parseUnitValue('clock', '00:10', overMidnight)).toBe(startMs + 1_200_000);
+    expect(parseUnitValue('clock', '0:15:30', overMidnight)).toBe(startMs + 1_530_000);
+  });
+
+  it('rejects clock times that are not times of day', () => {
+    expect(parseUnitValue('clock', '24:00', overMidnight)).toBeNull();
+    expect(parseUnitValue('clock', '7:5', overMidnight)).toBeNull();
+  });
+
+  it('reads back what formatUnitValue writes', () => {
+    for (const unit of ['elapsed', 'clock', 'distance'] as const) {
+      const value = unit === 'clock' ? startMs + 1_200_000 : unit === 'elapsed' ? 1_200_000 : 1250;
+      const text = formatUnitValue(unit, value);
+      expect(parseUnitValue(unit, text, overMidnight), text).toBe(value);
+    }
+    expect(formatUnitValue('distance', null)).toBe('');
+  });
+});
+
+describe('findBoundary', () => {
+  const track = columnsOf([0, 10, 20, 30, 40], { distance_meters: [0, 100, 200, null, 400] });
+
+  it('starts at the first trackpoint at or past the value', () => {
+    expect(findBoundary(track, 'distance', 150, 'start')).toBe(2);
+    expect(findBoundary(track, 'distance', 200, 'start')).toBe(2);
+    expect(findBoundary(track, 'distance', 500, 'start')).toBeNull();
+  });
+
+  it('ends at the last trackpoint up to the value, skipping ones without it', () => {
+    expect(findBoundary(track, 'distance', 350, 'end')).toBe(2);
+    expect(findBoundary(track, 'elapsed', 25_000, 'end')).toBe(2);
+    expect(findBoundary(track, 'distance', -1, 'end')).toBeNull();
+  });
+
+  it('finds clock times after midnight', () => {
+    const target = parseUnitValue('clock', '00:05', overMidnight) as number;
+    expect(findBoundary(overMidnight, 'clock', target, 'start')).toBe(2);
+    expect(findBoundary(overMidnight, 'clock', target, 'end')).toBe(1);
+  });
+});
+
+describe('withBoundary', () => {
+  it('pushes the other end along when the ends would cross', () => {
+    expect(withBoundary({ start: 2, end: 5 }, 'start', 4)).toEqual({ start: 4, end: 5 });
+    expect(withBoundary({ start: 2, end: 5 }, 'start', 7)).toEqual({ start: 7, end: 7 });
+    expect(withBoundary({ start: 2, end: 5 }, 'end', 1)).toEqual({ start: 1, end: 1 });
+  });
+});
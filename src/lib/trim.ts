@@ -0,0 +1,117 @@
+import type { TrackpointColumns, TrimBoundary, TrimRange } from '../types/tcx';
+import { pointCount, valueAt } from './columns';
+import { formatDuration } from './format';
+
+/** What the start and end of the range are typed as */
+export type TrimUnit = 'elapsed' | 'clock' | 'distance';
+
+const DAY_MS = 24 * 3_600_000;
+
+/** `h:mm:ss`, `m:ss` or plain seconds */
+function parseDuration(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d*)?$/.test(part))) return null;
+  return parts.reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+}
+
+/** `HH:MM:SS` in local time, as the clock input shows it */
+function formatClock(ms: number): string {
+  const date = new Date(ms);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * A local time of day typed as `HH:MM` or `HH:MM:SS`, placed on the day the
+ * activity starts or, for activities past midnight, the day after
+ */
+function parseClock(text: string, firstMs: number, lastMs: number): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!match) return null;
+  const [hours, minutes, seconds] = [match[1], match[2], match[3] ?? '0'].map(Number);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  const date = new Date(firstMs);
+  date.setHours(hours, minutes, seconds, 0);
+  const ms = date.getTime();
+  return ms < firstMs && ms + DAY_MS <= lastMs ? ms + DAY_MS : ms;
+}
+
+/** Where the trackpoint at `idx` is, in `unit` */
+export function unitValue(unit: TrimUnit, trackpoints: TrackpointColumns, idx: number): number | null {
+  switch (unit) {
+    case 'elapsed':
+      return trackpoints.timestamp_ms[idx] - trackpoints.timestamp_ms[0];
+    case 'clock':
+      return trackpoints.timestamp_ms[idx];
+    case 'distance':
+      return valueAt(trackpoints.distance_meters, idx);
+  }
+}
+
+export function formatUnitValue(unit: TrimUnit, value: number | null): string {
+  if (value === null) return '';
+  switch (unit) {
+    case 'elapsed':
+      return formatDuration(value / 1000);
+    case 'clock':
+      return formatClock(value);
+    case 'distance':
+      return (value / 1000).toFixed(2);
+  }
+}
+
+/** Milliseconds for times, meters for distance, as `unitValue` gives them */
+export function parseUnitValue(
+  unit: TrimUnit,
+  text: string,
+  trackpoints: TrackpointColumns
+): number | null {
+  switch (unit) {
+    case 'elapsed': {
+      const seconds = parseDuration(text);
+      return seconds === null ? null : seconds * 1000;
+    }
+    case 'clock':
+      return parseClock(
+        text,
+        trackpoints.timestamp_ms[0],
+        trackpoints.timestamp_ms[pointCount(trackpoints) - 1]
+      );
+    case 'distance': {
+      const km = parseFloat(text);
+      return Number.isFinite(km) && km >= 0 ? km * 1000 : null;
+    }
+  }
+}
+
+/**
+ * The trackpoint a typed value lands on: the first one at or past it for the
+ * start and the last one up to it for the end, so the range never reaches
+ * beyond what was typed
+ */
+export function findBoundary(
+  trackpoints: TrackpointColumns,
+  unit: TrimUnit,
+  target: number,
+  boundary: TrimBoundary
+): number | null {
+  const count = pointCount(trackpoints);
+  if (boundary === 'start') {
+    for (let index = 0; index < count; index++) {
+      if ((unitValue(unit, trackpoints, index) ?? -Infinity) >= target) return index;
+    }
+    return null;
+  }
+  for (let index = count - 1; index >= 0; index--) {
+    if ((unitValue(unit, trackpoints, index) ?? Infinity) <= target) return index;
+  }
+  return null;
+}
+
+/** Move one end of `range` to `index`, pushing the other end along if they'd cross */
+export function withBoundary(range: TrimRange, boundary: TrimBoundary, index: number): TrimRange {
+  return boundary === 'start'
+    ? { start: index, end: Math.max(index, range.end) }
+    : { start: Math.min(index, range.start), end: index };
+}
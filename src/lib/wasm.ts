@@ -1,4 +1,25 @@
-import type { JsActivityStats, JsTrackpoint } from '../types/tcx';
+import type {
+  AthleteProfile,
+  CalorieMethod,
+  CutOptions,
+  DistanceOptions,
+  EditableField,
+  EditHistory,
+  ElevationGainOptions,
+  GlitchRepair,
+  HrArtifactDetection,
+  HrFix,
+  JsActivityMetadata,
+  JsActivityStats,
+  JsActivitySummary,
+  JsGlitch,
+  JsHrArtifact,
+  JsMergeInfo,
+  JsStop,
+  MetadataEdit,
+  StopDetection,
+  TrackpointColumns,
+} from '../types/tcx';
 
 // Dynamic import for WASM module
 let wasmModule: typeof import('../../pkg/tcx_parser') | null = null;
@@ -23,16 +44,20 @@ export async function initWasm(): Promise<typeof import('../../pkg/tcx_parser')>
   return initPromise;
 }
 
+/** An open activity; lives in the editor worker, which the page talks to */
 export class TcxEditorWrapper {
   private editor: import('../../pkg/tcx_parser').TcxEditor;
-  private originalContent: string;
+  private originalContent: string | Uint8Array;
+  /** Whether the WASM editor is gone, freed or handed to another one */
+  private released: boolean;
 
   private constructor(
     editor: import('../../pkg/tcx_parser').TcxEditor,
-    content: string
+    content: string | Uint8Array
   ) {
     this.editor = editor;
     this.originalContent = content;
+    this.released = false;
   }
 
   static async fromContent(content: string): Promise<TcxEditorWrapper> {
@@ -41,14 +66,64 @@ export class TcxEditorWrapper {
     return new TcxEditorWrapper(editor, content);
   }
 
-  getTrackpoints(): JsTrackpoint[] {
-    return this.editor.getTrackpoints() as JsTrackpoint[];
+  static async fromGpx(content: string): Promise<TcxEditorWrapper> {
+    const wasm = await initWasm();
+    const editor = wasm.TcxEditor.fromGpx(content);
+    return new TcxEditorWrapper(editor, content);
+  }
+
+  /** Merge several loaded files into one activity; the inputs can't be used afterwards */
+  static async merge(wrappers: TcxEditorWrapper[]): Promise<TcxEditorWrapper> {
+    const wasm = await initWasm();
+    try {
+      const editor = wasm.TcxEditor.merge(wrappers.map((w) => w.editor));
+      return new TcxEditorWrapper(editor, wrappers[0].originalContent);
+    } finally {
+      // WASM takes the inputs over, and drops them if the merge fails
+      wrappers.forEach((w) => (w.released = true));
+    }
+  }
+
+  static async fromFit(content: Uint8Array): Promise<TcxEditorWrapper> {
+    const wasm = await initWasm();
+    const editor = wasm.TcxEditor.fromFit(content);
+    return new TcxEditorWrapper(editor, content);
+  }
+
+  getTrackpointColumns(): TrackpointColumns {
+    const columns = this.editor.getTrackpointColumns();
+    try {
+      // Each getter copies its array out of WASM memory
+      return {
+        timestamp_ms: columns.timestamp_ms,
+        latitude: columns.latitude,
+        longitude: columns.longitude,
+        altitude_meters: columns.altitude_meters,
+        distance_meters: columns.distance_meters,
+        heart_rate: columns.heart_rate,
+        cadence: columns.cadence,
+        speed: columns.speed,
+        power: columns.power,
+        lap_index: columns.lap_index,
+      };
+    } finally {
+      columns.free();
+    }
   }
 
   getStats(): JsActivityStats {
     return this.editor.getStats() as JsActivityStats;
   }
 
+  /** Choose how the stats count elevation gain; not an edit, so not recorded */
+  setElevationMethod(options: ElevationGainOptions): void {
+    this.editor.setElevationMethod(options.method, options.threshold, options.window);
+  }
+
+  getMergeInfo(): JsMergeInfo | null {
+    return this.editor.getMergeInfo() as JsMergeInfo | null;
+  }
+
   getTrackpointCount(): number {
     return this.editor.getTrackpointCount();
   }
@@ -57,15 +132,239 @@ export class TcxEditorWrapper {
     this.editor.trimByIndices(startIdx, endIdx);
   }
 
+  cutRange(startIdx: number, endIdx: number, options: CutOptions): void {
+    this.editor.cutRange(startIdx, endIdx, options.shiftTime, options.rebaseDistance);
+  }
+
+  recomputeDistance(options: DistanceOptions): void {
+    this.editor.recomputeDistance(options.smoothing, options.useElevation);
+  }
+
+  /** Replace altitudes with DEM elevations; returns the number of points changed */
+  correctElevation(model: ElevationModelWrapper): number {
+    return this.editor.correctElevation(model.getModel());
+  }
+
+  /** Total distance recomputeDistance would give, or null without GPS data */
+  previewRecomputedDistance(options: DistanceOptions): number | null {
+    return this.editor.previewRecomputedDistance(options.smoothing, options.useElevation) ?? null;
+  }
+
+  findGlitches(): JsGlitch[] {
+    return this.editor.findGlitches() as JsGlitch[];
+  }
+
+  repairGlitches(indices: number[], repair: GlitchRepair): void {
+    this.editor.repairGlitches(new Uint32Array(indices), repair === 'interpolate');
+  }
+
+  /** Set what counts as a stop; like the elevation method, not recorded */
+  setStopDetection(detection: StopDetection): void {
+    this.editor.setStopDetection(detection.maxSpeed, detection.minSeconds);
+  }
+
+  findStops(): JsStop[] {
+    return this.editor.findStops() as JsStop[];
+  }
+
+  /** Cut every stop out of the track, returning how many there were */
+  removeStops(): number {
+    return this.editor.removeStops();
+  }
+
+  /** Set `field` of the trackpoints at `indices` to `value`, or remove it with null */
+  updateTrackpoints(indices: number[], field: EditableField, value: number | null): void {
+    this.editor.updateTrackpoints(new Uint32Array(indices), field, value);
+  }
+
+  /** Move a trackpoint, recomputing the distance around it */
+  moveTrackpoint(index: number, latitude: number, longitude: number): void {
+    this.editor.moveTrackpoint(index, latitude, longitude);
+  }
+
+  /** Recalculate lap calories with `method`; `profile` is used by 'heart_rate' */
+  setCalorieMethod(method: CalorieMethod, profile: AthleteProfile): void {
+    this.editor.setCalorieMethod(method, profile.weightKg, profile.age, profile.sex);
+  }
+
+  getMetadata(): JsActivityMetadata {
+    return this.editor.getMetadata() as JsActivityMetadata;
+  }
+
+  editMetadata(edit: MetadataEdit): void {
+    const notes = (text: string) => text.trim() || null;
+    switch (edit.field) {
+      case 'sport':
+        this.editor.setSport(edit.value);
+        break;
+      case 'notes':
+        this.editor.setActivityNotes(notes(edit.value));
+        break;
+      case 'creator':
+        if (edit.value) {
+          const { name, unit_id, product_id, version_major, version_minor } = edit.value;
+          this.editor.setCreator(name, unit_id, product_id, version_major, version_minor);
+        } else {
+          this.editor.removeCreator();
+        }
+        break;
+      case 'lapIntensity':
+        this.editor.setLapIntensity(edit.lap, edit.value);
+        break;
+      case 'lapTriggerMethod':
+        this.editor.setLapTriggerMethod(edit.lap, edit.value);
+        break;
+      case 'lapCalories':
+        this.editor.setLapCalories(edit.lap, edit.value);
+        break;
+      case 'lapNotes':
+        this.editor.setLapNotes(edit.lap, notes(edit.value));
+        break;
+    }
+  }
+
+  /** Move every timestamp by `offsetMs`, keeping its formatting */
+  shiftTime(offsetMs: number): void {
+    this.editor.shiftTime(offsetMs);
+  }
+
+  /** Set what counts as a heart rate artifact; not recorded */
+  setHrArtifactDetection(detection: HrArtifactDetection): void {
+    this.editor.setHrArtifactDetection(detection.maxRate, detection.minSeconds);
+  }
+
+  findHrArtifacts(): JsHrArtifact[] {
+    return this.editor.findHrArtifacts() as JsHrArtifact[];
+  }
+
+  /** Fix the heart rate of trackpoints `start..=end`; `bpm` is used by 'constant' */
+  fixHeartRate(start: number, end: number, fix: HrFix, bpm = 0): void {
+    switch (fix) {
+      case 'interpolate':
+        this.editor.interpolateHeartRate(start, end);
+        break;
+      case 'clear':
+        this.editor.clearHeartRate(start, end);
+        break;
+      case 'constant':
+        this.editor.setHeartRate(start, end, bpm);
+        break;
+    }
+  }
+
+  /** Split into independent activities, each starting at one of `indices` */
+  splitAt(indices: number[]): TcxEditorWrapper[] {
+    return this.editor
+      .splitAt(new Uint32Array(indices))
+      .map((editor) => new TcxEditorWrapper(editor, this.originalContent));
+  }
+
+  getActivities(): JsActivitySummary[] {
+    return this.editor.getActivities() as JsActivitySummary[];
+  }
+
+  /** One editor per activity, each with its own history */
+  splitActivities(): TcxEditorWrapper[] {
+    return this.editor
+      .splitActivities()
+      .map((editor) => new TcxEditorWrapper(editor, this.originalContent));
+  }
+
+  /** Put the activity edited in `part` back in the file; not recorded */
+  replaceActivity(index: number, part: TcxEditorWrapper): void {
+    this.editor.replaceActivity(index, part.editor);
+  }
+
+  /** Remove an activity from the file, as an edit that undo brings back */
+  deleteActivity(index: number): void {
+    this.editor.deleteActivity(index);
+  }
+
+  /** The file as it is now with an empty history, to build an export in */
+  copy(): TcxEditorWrapper {
+    return new TcxEditorWrapper(this.editor.copy(), this.originalContent);
+  }
+
+  /** Release the WASM memory of an editor that is no longer needed; safe to repeat */
+  free(): void {
+    if (this.released) return;
+    this.released = true;
+    this.editor.free();
+  }
+
   toXml(): string {
     return this.editor.toXml();
   }
 
+  toGpx(): string {
+    return this.editor.toGpx();
+  }
+
+  toFit(): Uint8Array {
+    return this.editor.toFit();
+  }
+
   reset(): void {
     this.editor.reset();
   }
 
-  getOriginalContent(): string {
+  undo(): boolean {
+    return this.editor.undo();
+  }
+
+  redo(): boolean {
+    return this.editor.redo();
+  }
+
+  getHistory(): EditHistory {
+    return this.editor.getHistory() as EditHistory;
+  }
+
+  getOriginalContent(): string | Uint8Array {
     return this.originalContent;
   }
 }
+
+/** Elevation tiles (SRTM .hgt or GeoTIFF) loaded from disk into WASM memory */
+export class ElevationModelWrapper {
+  private model: import('../../pkg/tcx_parser').ElevationModel;
+  private tileNames: string[];
+
+  private constructor(model: import('../../pkg/tcx_parser').ElevationModel) {
+    this.model = model;
+    this.tileNames = [];
+  }
+
+  static async create(): Promise<ElevationModelWrapper> {
+    const wasm = await initWasm();
+    return new ElevationModelWrapper(new wasm.ElevationModel());
+  }
+
+  /** Add a tile, reading `.hgt` files as SRTM and anything else as GeoTIFF */
+  async addFile(file: File): Promise<void> {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (/\.hgt$/i.test(file.name)) {
+      this.model.addHgt(file.name, data);
+    } else {
+      this.model.addGeoTiff(data);
+    }
+    this.tileNames.push(file.name);
+  }
+
+  getTileNames(): string[] {
+    return [...this.tileNames];
+  }
+
+  /** Elevation under each trackpoint, or NaN where no tile covers it */
+  sample(columns: TrackpointColumns): Float64Array {
+    return this.model.sampleMany(columns.latitude, columns.longitude);
+  }
+
+  getModel(): import('../../pkg/tcx_parser').ElevationModel {
+    return this.model;
+  }
+
+  free(): void {
+    this.model.free();
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** The entries as the central directory lists them */
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  expect(offset + view.getUint32(end + 12, true)).toBe(end);
+
+  const entries = [];
+  for (let idx = 0; idx < count; idx++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const size = view.getUint32(offset + 24, true);
+
+    // The local header repeats what the central directory says
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(view.getUint32(offset + 16, true));
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+
+    entries.push({
+      name: decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength)),
+      crc: view.getUint32(offset + 16, true),
+      time: view.getUint16(offset + 12, true),
+      date: view.getUint16(offset + 14, true),
+      data: decoder.decode(zip.subarray(dataStart, dataStart + size)),
+    });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  const modified = new Date(2025, 11, 7, 8, 48, 37);
+
+  it('stores each entry with its CRC-32 and time', () => {
+    const entries = readZip(createZip([{ name: 'check.txt', data: encoder.encode('123456789') }], modified));
+    expect(entries).toEqual([
+      {
+        name: 'check.txt',
+        // The standard check value of CRC-32
+        crc: 0xcbf43926,
+        time: (8 << 11) | (48 << 5) | 18,
+        date: (45 << 9) | (12 << 5) | 7,
+        data: '123456789',
+      },
+    ]);
+  });
+
+  it('points the central directory at every entry', () => {
+    const zip = createZip(
+      [
+        { name: 'Morning ride.tcx', data: encoder.encode('<TrainingCenterDatabase/>') },
+        { name: 'Ötztal.gpx', data: encoder.encode('<gpx/>') },
+        { name: 'empty.txt', data: new Uint8Array(0) },
+      ],
+      modified
+    );
+    const entries = readZip(zip);
+    expect(entries.map((entry) => [entry.name, entry.data])).toEqual([
+      ['Morning ride.tcx', '<TrainingCenterDatabase/>'],
+      ['Ötztal.gpx', '<gpx/>'],
+      ['empty.txt', ''],
+    ]);
+    expect(entries[2].crc).toBe(0);
+  });
+});
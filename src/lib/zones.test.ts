@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { columnsOf } from '../test/columns';
+import { defaultZoneSettings, hrZones, isZoneSettings, timeInZones } from './zones';
+
+const zones = hrZones(defaultZoneSettings);
+const seconds = (track: ReturnType<typeof timeInZones>) => track.map((total) => total.seconds);
+
+describe('hrZones', () => {
+  it('bounds the zones by fractions of the max heart rate', () => {
+    expect(zones.map((zone) => [zone.min, zone.max])).toEqual([
+      [0, 114],
+      [114, 133],
+      [133, 152],
+      [152, 171],
+      [171, null],
+    ]);
+  });
+
+  it('bounds the zones by fractions of the threshold heart rate', () => {
+    const lthr = hrZones({ ...defaultZoneSettings, basis: 'lthr', lthr: 160 });
+    expect(lthr.map((zone) => zone.min)).toEqual([0, 136, 144, 152, 160]);
+  });
+
+  it('sorts custom bounds', () => {
+    const custom = hrZones({ ...defaultZoneSettings, basis: 'custom', customBounds: [150, 110, 170, 130] });
+    expect(custom.map((zone) => zone.min)).toEqual([0, 110, 130, 150, 170]);
+  });
+});
+
+describe('timeInZones', () => {
+  const track = columnsOf([0, 1, 2, 3, 4, 5, 65], {
+    heart_rate: [100, 100, 120, 150, 180, 180, 100],
+  });
+  const all = { start: 0, end: 6 };
+
+  it('credits each reading with the time until the next, leaving out pauses', () => {
+    expect(seconds(timeInZones(track, zones, all, 'keep', 10))).toEqual([2, 1, 1, 0, 1]);
+  });
+
+  it('counts gaps up to the pause threshold it is given', () => {
+    const sparse = columnsOf([0, 5, 10, 15, 20, 60, 180], {
+      heart_rate: [100, 100, 100, 100, 160, 160, 160],
+    });
+    // Smart recording every 5 s, where the crate allows ten intervals
+    expect(seconds(timeInZones(sparse, zones, { start: 0, end: 6 }, 'keep', 50))).toEqual([
+      20, 0, 0, 40, 0,
+    ]);
+  });
+
+  it('skips readings without a heart rate', () => {
+    const gaps = columnsOf([0, 1, 2, 3], { heart_rate: [100, null, 120, 120] });
+    expect(seconds(timeInZones(gaps, zones, { start: 0, end: 3 }, 'keep', 10))).toEqual([1, 1, 0, 0, 0]);
+  });
+
+  it('only counts the part of the track the trim range keeps', () => {
+    const range = { start: 1, end: 3 };
+    expect(seconds(timeInZones(track, zones, range, 'keep', 10))).toEqual([1, 1, 0, 0, 0]);
+    expect(seconds(timeInZones(track, zones, range, 'cut', 10))).toEqual([0, 0, 0, 0, 1]);
+  });
+});
+
+describe('isZoneSettings', () => {
+  it('accepts stored settings and rejects anything else', () => {
+    expect(isZoneSettings(defaultZoneSettings)).toBe(true);
+    expect(isZoneSettings({ ...defaultZoneSettings, basis: 'resting' })).toBe(false);
+    expect(isZoneSettings({ ...defaultZoneSettings, customBounds: [1, 2, 3] })).toBe(false);
+    expect(isZoneSettings(null)).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import type {
+  HrZone,
+  HrZoneSettings,
+  TrackpointColumns,
+  TrimMode,
+  TrimRange,
+  ZoneTime,
+} from '../types/tcx';
+import { pointCount, valueAt } from './columns';
+
+export const ZONE_SETTINGS_STORAGE_KEY = 'track-editor.hr-zones';
+
+/** Zone colours from easy to maximal, shared by the panel and the chart */
+export const zoneColors = ['#94a3b8', '#3b82f6', '#22c55e', '#f97316', '#ef4444'];
+
+// Lower bounds of zones 2 to 5 as a fraction of the reference heart rate
+const maxHrFractions = [0.6, 0.7, 0.8, 0.9];
+// Joe Friel's zones
+const lthrFractions = [0.85, 0.9, 0.95, 1.0];
+
+export const defaultZoneSettings: HrZoneSettings = {
+  basis: 'max_hr',
+  maxHr: 190,
+  lthr: 170,
+  customBounds: [114, 133, 152, 171],
+};
+
+export function hrZones(settings: HrZoneSettings): HrZone[] {
+  let bounds: number[];
+  switch (settings.basis) {
+    case 'lthr':
+      bounds = lthrFractions.map((f) => Math.round(settings.lthr * f));
+      break;
+    case 'custom':
+      bounds = [...settings.customBounds].sort((a, b) => a - b);
+      break;
+    default:
+      bounds = maxHrFractions.map((f) => Math.round(settings.maxHr * f));
+  }
+
+  return [0, ...bounds].map((min, idx) => ({ zone: idx + 1, min, max: bounds[idx] ?? null }));
+}
+
+function zoneIndex(heartRate: number, zones: HrZone[]): number {
+  for (let idx = zones.length - 1; idx > 0; idx--) {
+    if (heartRate >= zones[idx].min) return idx;
+  }
+  return 0;
+}
+
+/**
+ * Seconds spent in each zone over the part of the track that the trim range
+ * keeps. Each reading is credited with the time until the next one, unless
+ * that is longer than `pauseSeconds`, the stats' `pause_seconds` that the
+ * calorie model leaves out too.
+ */
+export function timeInZones(
+  trackpoints: TrackpointColumns,
+  zones: HrZone[],
+  range: TrimRange,
+  mode: TrimMode,
+  pauseSeconds: number
+): ZoneTime[] {
+  const totals = zones.map((zone) => ({ zone, seconds: 0 }));
+  const isKept = (idx: number) =>
+    mode === 'keep' ? idx >= range.start && idx <= range.end : idx < range.start || idx > range.end;
+
+  const times = trackpoints.timestamp_ms;
+  for (let idx = 0; idx < pointCount(trackpoints) - 1; idx++) {
+    const heartRate = valueAt(trackpoints.heart_rate, idx);
+    if (heartRate === null || !isKept(idx) || !isKept(idx + 1)) continue;
+
+    const seconds = (times[idx + 1] - times[idx]) / 1000;
+    if (seconds <= 0 || seconds > pauseSeconds) continue;
+
+    totals[zoneIndex(heartRate, zones)].seconds += seconds;
+  }
+
+  return totals;
+}
+
+export function isZoneSettings(value: unknown): value is HrZoneSettings {
+  const settings = value as HrZoneSettings;
+  return (
+    typeof settings === 'object' &&
+    settings !== null &&
+    ['max_hr', 'lthr', 'custom'].includes(settings.basis) &&
+    typeof settings.maxHr === 'number' &&
+    typeof settings.lthr === 'number' &&
+    Array.isArray(settings.customBounds) &&
+    settings.customBounds.length === 4 &&
+    settings.customBounds.every((bound) => typeof bound === 'number')
+  );
+}
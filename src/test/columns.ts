@@ -0,0 +1,28 @@
+import type { TrackpointColumns } from '../types/tcx';
+
+type ValueColumn = Exclude<keyof TrackpointColumns, 'timestamp_ms' | 'lap_index'>;
+
+/**
+ * Columns for a track recorded at `seconds` from `startMs`, with the given
+ * values and none in the other columns
+ */
+export function columnsOf(
+  seconds: number[],
+  values: Partial<Record<ValueColumn, (number | null)[]>> = {},
+  startMs = Date.UTC(2025, 11, 7, 7, 48, 35)
+): TrackpointColumns {
+  const column = (name: ValueColumn) =>
+    Float64Array.from(seconds, (_, idx) => values[name]?.[idx] ?? NaN);
+  return {
+    timestamp_ms: Float64Array.from(seconds, (s) => startMs + s * 1000),
+    latitude: column('latitude'),
+    longitude: column('longitude'),
+    altitude_meters: column('altitude_meters'),
+    distance_meters: column('distance_meters'),
+    heart_rate: column('heart_rate'),
+    cadence: column('cadence'),
+    speed: column('speed'),
+    power: column('power'),
+    lap_index: new Uint32Array(seconds.length),
+  };
+}
@@ -1,5 +1,4 @@
 export interface JsTrackpoint {
-  time: string;
   timestamp_ms: number;
   latitude: number | null;
   longitude: number | null;
@@ -7,22 +6,241 @@ export interface JsTrackpoint {
   distance_meters: number | null;
   heart_rate: number | null;
   cadence: number | null;
+  speed: number | null;
+  power: number | null;
+  lap_index: number;
+}
+
+/**
+ * Every trackpoint as one typed array per field, as they come out of the
+ * editor. Missing values are NaN.
+ */
+export interface TrackpointColumns {
+  timestamp_ms: Float64Array;
+  latitude: Float64Array;
+  longitude: Float64Array;
+  altitude_meters: Float64Array;
+  distance_meters: Float64Array;
+  heart_rate: Float64Array;
+  cadence: Float64Array;
+  speed: Float64Array;
+  power: Float64Array;
+  lap_index: Uint32Array;
 }
 
+/** Trackpoint values that can be edited directly */
+export type EditableField =
+  | 'latitude'
+  | 'longitude'
+  | 'altitude_meters'
+  | 'distance_meters'
+  | 'heart_rate'
+  | 'cadence';
+
 export interface JsActivityStats {
   sport: string;
   start_time: string;
   total_time_seconds: number;
+  /** Elapsed time without the detected stops */
+  moving_time_seconds: number;
   total_distance_meters: number;
   total_calories: number;
+  calorie_method: CalorieMethod;
   trackpoint_count: number;
   avg_heart_rate: number | null;
   max_heart_rate: number | null;
   min_heart_rate: number | null;
   elevation_gain: number | null;
   elevation_loss: number | null;
+  elevation_method: ElevationMethod;
+  /** Minimum climb counted, with the hysteresis method */
+  elevation_threshold: number | null;
+  /** Moving average window in trackpoints, with the smoothed method */
+  elevation_window: number | null;
   max_altitude: number | null;
   min_altitude: number | null;
+  /** Longest interval between two readings that is still recording, not a pause */
+  pause_seconds: number;
+}
+
+export interface JsMergeSource {
+  index: number;
+  start_ms: number | null;
+}
+
+export interface JsMergeOverlap {
+  first: number;
+  second: number;
+  overlap_seconds: number;
+}
+
+export interface JsMergeInfo {
+  /** Merged files in timestamp order, by their position in the input */
+  sources: JsMergeSource[];
+  overlaps: JsMergeOverlap[];
+}
+
+/** A trackpoint that is implausibly far from its neighbours */
+export interface JsGlitch {
+  index: number;
+  time: string;
+  /** m/s needed to reach the point from the last good one */
+  implied_speed: number;
+  offset_meters: number;
+}
+
+export type GlitchRepair = 'delete' | 'interpolate';
+
+export interface JsStop {
+  /** Last trackpoint before standing still */
+  start_index: number;
+  /** Trackpoint where moving resumes */
+  end_index: number;
+  start_time: string;
+  duration_seconds: number;
+}
+
+export interface StopDetection {
+  /** Speed in m/s below which the activity counts as stopped */
+  maxSpeed: number;
+  /** Shortest stationary stretch counted as a stop */
+  minSeconds: number;
+}
+
+export type HrArtifactKind = 'dropout' | 'jump' | 'flatline' | 'cadence_lock';
+
+export interface JsHrArtifact {
+  kind: HrArtifactKind;
+  /** First and last affected trackpoint, inclusive */
+  start_index: number;
+  end_index: number;
+  start_time: string;
+}
+
+export interface HrArtifactDetection {
+  /** Fastest believable change in bpm per second */
+  maxRate: number;
+  /** Shortest flatline or cadence lock reported */
+  minSeconds: number;
+}
+
+/** How a stretch of bad heart rate is fixed */
+export type HrFix = 'interpolate' | 'clear' | 'constant';
+
+/** `Activity@Sport` values allowed by the TCX schema */
+export type Sport = 'Running' | 'Biking' | 'Other';
+
+export type LapIntensity = 'Active' | 'Resting';
+
+export type TriggerMethod = 'Manual' | 'Distance' | 'Location' | 'Time' | 'HeartRate';
+
+/** The recording device from an activity's `Creator` block */
+export interface JsCreator {
+  name: string;
+  unit_id: number | null;
+  product_id: number | null;
+  version_major: number | null;
+  version_minor: number | null;
+}
+
+export interface JsLapMetadata {
+  start_time: string;
+  intensity: string;
+  trigger_method: string;
+  calories: number;
+  notes: string | null;
+}
+
+/** One activity of a file that holds several, for choosing which to edit */
+export interface JsActivitySummary {
+  sport: string;
+  /** The activity `Id`, which is its start time */
+  start_time: string;
+  notes: string | null;
+  total_time_seconds: number;
+  distance_meters: number;
+  lap_count: number;
+  trackpoint_count: number;
+}
+
+export interface JsActivityMetadata {
+  sport: string;
+  notes: string | null;
+  creator: JsCreator | null;
+  /** Every lap, indexed like `JsTrackpoint.lap_index` */
+  laps: JsLapMetadata[];
+}
+
+/** One change made in the metadata editor; notes are removed when empty */
+export type MetadataEdit =
+  | { field: 'sport'; value: Sport }
+  | { field: 'notes'; value: string }
+  | { field: 'creator'; value: JsCreator | null }
+  | { field: 'lapIntensity'; lap: number; value: LapIntensity }
+  | { field: 'lapTriggerMethod'; lap: number; value: TriggerMethod }
+  | { field: 'lapCalories'; lap: number; value: number }
+  | { field: 'lapNotes'; lap: number; value: string };
+
+export interface DistanceOptions {
+  /** Moving average window in trackpoints, 0 for raw positions */
+  smoothing: number;
+  /** Include the climb between points (3D distance) */
+  useElevation: boolean;
+}
+
+/** How lap calories follow edits that remove trackpoints */
+export type CalorieMethod = 'recorded' | 'time' | 'distance' | 'heart_rate';
+
+export type Sex = 'male' | 'female';
+
+/** The athlete, for the heart rate calorie model */
+export interface AthleteProfile {
+  weightKg: number;
+  age: number;
+  sex: Sex;
+}
+
+/** How elevation gain and loss are added up */
+export type ElevationMethod = 'raw' | 'hysteresis' | 'smoothed';
+
+export interface ElevationGainOptions {
+  method: ElevationMethod;
+  /** Metres a climb must reach before it counts (hysteresis) */
+  threshold: number;
+  /** Moving average window in trackpoints (smoothed) */
+  window: number;
+}
+
+/** What the heart rate zones are derived from */
+export type HrZoneBasis = 'max_hr' | 'lthr' | 'custom';
+
+export interface HrZoneSettings {
+  basis: HrZoneBasis;
+  maxHr: number;
+  /** Lactate threshold heart rate */
+  lthr: number;
+  /** Upper bounds in bpm of zones 1 to 4, for custom zones */
+  customBounds: number[];
+}
+
+export interface HrZone {
+  /** 1 to 5 */
+  zone: number;
+  /** Lowest bpm in the zone */
+  min: number;
+  /** First bpm above the zone, null for the top zone */
+  max: number | null;
+}
+
+export interface ZoneTime {
+  zone: HrZone;
+  seconds: number;
+}
+
+/** Trackpoint index where a merged file starts */
+export interface SourceMarker {
+  index: number;
+  label: string;
 }
 
 export interface TrimRange {
@@ -30,6 +248,47 @@ export interface TrimRange {
   end: number;
 }
 
+/** One end of the trim range */
+export type TrimBoundary = keyof TrimRange;
+
+/** Values that can be drawn on the timeline */
+export type ChartSeries = 'heart_rate' | 'altitude' | 'pace' | 'speed' | 'cadence' | 'power';
+
+/** What the timeline's x-axis measures */
+export type ChartAxis = 'time' | 'distance';
+
+/** Trackpoint indices the timeline is zoomed to, inclusive */
+export interface ChartWindow {
+  start: number;
+  end: number;
+}
+
+/** Whether the selected range is kept (trim) or removed (cut) */
+export type TrimMode = 'keep' | 'cut';
+
+/** How the parts of a split activity are downloaded */
+export type SplitPackaging = 'files' | 'zip';
+
+export type ExportFormat = 'tcx' | 'gpx' | 'fit';
+
+/** Whether an export holds the activity being edited or every activity in the file */
+export type ExportScope = 'activity' | 'all';
+
+export interface CutOptions {
+  shiftTime: boolean;
+  rebaseDistance: boolean;
+}
+
+export interface HistoryEntry {
+  label: string;
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  /** Number of entries currently applied; the rest can be redone */
+  position: number;
+}
+
 export interface ActivityData {
   stats: JsActivityStats;
   trackpoints: JsTrackpoint[];
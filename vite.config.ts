@@ -28,6 +28,11 @@ export default defineConfig({
       },
     },
   },
+  // The editor worker loads the WASM module with a dynamic import, which
+  // needs module workers
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['tcx-parser'],
   },